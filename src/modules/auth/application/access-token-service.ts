@@ -0,0 +1,84 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { appConfig } from '../../../shared/config/app-config.js';
+import { UnauthorizedError } from '../../../shared/errors/base-error.js';
+import { nowUTC } from '../../../shared/utils/date-utils.js';
+import type { AccessTokenClaims } from '../../../shared/types/auth.js';
+
+type AccessTokenConfig = typeof appConfig.auth.accessToken;
+
+const HEADER = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+
+/**
+ * Tokens de acesso de usuários (JWT HS256)
+ * Responsabilidade: emitir e validar tokens de curta duração
+ */
+export class AccessTokenService {
+  constructor(private config: AccessTokenConfig = appConfig.auth.accessToken) {}
+
+  /**
+   * Indica se os tokens podem ser emitidos/validados (segredo configurado)
+   */
+  get enabled(): boolean {
+    return !!this.config.secret;
+  }
+
+  get ttlSeconds(): number {
+    return this.config.ttlSeconds;
+  }
+
+  sign(userId: string, role: string, at: Date = nowUTC()): string {
+    if (!this.config.secret) {
+      throw new Error('AUTH_JWT_SECRET não configurado');
+    }
+
+    const iat = Math.floor(at.getTime() / 1000);
+    const claims: AccessTokenClaims = {
+      sub: userId,
+      role,
+      iss: this.config.issuer,
+      iat,
+      exp: iat + this.config.ttlSeconds,
+    };
+    const body = `${HEADER}.${Buffer.from(JSON.stringify(claims)).toString('base64url')}`;
+    return `${body}.${this.signature(body)}`;
+  }
+
+  /**
+   * Valida assinatura, emissor e expiração
+   */
+  verify(token: string, at: Date = nowUTC()): AccessTokenClaims {
+    const [header, payload, signature] = token.split('.');
+
+    if (!this.config.secret || header !== HEADER || !payload || !signature) {
+      throw new UnauthorizedError('Token de acesso inválido');
+    }
+
+    const expected = Buffer.from(this.signature(`${header}.${payload}`));
+    const received = Buffer.from(signature);
+
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      throw new UnauthorizedError('Token de acesso inválido');
+    }
+
+    let claims: Partial<AccessTokenClaims>;
+    try {
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as Partial<AccessTokenClaims>;
+    } catch {
+      throw new UnauthorizedError('Token de acesso inválido');
+    }
+
+    if (typeof claims.sub !== 'string' || typeof claims.role !== 'string' || claims.iss !== this.config.issuer) {
+      throw new UnauthorizedError('Token de acesso inválido');
+    }
+
+    if (typeof claims.exp !== 'number' || claims.exp * 1000 <= at.getTime()) {
+      throw new UnauthorizedError('Token de acesso expirado');
+    }
+
+    return claims as AccessTokenClaims;
+  }
+
+  private signature(body: string): string {
+    return createHmac('sha256', this.config.secret!).update(body).digest('base64url');
+  }
+}
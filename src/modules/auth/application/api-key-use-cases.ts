@@ -0,0 +1,75 @@
+import { createHash, randomBytes } from 'crypto';
+import type { IApiKeyRepository } from '../domain/repositories/api-key-repository.js';
+import { AUTH_SCOPES, type ApiKeyRecord, type AuthPrincipal, type AuthScope } from '../../../shared/types/auth.js';
+import { appConfig } from '../../../shared/config/app-config.js';
+import { NotFoundError, UnauthorizedError, ValidationError } from '../../../shared/errors/base-error.js';
+import { logger } from '../../../shared/utils/logger.js';
+
+/**
+ * Chave recém-criada: o valor em texto só é devolvido nesta resposta
+ */
+export interface CreatedApiKey {
+  apiKey: ApiKeyRecord;
+  key: string;
+}
+
+/**
+ * Casos de uso de chaves de API
+ * Responsabilidade: autenticar sistemas (ex.: cron) e administrar as chaves
+ */
+export class ApiKeyUseCases {
+  constructor(private apiKeyRepository: IApiKeyRepository) {}
+
+  /**
+   * Resolve a chave para o principal com os escopos dela
+   */
+  async authenticate(key: string): Promise<AuthPrincipal> {
+    const apiKey = await this.apiKeyRepository.findActiveByHash(hashApiKey(key));
+
+    if (!apiKey) {
+      throw new UnauthorizedError('Chave de API inválida ou revogada');
+    }
+
+    void this.apiKeyRepository.touch(apiKey.id);
+
+    return { type: 'api_key', id: apiKey.id, name: apiKey.name, scopes: apiKey.scopes };
+  }
+
+  async list(): Promise<ApiKeyRecord[]> {
+    return this.apiKeyRepository.list();
+  }
+
+  async create(name: string, scopes: AuthScope[]): Promise<CreatedApiKey> {
+    const invalid = scopes.filter((scope) => !AUTH_SCOPES.includes(scope));
+
+    if (!name.trim() || scopes.length === 0 || invalid.length > 0) {
+      throw new ValidationError('Nome e escopos válidos são obrigatórios', { invalid, scopes: AUTH_SCOPES });
+    }
+
+    const key = `${appConfig.auth.apiKeyPrefix}${randomBytes(32).toString('base64url')}`;
+    const apiKey = await this.apiKeyRepository.create({
+      name: name.trim(),
+      keyPrefix: key.slice(0, appConfig.auth.apiKeyPrefix.length + 6),
+      keyHash: hashApiKey(key),
+      scopes: [...new Set(scopes)],
+    });
+
+    logger.info(`🔑 Chave de API "${apiKey.name}" criada`, { id: apiKey.id, scopes: apiKey.scopes });
+    return { apiKey, key };
+  }
+
+  async revoke(id: string): Promise<void> {
+    if (!(await this.apiKeyRepository.revoke(id))) {
+      throw new NotFoundError(`Chave de API ${id} não encontrada ou já revogada`);
+    }
+
+    logger.info(`🔒 Chave de API ${id} revogada`);
+  }
+}
+
+/**
+ * As chaves são aleatórias (256 bits): SHA-256 basta e permite busca direta pelo hash
+ */
+function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
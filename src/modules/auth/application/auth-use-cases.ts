@@ -1,52 +1,96 @@
 import type { FastifyRequest, FastifyReply } from 'fastify';
 import { UserService } from '../../../shared/services/user-service.js';
+import type { SessionUseCases } from './session-use-cases.js';
+import type { OAuthStateService } from './oauth-state-service.js';
+import type { GoogleAuthService } from './google-auth-service.js';
+import type { IGoogleOAuthClient } from '../../../shared/types/google.js';
+import type { IOAuthStateRepository } from '../domain/repositories/oauth-state-repository.js';
 import { logger } from '../../../shared/utils/logger.js';
 import { env } from '../../../shared/config/environment.js';
-import { appConfig, getFrontendUrl } from '../../../shared/config/app-config.js';
+import { appConfig, getFrontendUrl, isAllowedReturnToOrigin } from '../../../shared/config/app-config.js';
+import { UnauthorizedError, ValidationError } from '../../../shared/errors/base-error.js';
+import { nowUTC } from '../../../shared/utils/date-utils.js';
+
+/**
+ * Login Google iniciado: URL de autorização e nonce a guardar no navegador
+ */
+export interface GoogleAuthRequest {
+  authUrl: string;
+  nonce: string;
+  expiresAt: Date;
+}
 
 /**
  * Casos de uso para autenticação
  * Responsabilidade: Orquestrar operações de autenticação
  */
 export class AuthUseCases {
-  constructor(private userService: UserService) {}
+  constructor(
+    private userService: UserService,
+    private sessionUseCases: SessionUseCases,
+    private stateService: OAuthStateService,
+    private stateRepository: IOAuthStateRepository,
+    private googleOAuthClient: IGoogleOAuthClient,
+    private googleAuthService: GoogleAuthService
+  ) {}
 
   /**
-   * Gera URL de autenticação Google
+   * Gera URL de autenticação Google com state assinado e PKCE (S256)
+   * `returnTo` (opcional): caminho ou URL de um frontend permitido para onde voltar após o login
+   * `optionalScopes` (opcional): escopos adicionais por nome (ex.: calendar); os já concedidos são mantidos
+   * O nonce retornado deve ficar no navegador que iniciou o login (cookie) e voltar no callback
    */
-  generateGoogleAuthUrl(): string {
+  async generateGoogleAuthUrl(returnTo?: string, optionalScopes: string[] = []): Promise<GoogleAuthRequest> {
     const clientId = env.GOOGLE_CLIENT_ID;
     const redirectUri = env.GOOGLE_REDIRECT_URI;
+    const resolvedReturnTo = returnTo ? resolveReturnTo(returnTo) : null;
+    const scopes = [...appConfig.auth.google.scopes, ...resolveOptionalScopes(optionalScopes)];
+
+    const { state, nonce, expiresAt } = this.stateService.create();
+    const { codeVerifier, codeChallenge } = this.stateService.createPkcePair();
+    await this.stateRepository.create(nonce, { codeVerifier, returnTo: resolvedReturnTo }, expiresAt);
     
     const params = new URLSearchParams({
       access_type: appConfig.auth.google.accessType,
-      scope: appConfig.auth.google.scopes.join(' '),
+      scope: scopes.join(' '),
+      include_granted_scopes: 'true',
       prompt: appConfig.auth.google.prompt,
       response_type: 'code',
       client_id: clientId,
       redirect_uri: redirectUri,
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
     });
 
-    return `https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`;
+    return {
+      authUrl: `https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`,
+      nonce,
+      expiresAt,
+    };
   }
 
   /**
    * Processa callback do Google OAuth
+   * O state precisa ser válido e inédito: callbacks sem state, forjados ou repetidos são rejeitados
+   * `browserNonce` (cookie do login iniciado) precisa ser o nonce do state: evita login CSRF
    */
-  async processGoogleCallback(code: string): Promise<{
+  async processGoogleCallback(code: string, state: string, browserNonce: string | undefined): Promise<{
     success: boolean;
     user?: any;
     error?: string;
     redirectUrl?: string;
   }> {
+    const login = await this.consumeLogin(state, browserNonce);
+
     try {
       logger.info('Processando callback Google OAuth', { code: code.substring(0, 10) + '...' });
 
-      // Trocar code por access token
-      const tokens = await this.exchangeCodeForTokens(code);
+      // Trocar code por access token (com o verifier PKCE do login iniciado)
+      const tokens = await this.googleOAuthClient.exchangeCode(code, login.codeVerifier);
       
       // Buscar dados do usuário
-      const googleUserData = await this.fetchGoogleUserData(tokens.access_token);
+      const googleUserData = await this.googleOAuthClient.fetchUserInfo(tokens.access_token);
       
       // Criar/buscar usuário no banco
       const userResult = await this.userService.findOrCreateFromGoogle(googleUserData);
@@ -58,8 +102,29 @@ export class AuthUseCases {
         };
       }
 
-      // Gerar URL de redirecionamento
-      const redirectUrl = this.generateRedirectUrl(userResult.user);
+      // Usuário fallback não existe no banco: não há sessão a emitir
+      if (userResult.user.id.startsWith('fallback-')) {
+        logger.warn('Usuário fallback não pode iniciar sessão', { googleId: userResult.user.google_id });
+        return {
+          success: true,
+          user: userResult.user,
+          redirectUrl: this.generateRedirectUrl({ success: 'false', error: 'integration_fallback' }, login.returnTo),
+        };
+      }
+
+      // Acesso offline (refresh token cifrado); falha aqui não impede o login
+      try {
+        await this.googleAuthService.storeTokens(userResult.user.id, tokens);
+      } catch (error) {
+        logger.error('Erro ao guardar tokens do Google', {
+          userId: userResult.user.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+
+      // Código de troca de uso único: o frontend o troca pelos tokens em POST /auth/token
+      const exchangeCode = await this.sessionUseCases.createExchangeCode(userResult.user.id);
+      const redirectUrl = this.generateRedirectUrl({ success: 'true', code: exchangeCode }, login.returnTo);
       
       return {
         success: true,
@@ -77,69 +142,81 @@ export class AuthUseCases {
   }
 
   /**
-   * Troca código de autorização por tokens
+   * Processa o callback em que o Google recusou a autorização (ex.: `error=access_denied`)
+   * O state é validado e consumido como no login; o frontend recebe `success=false&error=<código>`
    */
-  private async exchangeCodeForTokens(code: string): Promise<{ access_token: string }> {
-    const response = await fetch('https://oauth2.googleapis.com/token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: new URLSearchParams({
-        client_id: env.GOOGLE_CLIENT_ID,
-        client_secret: env.GOOGLE_CLIENT_SECRET,
-        code,
-        grant_type: 'authorization_code',
-        redirect_uri: env.GOOGLE_REDIRECT_URI,
-      }),
-    });
+  async processGoogleCallbackError(error: string, state: string, browserNonce: string | undefined): Promise<string> {
+    const login = await this.consumeLogin(state, browserNonce);
+    const errorCode = OAUTH_ERROR_CODE_REGEX.test(error) ? error : 'oauth_error';
 
-    const tokens = await response.json();
-
-    if (!response.ok) {
-      throw new Error(`Erro ao trocar tokens: ${tokens.error_description}`);
-    }
-
-    return tokens;
+    logger.info('Login Google não autorizado pelo usuário ou pelo provedor', { error: errorCode });
+    return this.generateRedirectUrl({ success: 'false', error: errorCode }, login.returnTo);
   }
 
   /**
-   * Busca dados do usuário no Google
+   * Valida o state (assinatura e mesmo navegador) e consome o login iniciado
    */
-  private async fetchGoogleUserData(accessToken: string): Promise<any> {
-    const response = await fetch('https://www.googleapis.com/oauth2/v2/userinfo', {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-      },
-    });
+  private async consumeLogin(state: string, browserNonce: string | undefined) {
+    const nonce = this.stateService.verify(state);
+    this.stateService.assertSameBrowser(nonce, browserNonce);
+    const login = await this.stateRepository.consume(nonce, nowUTC());
 
-    const userData = await response.json();
-
-    if (!response.ok) {
-      throw new Error('Erro ao buscar dados do usuário');
+    if (!login) {
+      throw new UnauthorizedError('State do OAuth já utilizado ou expirado; inicie o login novamente');
     }
 
-    return userData;
+    return login;
   }
 
   /**
    * Gera URL de redirecionamento para o frontend
+   * Dados do usuário não vão na URL: o frontend os obtém em GET /auth/me
+   * Com `returnTo`, volta para a origem dele e repassa o caminho em `return_to`
    */
-  private generateRedirectUrl(user: any): string {
-    const isRealUser = !user.id.startsWith('fallback-');
-    const frontendUrl = getFrontendUrl();
-      
-    const params = new URLSearchParams({
-      success: 'true',
-      user_id: user.id,
-      email: user.email,
-      name: user.name,
-      avatar: user.avatar_url || '',
-      google_id: user.google_id || '',
-      verified: String(user.email_verified),
-      integration_status: isRealUser ? 'complete' : 'fallback',
-    });
+  private generateRedirectUrl(params: Record<string, string>, returnTo: string | null): string {
+    if (!returnTo) {
+      return `${getFrontendUrl()}/auth/callback?${new URLSearchParams(params).toString()}`;
+    }
+
+    const target = new URL(returnTo);
+    const query = new URLSearchParams({ ...params, return_to: `${target.pathname}${target.search}${target.hash}` });
+    return `${target.origin}/auth/callback?${query.toString()}`;
+  }
+}
+
+// Códigos de erro do OAuth (RFC 6749, ex.: access_denied); outros valores não vão para a URL
+const OAUTH_ERROR_CODE_REGEX = /^[a-z_]{1,64}$/;
+
+/**
+ * Converte nomes de escopos opcionais (appConfig.auth.google.optionalScopes) nas URLs do Google
+ */
+function resolveOptionalScopes(names: string[]): string[] {
+  const { optionalScopes } = appConfig.auth.google;
+  const unknown = names.filter((name) => !optionalScopes[name]);
 
-    return `${frontendUrl}/auth/callback?${params.toString()}`;
+  if (unknown.length > 0) {
+    throw new ValidationError('Escopo opcional desconhecido', { unknown, available: Object.keys(optionalScopes) });
   }
-} 
\ No newline at end of file
+
+  return names.map((name) => optionalScopes[name]!);
+}
+
+/**
+ * Valida o destino pós-login: caminho relativo ao frontend ou URL absoluta de uma origem permitida
+ */
+function resolveReturnTo(returnTo: string): string {
+  let target: URL;
+
+  try {
+    // Caminhos são resolvidos contra o frontend; "//host" e URLs absolutas mantêm a própria origem
+    target = new URL(returnTo, getFrontendUrl());
+  } catch {
+    throw new ValidationError('Destino pós-login inválido', { returnTo });
+  }
+
+  if (!['http:', 'https:'].includes(target.protocol) || !isAllowedReturnToOrigin(target.origin)) {
+    throw new ValidationError('Destino pós-login não permitido', { returnTo });
+  }
+
+  return target.toString();
+}
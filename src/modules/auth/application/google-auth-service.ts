@@ -1 +1,148 @@
- 
\ No newline at end of file
+import type { IGoogleTokenRepository } from '../domain/repositories/google-token-repository.js';
+import type { GoogleTokenResponse, IGoogleOAuthClient } from '../../../shared/types/google.js';
+import type { SecretCipher } from '../../../shared/utils/secret-cipher.js';
+import { appConfig } from '../../../shared/config/app-config.js';
+import { NotFoundError } from '../../../shared/errors/base-error.js';
+import { logger } from '../../../shared/utils/logger.js';
+import { nowUTC } from '../../../shared/utils/date-utils.js';
+
+type GoogleTokenConfig = typeof appConfig.auth.google.tokens;
+
+/**
+ * Acesso offline ao Google em nome do usuário
+ * Responsabilidade: guardar os tokens cifrados, entregar um token de acesso válido
+ * (renovando quando necessário) e revogar o acesso
+ *
+ * Outros módulos usam `getAccessToken` para chamar APIs do Google (ex.: Calendar).
+ */
+export class GoogleAuthService {
+  constructor(
+    private tokenRepository: IGoogleTokenRepository,
+    private oauthClient: IGoogleOAuthClient,
+    private cipher: SecretCipher | null,
+    private config: GoogleTokenConfig = appConfig.auth.google.tokens
+  ) {}
+
+  /**
+   * Indica se os tokens podem ser guardados (chave de cifra configurada)
+   */
+  get enabled(): boolean {
+    return !!this.cipher;
+  }
+
+  /**
+   * Guarda os tokens recebidos no login
+   * Sem refresh token novo (o Google só o envia no consentimento), mantém o atual
+   */
+  async storeTokens(userId: string, tokens: GoogleTokenResponse): Promise<void> {
+    if (!this.cipher) {
+      logger.warn('GOOGLE_TOKEN_ENCRYPTION_KEY não configurada: acesso offline ao Google não será guardado', { userId });
+      return;
+    }
+
+    const saved = await this.tokenRepository.save(userId, {
+      ...this.encryptTokens(this.cipher, userId, tokens),
+      accessTokenExpiresAt: this.expiresAt(tokens),
+      scopes: tokens.scope?.split(' '),
+    });
+
+    if (!saved) {
+      logger.warn('Google não enviou refresh token e não há um guardado: acesso offline indisponível', { userId });
+      return;
+    }
+
+    logger.info(`🔑 Tokens do Google guardados para o usuário ${userId}`);
+  }
+
+  async isConnected(userId: string): Promise<boolean> {
+    return !!(await this.tokenRepository.findByUserId(userId));
+  }
+
+  /**
+   * Indica se o usuário concedeu o escopo (ex.: Calendar, pedido sob demanda)
+   */
+  async hasScope(userId: string, scope: string): Promise<boolean> {
+    const record = await this.tokenRepository.findByUserId(userId);
+    return !!record?.scopes.includes(scope);
+  }
+
+  /**
+   * Token de acesso válido para chamar APIs do Google em nome do usuário
+   */
+  async getAccessToken(userId: string): Promise<string> {
+    const record = this.cipher ? await this.tokenRepository.findByUserId(userId) : null;
+
+    if (!this.cipher || !record) {
+      throw new NotFoundError('Usuário sem acesso ao Google conectado');
+    }
+
+    const expiresAt = record.access_token_expires_at ? new Date(record.access_token_expires_at).getTime() : 0;
+
+    if (record.access_token_encrypted && expiresAt - this.config.refreshSkewSeconds * 1000 > nowUTC().getTime()) {
+      return this.cipher.decrypt(record.access_token_encrypted, tokenContext(userId, 'access_token_encrypted'));
+    }
+
+    const refreshToken = this.cipher.decrypt(record.refresh_token_encrypted, tokenContext(userId, 'refresh_token_encrypted'));
+    const tokens = await this.oauthClient.refreshAccessToken(refreshToken);
+
+    if (!tokens) {
+      await this.tokenRepository.delete(userId);
+      logger.warn(`🔒 Acesso ao Google revogado ou expirado para o usuário ${userId}; tokens removidos`);
+      throw new NotFoundError('Acesso ao Google revogado; entre novamente com o Google');
+    }
+
+    await this.tokenRepository.save(userId, {
+      ...this.encryptTokens(this.cipher, userId, tokens),
+      accessTokenExpiresAt: this.expiresAt(tokens),
+    });
+
+    logger.info(`🔄 Token de acesso do Google renovado para o usuário ${userId}`);
+    return tokens.access_token;
+  }
+
+  /**
+   * Revoga o acesso no Google e remove os tokens (logout com revogação ou exclusão da conta)
+   * Falha ao falar com o Google não impede a remoção local
+   */
+  async revoke(userId: string): Promise<void> {
+    const record = await this.tokenRepository.findByUserId(userId);
+
+    if (!record) {
+      return;
+    }
+
+    if (this.cipher) {
+      try {
+        const refreshToken = this.cipher.decrypt(record.refresh_token_encrypted, tokenContext(userId, 'refresh_token_encrypted'));
+        await this.oauthClient.revokeToken(refreshToken);
+      } catch (error) {
+        logger.error(`Erro ao revogar acesso ao Google do usuário ${userId}`, {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    await this.tokenRepository.delete(userId);
+    logger.info(`🔒 Acesso ao Google revogado para o usuário ${userId}`);
+  }
+
+  private encryptTokens(cipher: SecretCipher, userId: string, tokens: GoogleTokenResponse) {
+    return {
+      refreshTokenEncrypted: tokens.refresh_token
+        ? cipher.encrypt(tokens.refresh_token, tokenContext(userId, 'refresh_token_encrypted'))
+        : undefined,
+      accessTokenEncrypted: cipher.encrypt(tokens.access_token, tokenContext(userId, 'access_token_encrypted')),
+    };
+  }
+
+  private expiresAt(tokens: GoogleTokenResponse): Date {
+    return new Date(nowUTC().getTime() + tokens.expires_in * 1000);
+  }
+}
+
+/**
+ * Contexto (AAD) de um token cifrado: amarra o valor ao usuário e à coluna de google_oauth_tokens
+ */
+function tokenContext(userId: string, column: 'access_token_encrypted' | 'refresh_token_encrypted'): string {
+  return `google_oauth_tokens:${userId}:${column}`;
+}
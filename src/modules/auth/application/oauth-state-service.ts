@@ -0,0 +1,109 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { appConfig } from '../../../shared/config/app-config.js';
+import { UnauthorizedError } from '../../../shared/errors/base-error.js';
+import { nowUTC } from '../../../shared/utils/date-utils.js';
+
+type OAuthStateConfig = typeof appConfig.auth.oauthState;
+
+/**
+ * Par PKCE (RFC 7636): o verifier fica no servidor; o challenge vai na URL de autorização
+ */
+export interface PkcePair {
+  codeVerifier: string;
+  codeChallenge: string;
+}
+
+/**
+ * State do fluxo OAuth
+ * Responsabilidade: assinar (HMAC-SHA256) e verificar o parâmetro `state`, que carrega
+ * o identificador do login iniciado e a validade; o uso único é garantido pelo repositório
+ */
+export class OAuthStateService {
+  constructor(
+    private secret: string | undefined = appConfig.auth.accessToken.secret,
+    private config: OAuthStateConfig = appConfig.auth.oauthState
+  ) {}
+
+  get ttlSeconds(): number {
+    return this.config.ttlSeconds;
+  }
+
+  /**
+   * Gera um state novo e o identificador (nonce) que o acompanha
+   */
+  create(at: Date = nowUTC()): { state: string; nonce: string; expiresAt: Date } {
+    if (!this.secret) {
+      throw new Error('AUTH_JWT_SECRET não configurado');
+    }
+
+    const nonce = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(at.getTime() + this.config.ttlSeconds * 1000);
+    const body = Buffer.from(JSON.stringify({ n: nonce, e: Math.floor(expiresAt.getTime() / 1000) })).toString('base64url');
+
+    return { state: `${body}.${this.signature(body)}`, nonce, expiresAt };
+  }
+
+  /**
+   * Valida assinatura e validade e retorna o nonce
+   */
+  verify(state: string, at: Date = nowUTC()): string {
+    const [body, signature] = state.split('.');
+
+    if (!this.secret || !body || !signature) {
+      throw new UnauthorizedError('State do OAuth inválido');
+    }
+
+    const expected = Buffer.from(this.signature(body));
+    const received = Buffer.from(signature);
+
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      throw new UnauthorizedError('State do OAuth inválido');
+    }
+
+    let decoded: { n?: unknown; e?: unknown };
+    try {
+      decoded = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as { n?: unknown; e?: unknown };
+    } catch {
+      throw new UnauthorizedError('State do OAuth inválido');
+    }
+
+    if (typeof decoded.n !== 'string' || typeof decoded.e !== 'number') {
+      throw new UnauthorizedError('State do OAuth inválido');
+    }
+
+    if (decoded.e * 1000 <= at.getTime()) {
+      throw new UnauthorizedError('State do OAuth expirado; inicie o login novamente');
+    }
+
+    return decoded.n;
+  }
+
+  /**
+   * Confere se o callback chegou ao navegador que iniciou o login (nonce do cookie)
+   * Sem isso, o callback concluído de outra pessoa poderia ser aberto no navegador da vítima
+   */
+  assertSameBrowser(nonce: string, browserNonce: string | undefined): void {
+    const expected = Buffer.from(nonce);
+    const received = Buffer.from(browserNonce ?? '');
+
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      throw new UnauthorizedError('Login OAuth não foi iniciado neste navegador; inicie o login novamente');
+    }
+  }
+
+  /**
+   * Gera o par PKCE com método S256
+   */
+  createPkcePair(): PkcePair {
+    const codeVerifier = randomBytes(32).toString('base64url');
+    return {
+      codeVerifier,
+      codeChallenge: createHash('sha256').update(codeVerifier).digest('base64url'),
+    };
+  }
+
+  // Prefixo separa estas assinaturas das dos tokens de acesso (mesmo segredo)
+  private signature(body: string): string {
+    return createHmac('sha256', this.secret!).update(`oauth-state.${body}`).digest('base64url');
+  }
+}
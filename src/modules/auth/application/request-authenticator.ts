@@ -0,0 +1,47 @@
+import type { AccessTokenService } from './access-token-service.js';
+import type { ApiKeyUseCases } from './api-key-use-cases.js';
+import type { AuthPrincipal } from '../../../shared/types/auth.js';
+import { appConfig } from '../../../shared/config/app-config.js';
+import { UnauthorizedError } from '../../../shared/errors/base-error.js';
+
+/**
+ * Credenciais enviadas na requisição
+ */
+export interface RequestCredentials {
+  authorization?: string | undefined;
+  apiKey?: string | undefined;
+}
+
+/**
+ * Autenticação de requisições
+ * Responsabilidade: identificar o principal a partir de `Authorization: Bearer <token>`
+ * (token de acesso de usuário ou chave de API `gsk_...`) ou do header `X-API-Key`
+ */
+export class RequestAuthenticator {
+  constructor(
+    private accessTokens: AccessTokenService,
+    private apiKeys: ApiKeyUseCases
+  ) {}
+
+  async authenticate(credentials: RequestCredentials): Promise<AuthPrincipal> {
+    const bearer = credentials.authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    const credential = bearer ?? credentials.apiKey;
+
+    if (!credential) {
+      throw new UnauthorizedError('Credenciais não fornecidas');
+    }
+
+    if (credential.startsWith(appConfig.auth.apiKeyPrefix)) {
+      return this.apiKeys.authenticate(credential);
+    }
+
+    const claims = this.accessTokens.verify(credential);
+
+    return {
+      type: 'user',
+      id: claims.sub,
+      name: claims.role,
+      scopes: appConfig.auth.roles[claims.role] ?? [],
+    };
+  }
+}
@@ -0,0 +1,168 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import type { AccessTokenService } from './access-token-service.js';
+import type { GoogleAuthService } from './google-auth-service.js';
+import type { IAuthSessionRepository } from '../domain/repositories/auth-session-repository.js';
+import type { UserService } from '../../../shared/services/user-service.js';
+import type { SessionTokens } from '../../../shared/types/auth.js';
+import type { User } from '../../../shared/types/user.js';
+import { appConfig } from '../../../shared/config/app-config.js';
+import { NotFoundError, UnauthorizedError } from '../../../shared/errors/base-error.js';
+import { logger } from '../../../shared/utils/logger.js';
+import { nowUTC } from '../../../shared/utils/date-utils.js';
+
+type SessionConfig = typeof appConfig.auth.session;
+
+/**
+ * Casos de uso de sessão
+ * Responsabilidade: emitir tokens de acesso e refresh tokens rotativos após o login
+ *
+ * O callback do Google gera um código de troca de uso único (vai na URL de retorno);
+ * o frontend troca o código pelos tokens. Cada refresh invalida o token usado e emite
+ * outro da mesma família; reapresentar um token já rotacionado revoga a família inteira.
+ */
+export class SessionUseCases {
+  constructor(
+    private sessionRepository: IAuthSessionRepository,
+    private accessTokens: AccessTokenService,
+    private userService: UserService,
+    private googleAuthService: GoogleAuthService,
+    private config: SessionConfig = appConfig.auth.session
+  ) {}
+
+  /**
+   * Gera o código de troca entregue ao frontend após o login
+   */
+  async createExchangeCode(userId: string): Promise<string> {
+    if (!this.accessTokens.enabled) {
+      throw new Error('AUTH_JWT_SECRET não configurado: sessões não podem ser emitidas');
+    }
+
+    const code = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(nowUTC().getTime() + this.config.exchangeCodeTtlSeconds * 1000);
+
+    await this.sessionRepository.createExchangeCode(hashToken(code), userId, expiresAt);
+    return code;
+  }
+
+  /**
+   * Troca o código de uso único pelos tokens de uma nova sessão
+   */
+  async exchangeCode(code: string): Promise<SessionTokens> {
+    const userId = await this.sessionRepository.consumeExchangeCode(hashToken(code), nowUTC());
+
+    if (!userId) {
+      throw new UnauthorizedError('Código de troca inválido, expirado ou já utilizado');
+    }
+
+    const user = await this.findUser(userId);
+    const tokens = await this.issueTokens(user, randomUUID());
+
+    logger.info(`🔐 Sessão iniciada para o usuário ${userId}`);
+    return tokens;
+  }
+
+  /**
+   * Rotaciona o refresh token e emite um novo token de acesso
+   */
+  async refresh(refreshToken: string): Promise<SessionTokens> {
+    const now = nowUTC();
+    const tokenHash = hashToken(refreshToken);
+    const session = await this.sessionRepository.rotate(tokenHash, now);
+
+    if (!session) {
+      const previous = await this.sessionRepository.findByHash(tokenHash);
+
+      if (previous?.rotated_at && !previous.revoked_at) {
+        await this.sessionRepository.revokeFamily(previous.family_id, now);
+        logger.warn('🚨 Reuso de refresh token detectado; sessão revogada', {
+          userId: previous.user_id,
+          familyId: previous.family_id,
+        });
+      }
+
+      throw new UnauthorizedError('Refresh token inválido, expirado ou revogado');
+    }
+
+    const user = await this.findUser(session.user_id);
+    return this.issueTokens(user, session.family_id);
+  }
+
+  /**
+   * Encerra a sessão do refresh token (idempotente: token desconhecido não é erro)
+   * Com `revokeGoogle`, também revoga o acesso offline ao Google (integrações param)
+   */
+  async logout(refreshToken: string, revokeGoogle: boolean = false): Promise<void> {
+    const session = await this.sessionRepository.findByHash(hashToken(refreshToken));
+
+    if (!session) {
+      return;
+    }
+
+    await this.sessionRepository.revokeFamily(session.family_id, nowUTC());
+
+    if (revokeGoogle) {
+      await this.googleAuthService.revoke(session.user_id);
+    }
+
+    logger.info(`👋 Sessão encerrada para o usuário ${session.user_id}`, { revokeGoogle });
+  }
+
+  /**
+   * Exclui a conta: revoga o acesso ao Google e remove o usuário
+   * (sessões e tokens são removidos em cascata)
+   */
+  async deleteAccount(userId: string): Promise<void> {
+    await this.getCurrentUser(userId);
+    await this.googleAuthService.revoke(userId);
+    await this.userService.deleteUser(userId);
+
+    logger.info(`🗑️ Conta do usuário ${userId} excluída`);
+  }
+
+  async getCurrentUser(userId: string): Promise<User> {
+    const user = await this.userService.findById(userId);
+
+    if (!user) {
+      throw new NotFoundError('Usuário não encontrado');
+    }
+
+    return user;
+  }
+
+  private async findUser(userId: string): Promise<User> {
+    const user = await this.userService.findById(userId);
+
+    if (!user) {
+      throw new UnauthorizedError('Usuário da sessão não existe mais');
+    }
+
+    return user;
+  }
+
+  private async issueTokens(user: User, familyId: string): Promise<SessionTokens> {
+    const refreshToken = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(nowUTC().getTime() + this.config.refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+
+    await this.sessionRepository.create({
+      userId: user.id,
+      familyId,
+      tokenHash: hashToken(refreshToken),
+      expiresAt,
+    });
+
+    return {
+      accessToken: this.accessTokens.sign(user.id, user.role ?? 'user'),
+      tokenType: 'Bearer',
+      expiresIn: this.accessTokens.ttlSeconds,
+      refreshToken,
+      refreshTokenExpiresAt: expiresAt.toISOString(),
+    };
+  }
+}
+
+/**
+ * Códigos e refresh tokens são aleatórios (256 bits): só o SHA-256 é guardado
+ */
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
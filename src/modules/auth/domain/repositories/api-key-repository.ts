@@ -0,0 +1,26 @@
+import type { ApiKeyRecord, AuthScope } from '../../../../shared/types/auth.js';
+
+/**
+ * Dados de uma nova chave de API
+ */
+export interface NewApiKey {
+  name: string;
+  keyPrefix: string;
+  keyHash: string;
+  scopes: AuthScope[];
+}
+
+/**
+ * Repositório de chaves de API
+ * Responsabilidade: guardar os hashes das chaves usadas por sistemas (ex.: cron)
+ */
+export interface IApiKeyRepository {
+  /**
+   * Chave ativa (não revogada) com o hash informado
+   */
+  findActiveByHash(keyHash: string): Promise<ApiKeyRecord | null>;
+  list(): Promise<ApiKeyRecord[]>;
+  create(apiKey: NewApiKey): Promise<ApiKeyRecord>;
+  revoke(id: string): Promise<boolean>;
+  touch(id: string): Promise<void>;
+}
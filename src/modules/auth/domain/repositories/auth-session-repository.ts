@@ -0,0 +1,38 @@
+import type { AuthSessionRecord } from '../../../../shared/types/auth.js';
+
+/**
+ * Dados de um novo refresh token
+ */
+export interface NewAuthSession {
+  userId: string;
+  familyId: string;
+  tokenHash: string;
+  expiresAt: Date;
+}
+
+/**
+ * Repositório de sessões (refresh tokens) e códigos de troca pós-login
+ */
+export interface IAuthSessionRepository {
+  create(session: NewAuthSession): Promise<AuthSessionRecord>;
+
+  /**
+   * Marca como rotacionado o token ativo (não rotacionado, não revogado e não expirado);
+   * retorna null se o token não estava ativo. A condição garante uso único do token.
+   */
+  rotate(tokenHash: string, at: Date): Promise<AuthSessionRecord | null>;
+
+  findByHash(tokenHash: string): Promise<AuthSessionRecord | null>;
+
+  /**
+   * Revoga todos os tokens da família (logout ou reuso detectado)
+   */
+  revokeFamily(familyId: string, at: Date): Promise<void>;
+
+  createExchangeCode(codeHash: string, userId: string, expiresAt: Date): Promise<void>;
+
+  /**
+   * Consome o código (uso único) e retorna o usuário; null se inválido, usado ou expirado
+   */
+  consumeExchangeCode(codeHash: string, at: Date): Promise<string | null>;
+}
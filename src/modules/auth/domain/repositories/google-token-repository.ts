@@ -0,0 +1,25 @@
+import type { GoogleTokenRecord } from '../../../../shared/types/auth.js';
+
+/**
+ * Tokens cifrados a gravar; sem `refreshTokenEncrypted` o refresh token atual é mantido
+ */
+export interface GoogleTokenUpdate {
+  refreshTokenEncrypted?: string | undefined;
+  accessTokenEncrypted: string;
+  accessTokenExpiresAt: Date;
+  scopes?: string[] | undefined;
+}
+
+/**
+ * Repositório dos tokens do Google por usuário (valores já cifrados)
+ */
+export interface IGoogleTokenRepository {
+  findByUserId(userId: string): Promise<GoogleTokenRecord | null>;
+
+  /**
+   * Grava os tokens; retorna false se não há refresh token novo nem registro existente
+   */
+  save(userId: string, update: GoogleTokenUpdate): Promise<boolean>;
+
+  delete(userId: string): Promise<void>;
+}
@@ -0,0 +1,19 @@
+/**
+ * Login iniciado e ainda não concluído
+ */
+export interface PendingOAuthLogin {
+  codeVerifier: string;
+  returnTo: string | null;
+}
+
+/**
+ * Repositório dos logins OAuth iniciados (verifier PKCE e destino pós-login)
+ */
+export interface IOAuthStateRepository {
+  create(nonce: string, login: PendingOAuthLogin, expiresAt: Date): Promise<void>;
+
+  /**
+   * Consome o login (uso único); null se desconhecido, já usado ou expirado
+   */
+  consume(nonce: string, at: Date): Promise<PendingOAuthLogin | null>;
+}
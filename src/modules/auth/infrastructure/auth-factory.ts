@@ -0,0 +1,64 @@
+import { AccessTokenService } from '../application/access-token-service.js';
+import { AuthUseCases } from '../application/auth-use-cases.js';
+import { OAuthStateService } from '../application/oauth-state-service.js';
+import { GoogleAuthService } from '../application/google-auth-service.js';
+import { ApiKeyUseCases } from '../application/api-key-use-cases.js';
+import { RequestAuthenticator } from '../application/request-authenticator.js';
+import { SessionUseCases } from '../application/session-use-cases.js';
+import { SupabaseApiKeyRepository } from './supabase-api-key-repository.js';
+import { SupabaseAuthSessionRepository } from './supabase-auth-session-repository.js';
+import { SupabaseOAuthStateRepository } from './supabase-oauth-state-repository.js';
+import { SupabaseGoogleTokenRepository } from './supabase-google-token-repository.js';
+import { GoogleOAuthClient } from './google-oauth-client.js';
+import { appConfig } from '../../../shared/config/app-config.js';
+import { SecretCipher } from '../../../shared/utils/secret-cipher.js';
+import type { UserService } from '../../../shared/services/user-service.js';
+
+/**
+ * Cria os casos de uso de chaves de API com o repositório do Supabase
+ */
+export function createApiKeyUseCases(): ApiKeyUseCases {
+  return new ApiKeyUseCases(new SupabaseApiKeyRepository());
+}
+
+/**
+ * Cria o autenticador de requisições (tokens de acesso e chaves de API)
+ */
+export function createRequestAuthenticator(): RequestAuthenticator {
+  return new RequestAuthenticator(new AccessTokenService(), createApiKeyUseCases());
+}
+
+/**
+ * Cria os casos de uso de sessão (código de troca, refresh e logout)
+ */
+export function createSessionUseCases(userService: UserService): SessionUseCases {
+  return new SessionUseCases(new SupabaseAuthSessionRepository(), new AccessTokenService(), userService, createGoogleAuthService());
+}
+
+/**
+ * Cria os casos de uso do login Google (state assinado e PKCE)
+ */
+export function createAuthUseCases(userService: UserService, sessionUseCases: SessionUseCases): AuthUseCases {
+  return new AuthUseCases(
+    userService,
+    sessionUseCases,
+    new OAuthStateService(),
+    new SupabaseOAuthStateRepository(),
+    new GoogleOAuthClient(),
+    createGoogleAuthService()
+  );
+}
+
+/**
+ * Cria o serviço de tokens do Google (acesso offline em nome do usuário)
+ * Outros módulos o usam para chamar APIs do Google
+ */
+export function createGoogleAuthService(): GoogleAuthService {
+  const { encryptionKey } = appConfig.auth.google.tokens;
+
+  return new GoogleAuthService(
+    new SupabaseGoogleTokenRepository(),
+    new GoogleOAuthClient(),
+    encryptionKey ? new SecretCipher(encryptionKey) : null
+  );
+}
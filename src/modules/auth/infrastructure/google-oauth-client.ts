@@ -0,0 +1,100 @@
+import { env } from '../../../shared/config/environment.js';
+import { logger } from '../../../shared/utils/logger.js';
+import type { GoogleTokenResponse, GoogleUserInfo, IGoogleOAuthClient } from '../../../shared/types/google.js';
+
+const TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const REVOKE_URL = 'https://oauth2.googleapis.com/revoke';
+const USERINFO_URL = 'https://www.googleapis.com/oauth2/v2/userinfo';
+
+/**
+ * Cliente HTTP dos endpoints OAuth do Google
+ */
+export class GoogleOAuthClient implements IGoogleOAuthClient {
+  /**
+   * Troca código de autorização por tokens
+   */
+  async exchangeCode(code: string, codeVerifier: string): Promise<GoogleTokenResponse> {
+    const response = await this.postForm(TOKEN_URL, {
+      client_id: env.GOOGLE_CLIENT_ID,
+      client_secret: env.GOOGLE_CLIENT_SECRET,
+      code,
+      code_verifier: codeVerifier,
+      grant_type: 'authorization_code',
+      redirect_uri: env.GOOGLE_REDIRECT_URI,
+    });
+
+    const tokens = await response.json();
+
+    if (!response.ok) {
+      throw new Error(`Erro ao trocar tokens: ${tokens.error_description}`);
+    }
+
+    return tokens as GoogleTokenResponse;
+  }
+
+  async refreshAccessToken(refreshToken: string): Promise<GoogleTokenResponse | null> {
+    const response = await this.postForm(TOKEN_URL, {
+      client_id: env.GOOGLE_CLIENT_ID,
+      client_secret: env.GOOGLE_CLIENT_SECRET,
+      refresh_token: refreshToken,
+      grant_type: 'refresh_token',
+    });
+
+    const tokens = await response.json();
+
+    if (tokens.error === 'invalid_grant') {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(`Erro ao renovar token do Google: ${tokens.error_description ?? tokens.error}`);
+    }
+
+    return tokens as GoogleTokenResponse;
+  }
+
+  /**
+   * Revoga o token (o refresh token revoga também os tokens de acesso emitidos a partir dele)
+   * Token já inválido não é erro
+   */
+  async revokeToken(token: string): Promise<void> {
+    const response = await this.postForm(REVOKE_URL, { token });
+
+    if (!response.ok && response.status !== 400) {
+      throw new Error(`Erro ao revogar token do Google: HTTP ${response.status}`);
+    }
+
+    if (response.status === 400) {
+      logger.warn('Token do Google já estava inválido ao revogar');
+    }
+  }
+
+  /**
+   * Busca dados do usuário no Google
+   */
+  async fetchUserInfo(accessToken: string): Promise<GoogleUserInfo> {
+    const response = await fetch(USERINFO_URL, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+    });
+
+    const userData = await response.json();
+
+    if (!response.ok) {
+      throw new Error('Erro ao buscar dados do usuário');
+    }
+
+    return userData as GoogleUserInfo;
+  }
+
+  private postForm(url: string, params: Record<string, string>): Promise<Response> {
+    return fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams(params),
+    });
+  }
+}
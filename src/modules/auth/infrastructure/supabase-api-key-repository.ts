@@ -0,0 +1,97 @@
+import { createClient } from '@supabase/supabase-js';
+import { env } from '../../../shared/config/environment.js';
+import { logger } from '../../../shared/utils/logger.js';
+import { nowUTC } from '../../../shared/utils/date-utils.js';
+import type { ApiKeyRecord } from '../../../shared/types/auth.js';
+import type { IApiKeyRepository, NewApiKey } from '../domain/repositories/api-key-repository.js';
+
+/**
+ * Repositório de chaves de API no Supabase (tabela `api_keys`)
+ */
+export class SupabaseApiKeyRepository implements IApiKeyRepository {
+  private supabase;
+
+  constructor() {
+    this.supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+  }
+
+  async findActiveByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    const { data, error } = await this.supabase
+      .from('api_keys')
+      .select('*')
+      .eq('key_hash', keyHash)
+      .is('revoked_at', null)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Erro ao buscar chave de API', { error });
+      throw new Error(`Erro ao buscar chave de API: ${error.message}`);
+    }
+
+    return (data as ApiKeyRecord | null) ?? null;
+  }
+
+  async list(): Promise<ApiKeyRecord[]> {
+    const { data, error } = await this.supabase
+      .from('api_keys')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.error('Erro ao listar chaves de API', { error });
+      throw new Error(`Erro ao listar chaves de API: ${error.message}`);
+    }
+
+    return (data || []) as ApiKeyRecord[];
+  }
+
+  async create(apiKey: NewApiKey): Promise<ApiKeyRecord> {
+    const { data, error } = await this.supabase
+      .from('api_keys')
+      .insert({
+        name: apiKey.name,
+        key_prefix: apiKey.keyPrefix,
+        key_hash: apiKey.keyHash,
+        scopes: apiKey.scopes,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      logger.error(`Erro ao criar chave de API "${apiKey.name}"`, { error });
+      throw new Error(`Erro ao criar chave de API: ${error.message}`);
+    }
+
+    return data as ApiKeyRecord;
+  }
+
+  async revoke(id: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('api_keys')
+      .update({ revoked_at: nowUTC().toISOString() })
+      .eq('id', id)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) {
+      logger.error(`Erro ao revogar chave de API ${id}`, { error });
+      throw new Error(`Erro ao revogar chave de API: ${error.message}`);
+    }
+
+    return (data?.length ?? 0) > 0;
+  }
+
+  /**
+   * Registra o último uso da chave
+   */
+  async touch(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('api_keys')
+      .update({ last_used_at: nowUTC().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      logger.warn(`Erro ao registrar uso da chave de API ${id}`, { error });
+    }
+  }
+}
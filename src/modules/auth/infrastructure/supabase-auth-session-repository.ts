@@ -0,0 +1,110 @@
+import { createClient } from '@supabase/supabase-js';
+import { env } from '../../../shared/config/environment.js';
+import { logger } from '../../../shared/utils/logger.js';
+import type { AuthSessionRecord } from '../../../shared/types/auth.js';
+import type { IAuthSessionRepository, NewAuthSession } from '../domain/repositories/auth-session-repository.js';
+
+/**
+ * Repositório de sessões no Supabase (tabelas `auth_sessions` e `auth_exchange_codes`)
+ */
+export class SupabaseAuthSessionRepository implements IAuthSessionRepository {
+  private supabase;
+
+  constructor() {
+    this.supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+  }
+
+  async create(session: NewAuthSession): Promise<AuthSessionRecord> {
+    const { data, error } = await this.supabase
+      .from('auth_sessions')
+      .insert({
+        user_id: session.userId,
+        family_id: session.familyId,
+        token_hash: session.tokenHash,
+        expires_at: session.expiresAt.toISOString(),
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      logger.error(`Erro ao criar sessão do usuário ${session.userId}`, { error });
+      throw new Error(`Erro ao criar sessão: ${error.message}`);
+    }
+
+    return data as AuthSessionRecord;
+  }
+
+  async rotate(tokenHash: string, at: Date): Promise<AuthSessionRecord | null> {
+    const { data, error } = await this.supabase
+      .from('auth_sessions')
+      .update({ rotated_at: at.toISOString() })
+      .eq('token_hash', tokenHash)
+      .is('rotated_at', null)
+      .is('revoked_at', null)
+      .gt('expires_at', at.toISOString())
+      .select('*');
+
+    if (error) {
+      logger.error('Erro ao rotacionar refresh token', { error });
+      throw new Error(`Erro ao rotacionar refresh token: ${error.message}`);
+    }
+
+    return (data?.[0] as AuthSessionRecord | undefined) ?? null;
+  }
+
+  async findByHash(tokenHash: string): Promise<AuthSessionRecord | null> {
+    const { data, error } = await this.supabase
+      .from('auth_sessions')
+      .select('*')
+      .eq('token_hash', tokenHash)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Erro ao buscar refresh token', { error });
+      throw new Error(`Erro ao buscar refresh token: ${error.message}`);
+    }
+
+    return (data as AuthSessionRecord | null) ?? null;
+  }
+
+  async revokeFamily(familyId: string, at: Date): Promise<void> {
+    const { error } = await this.supabase
+      .from('auth_sessions')
+      .update({ revoked_at: at.toISOString() })
+      .eq('family_id', familyId)
+      .is('revoked_at', null);
+
+    if (error) {
+      logger.error(`Erro ao revogar sessão ${familyId}`, { error });
+      throw new Error(`Erro ao revogar sessão: ${error.message}`);
+    }
+  }
+
+  async createExchangeCode(codeHash: string, userId: string, expiresAt: Date): Promise<void> {
+    const { error } = await this.supabase
+      .from('auth_exchange_codes')
+      .insert({ code_hash: codeHash, user_id: userId, expires_at: expiresAt.toISOString() });
+
+    if (error) {
+      logger.error(`Erro ao criar código de troca do usuário ${userId}`, { error });
+      throw new Error(`Erro ao criar código de troca: ${error.message}`);
+    }
+  }
+
+  async consumeExchangeCode(codeHash: string, at: Date): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('auth_exchange_codes')
+      .update({ used_at: at.toISOString() })
+      .eq('code_hash', codeHash)
+      .is('used_at', null)
+      .gt('expires_at', at.toISOString())
+      .select('user_id');
+
+    if (error) {
+      logger.error('Erro ao consumir código de troca', { error });
+      throw new Error(`Erro ao consumir código de troca: ${error.message}`);
+    }
+
+    return (data?.[0]?.user_id as string | undefined) ?? null;
+  }
+}
@@ -0,0 +1,80 @@
+import { createClient } from '@supabase/supabase-js';
+import { env } from '../../../shared/config/environment.js';
+import { logger } from '../../../shared/utils/logger.js';
+import { nowUTC } from '../../../shared/utils/date-utils.js';
+import type { GoogleTokenRecord } from '../../../shared/types/auth.js';
+import type { GoogleTokenUpdate, IGoogleTokenRepository } from '../domain/repositories/google-token-repository.js';
+
+/**
+ * Repositório de tokens do Google no Supabase (tabela `google_oauth_tokens`)
+ */
+export class SupabaseGoogleTokenRepository implements IGoogleTokenRepository {
+  private supabase;
+
+  constructor() {
+    this.supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+  }
+
+  async findByUserId(userId: string): Promise<GoogleTokenRecord | null> {
+    const { data, error } = await this.supabase
+      .from('google_oauth_tokens')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Erro ao buscar tokens do Google do usuário ${userId}`, { error });
+      throw new Error(`Erro ao buscar tokens do Google: ${error.message}`);
+    }
+
+    return (data as GoogleTokenRecord | null) ?? null;
+  }
+
+  async save(userId: string, update: GoogleTokenUpdate): Promise<boolean> {
+    const row = {
+      access_token_encrypted: update.accessTokenEncrypted,
+      access_token_expires_at: update.accessTokenExpiresAt.toISOString(),
+      ...(update.scopes ? { scopes: update.scopes } : {}),
+      updated_at: nowUTC().toISOString(),
+    };
+
+    // Refresh token novo: cria ou substitui o registro
+    if (update.refreshTokenEncrypted) {
+      const { error } = await this.supabase
+        .from('google_oauth_tokens')
+        .upsert({ user_id: userId, refresh_token_encrypted: update.refreshTokenEncrypted, ...row }, { onConflict: 'user_id' });
+
+      if (error) {
+        logger.error(`Erro ao gravar tokens do Google do usuário ${userId}`, { error });
+        throw new Error(`Erro ao gravar tokens do Google: ${error.message}`);
+      }
+
+      return true;
+    }
+
+    const { data, error } = await this.supabase
+      .from('google_oauth_tokens')
+      .update(row)
+      .eq('user_id', userId)
+      .select('user_id');
+
+    if (error) {
+      logger.error(`Erro ao atualizar token de acesso do Google do usuário ${userId}`, { error });
+      throw new Error(`Erro ao atualizar token de acesso do Google: ${error.message}`);
+    }
+
+    return (data?.length ?? 0) > 0;
+  }
+
+  async delete(userId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('google_oauth_tokens')
+      .delete()
+      .eq('user_id', userId);
+
+    if (error) {
+      logger.error(`Erro ao remover tokens do Google do usuário ${userId}`, { error });
+      throw new Error(`Erro ao remover tokens do Google: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { createClient } from '@supabase/supabase-js';
+import { env } from '../../../shared/config/environment.js';
+import { logger } from '../../../shared/utils/logger.js';
+import type { IOAuthStateRepository, PendingOAuthLogin } from '../domain/repositories/oauth-state-repository.js';
+
+/**
+ * Repositório de logins OAuth iniciados no Supabase (tabela `oauth_states`)
+ */
+export class SupabaseOAuthStateRepository implements IOAuthStateRepository {
+  private supabase;
+
+  constructor() {
+    this.supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+  }
+
+  async create(nonce: string, login: PendingOAuthLogin, expiresAt: Date): Promise<void> {
+    const { error } = await this.supabase
+      .from('oauth_states')
+      .insert({
+        nonce,
+        code_verifier: login.codeVerifier,
+        return_to: login.returnTo,
+        expires_at: expiresAt.toISOString(),
+      });
+
+    if (error) {
+      logger.error('Erro ao registrar state do OAuth', { error });
+      throw new Error(`Erro ao registrar state do OAuth: ${error.message}`);
+    }
+  }
+
+  async consume(nonce: string, at: Date): Promise<PendingOAuthLogin | null> {
+    const { data, error } = await this.supabase
+      .from('oauth_states')
+      .update({ used_at: at.toISOString() })
+      .eq('nonce', nonce)
+      .is('used_at', null)
+      .gt('expires_at', at.toISOString())
+      .select('code_verifier, return_to');
+
+    if (error) {
+      logger.error('Erro ao consumir state do OAuth', { error });
+      throw new Error(`Erro ao consumir state do OAuth: ${error.message}`);
+    }
+
+    const row = data?.[0];
+    return row ? { codeVerifier: row.code_verifier as string, returnTo: (row.return_to as string | null) ?? null } : null;
+  }
+}
@@ -1,7 +1,14 @@
 import type { FastifyRequest, FastifyReply } from 'fastify';
-import { AuthUseCases } from '../application/auth-use-cases.js';
+import type { AuthUseCases } from '../application/auth-use-cases.js';
+import type { ApiKeyUseCases } from '../application/api-key-use-cases.js';
+import type { SessionUseCases } from '../application/session-use-cases.js';
+import { createApiKeyUseCases, createAuthUseCases, createSessionUseCases } from '../infrastructure/auth-factory.js';
 import { UserService } from '../../../shared/services/user-service.js';
+import { BaseError } from '../../../shared/errors/base-error.js';
+import type { ApiKeyRecord, AuthScope } from '../../../shared/types/auth.js';
 import { logger } from '../../../shared/utils/logger.js';
+import { appConfig } from '../../../shared/config/app-config.js';
+import { env } from '../../../shared/config/environment.js';
 
 /**
  * Controller para autenticação
@@ -9,10 +16,14 @@ import { logger } from '../../../shared/utils/logger.js';
  */
 export class AuthController {
   private authUseCases: AuthUseCases;
+  private apiKeyUseCases: ApiKeyUseCases;
+  private sessionUseCases: SessionUseCases;
 
   constructor() {
     const userService = new UserService();
-    this.authUseCases = new AuthUseCases(userService);
+    this.sessionUseCases = createSessionUseCases(userService);
+    this.authUseCases = createAuthUseCases(userService, this.sessionUseCases);
+    this.apiKeyUseCases = createApiKeyUseCases();
   }
 
   /**
@@ -22,7 +33,15 @@ export class AuthController {
     try {
       logger.info('Iniciando autenticação Google');
 
-      const authUrl = this.authUseCases.generateGoogleAuthUrl();
+      const { returnTo, scopes, redirect } = request.query as { returnTo?: string; scopes?: string; redirect?: boolean };
+      const { authUrl, nonce } = await this.authUseCases.generateGoogleAuthUrl(returnTo, scopes ? scopes.split(',') : []);
+
+      // Nonce do login no navegador: o callback só é aceito com este cookie
+      reply.header('set-cookie', oauthNonceCookie(nonce, appConfig.auth.oauthState.ttlSeconds));
+
+      if (redirect) {
+        return reply.redirect(authUrl);
+      }
 
       return reply.status(200).send({
         success: true,
@@ -33,6 +52,10 @@ export class AuthController {
       });
 
     } catch (error) {
+      if (error instanceof BaseError && error.isOperational) {
+        return this.sendAuthError(reply, error, 'Erro ao iniciar autenticação Google');
+      }
+
       logger.error('Erro ao iniciar autenticação Google', { error });
       
       return reply.status(500).send({
@@ -47,7 +70,27 @@ export class AuthController {
    */
   async processGoogleCallback(request: FastifyRequest, reply: FastifyReply) {
     try {
-      const { code } = request.query as { code?: string };
+      const { code, state, error } = request.query as { code?: string; state?: string; error?: string };
+
+      // O nonce é de uso único: o cookie é descartado qualquer que seja o resultado
+      reply.header('set-cookie', oauthNonceCookie('', 0));
+
+      if (!state) {
+        return reply.status(400).send({
+          success: false,
+          error: 'State do OAuth não fornecido'
+        });
+      }
+
+      // Autorização negada ou cancelada no Google: volta ao frontend com o código do erro
+      if (error) {
+        const redirectUrl = await this.authUseCases.processGoogleCallbackError(
+          error,
+          state,
+          readCookie(request, appConfig.auth.oauthState.cookieName)
+        );
+        return reply.redirect(redirectUrl);
+      }
 
       if (!code) {
         return reply.status(400).send({
@@ -56,7 +99,7 @@ export class AuthController {
         });
       }
 
-      const result = await this.authUseCases.processGoogleCallback(code);
+      const result = await this.authUseCases.processGoogleCallback(code, state, readCookie(request, appConfig.auth.oauthState.cookieName));
 
       if (!result.success) {
         return reply.status(500).send({
@@ -68,6 +111,11 @@ export class AuthController {
       return reply.redirect(result.redirectUrl!);
 
     } catch (error) {
+      if (error instanceof BaseError && error.isOperational) {
+        logger.warn('Callback OAuth rejeitado', { reason: error.message });
+        return this.sendAuthError(reply, error, 'Erro no callback OAuth');
+      }
+
       logger.error('Erro no callback OAuth', { error });
       
       return reply.status(500).send({
@@ -77,4 +125,205 @@ export class AuthController {
       });
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Troca o código de uso único recebido no callback pelos tokens da sessão
+   */
+  async exchangeCode(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { code } = request.body as { code: string };
+
+      const tokens = await this.sessionUseCases.exchangeCode(code);
+
+      return reply.status(200).send({
+        success: true,
+        data: tokens
+      });
+
+    } catch (error) {
+      return this.sendAuthError(reply, error, 'Erro ao trocar código de autenticação');
+    }
+  }
+
+  /**
+   * Renova o token de acesso (o refresh token usado é invalidado)
+   */
+  async refreshSession(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { refreshToken } = request.body as { refreshToken: string };
+
+      const tokens = await this.sessionUseCases.refresh(refreshToken);
+
+      return reply.status(200).send({
+        success: true,
+        data: tokens
+      });
+
+    } catch (error) {
+      return this.sendAuthError(reply, error, 'Erro ao renovar sessão');
+    }
+  }
+
+  /**
+   * Encerra a sessão do refresh token
+   */
+  async logout(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { refreshToken, revokeGoogle } = request.body as { refreshToken: string; revokeGoogle?: boolean };
+
+      await this.sessionUseCases.logout(refreshToken, revokeGoogle);
+
+      return reply.status(200).send({
+        success: true,
+        message: 'Sessão encerrada'
+      });
+
+    } catch (error) {
+      return this.sendAuthError(reply, error, 'Erro ao encerrar sessão');
+    }
+  }
+
+  /**
+   * Dados do usuário autenticado
+   */
+  async getCurrentUser(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const user = await this.sessionUseCases.getCurrentUser(request.principal!.id);
+
+      return reply.status(200).send({
+        success: true,
+        data: user
+      });
+
+    } catch (error) {
+      return this.sendAuthError(reply, error, 'Erro ao buscar usuário autenticado');
+    }
+  }
+
+  /**
+   * Exclui a conta do usuário autenticado
+   */
+  async deleteAccount(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      await this.sessionUseCases.deleteAccount(request.principal!.id);
+
+      return reply.status(200).send({
+        success: true,
+        message: 'Conta excluída'
+      });
+
+    } catch (error) {
+      return this.sendAuthError(reply, error, 'Erro ao excluir conta');
+    }
+  }
+
+  /**
+   * Lista as chaves de API (sem o hash)
+   */
+  async listApiKeys(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const apiKeys = await this.apiKeyUseCases.list();
+
+      return reply.status(200).send({
+        success: true,
+        data: apiKeys.map(toApiKeyResponse)
+      });
+
+    } catch (error) {
+      return this.sendAuthError(reply, error, 'Erro ao listar chaves de API');
+    }
+  }
+
+  /**
+   * Cria uma chave de API; o valor só é exibido nesta resposta
+   */
+  async createApiKey(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { name, scopes } = request.body as { name: string; scopes: AuthScope[] };
+
+      const { apiKey, key } = await this.apiKeyUseCases.create(name, scopes);
+
+      return reply.status(201).send({
+        success: true,
+        message: 'Chave de API criada; guarde o valor, ele não será exibido novamente',
+        data: { ...toApiKeyResponse(apiKey), key }
+      });
+
+    } catch (error) {
+      return this.sendAuthError(reply, error, 'Erro ao criar chave de API');
+    }
+  }
+
+  /**
+   * Revoga uma chave de API
+   */
+  async revokeApiKey(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
+
+      await this.apiKeyUseCases.revoke(id);
+
+      return reply.status(200).send({
+        success: true,
+        message: 'Chave de API revogada'
+      });
+
+    } catch (error) {
+      return this.sendAuthError(reply, error, 'Erro ao revogar chave de API');
+    }
+  }
+
+  private sendAuthError(reply: FastifyReply, error: unknown, logMessage: string) {
+    if (error instanceof BaseError && error.isOperational) {
+      return reply.status(error.statusCode).send({
+        success: false,
+        error: error.message,
+        ...(error.context ? { details: error.context } : {})
+      });
+    }
+
+    logger.error(logMessage, {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return reply.status(500).send({
+      success: false,
+      error: 'Erro interno do servidor'
+    });
+  }
+}
+
+function toApiKeyResponse({ key_hash: _keyHash, ...apiKey }: ApiKeyRecord) {
+  return apiKey;
+}
+
+/**
+ * Cookie com o nonce do login OAuth (HttpOnly, SameSite=Lax: volta no redirecionamento do Google)
+ */
+function oauthNonceCookie(value: string, maxAgeSeconds: number): string {
+  const { cookieName, cookiePath } = appConfig.auth.oauthState;
+  const attributes = [
+    `${cookieName}=${value}`,
+    `Path=${cookiePath}`,
+    `Max-Age=${maxAgeSeconds}`,
+    'HttpOnly',
+    'SameSite=Lax',
+  ];
+
+  if (env.NODE_ENV !== 'development') {
+    attributes.push('Secure');
+  }
+
+  return attributes.join('; ');
+}
+
+function readCookie(request: FastifyRequest, name: string): string | undefined {
+  for (const entry of (request.headers.cookie ?? '').split(';')) {
+    const separator = entry.indexOf('=');
+    if (separator !== -1 && entry.slice(0, separator).trim() === name) {
+      return entry.slice(separator + 1).trim();
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,110 @@
+import type { FastifyReply, FastifyRequest, preHandlerAsyncHookHandler } from 'fastify';
+import type { RequestAuthenticator } from '../application/request-authenticator.js';
+import type { AuthPrincipal, AuthScope } from '../../../shared/types/auth.js';
+import { BaseError, ForbiddenError } from '../../../shared/errors/base-error.js';
+import { logger } from '../../../shared/utils/logger.js';
+
+/**
+ * Guard de autenticação para rotas Fastify
+ * Responsabilidade: autenticar a requisição (preHandler), exigir escopos e expor o
+ * principal em `request.principal`
+ */
+export class AuthGuard {
+  constructor(private authenticator: RequestAuthenticator) {}
+
+  /**
+   * Exige um principal com todos os escopos informados
+   */
+  requireScopes(...scopes: AuthScope[]): preHandlerAsyncHookHandler {
+    return async (request, reply) => {
+      await this.guard(request, reply, (principal) => {
+        if (!hasScopes(principal, scopes)) {
+          throw new ForbiddenError('Escopo insuficiente', { required: scopes });
+        }
+      });
+    };
+  }
+
+  /**
+   * Exige um usuário autenticado (token de acesso; chaves de API não servem)
+   */
+  requireUser(): preHandlerAsyncHookHandler {
+    return async (request, reply) => {
+      await this.guard(request, reply, (principal) => {
+        if (principal.type !== 'user') {
+          throw new ForbiddenError('Endpoint disponível apenas para usuários');
+        }
+      });
+    };
+  }
+
+  /**
+   * Exige que o usuário acesse o próprio recurso (parâmetro `param` da rota)
+   * ou que o principal tenha os escopos informados
+   */
+  requireSelfOrScopes(param: string, ...scopes: AuthScope[]): preHandlerAsyncHookHandler {
+    return async (request, reply) => {
+      await this.guard(request, reply, (principal) => {
+        const resourceOwner = (request.params as Record<string, string | undefined>)[param];
+        const isSelf = principal.type === 'user' && principal.id === resourceOwner;
+
+        if (!isSelf && !hasScopes(principal, scopes)) {
+          throw new ForbiddenError('Acesso permitido apenas ao próprio usuário', { required: scopes });
+        }
+      });
+    };
+  }
+
+  private async guard(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    authorize: (principal: AuthPrincipal) => void
+  ): Promise<void> {
+    try {
+      const principal = await this.authenticator.authenticate({
+        authorization: request.headers.authorization,
+        apiKey: firstHeader(request.headers['x-api-key']),
+      });
+
+      authorize(principal);
+      request.principal = principal;
+    } catch (error) {
+      if (error instanceof BaseError && error.isOperational) {
+        logger.warn(`🚫 Acesso negado a ${request.method} ${request.url}`, {
+          reason: error.message,
+          statusCode: error.statusCode,
+        });
+
+        return reply.status(error.statusCode).send({
+          success: false,
+          message: error.message,
+        });
+      }
+
+      logger.error('Erro ao autenticar requisição', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Erro interno ao autenticar requisição',
+      });
+    }
+  }
+}
+
+/**
+ * Identificação do principal para auditoria (ex.: autor de uma versão de template)
+ */
+export function principalLabel(principal: AuthPrincipal | undefined): string {
+  if (!principal) return 'api';
+  return principal.type === 'user' ? `user:${principal.id}` : `api_key:${principal.name}`;
+}
+
+function hasScopes(principal: AuthPrincipal, scopes: AuthScope[]): boolean {
+  return scopes.every((scope) => principal.scopes.includes(scope));
+}
+
+function firstHeader(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
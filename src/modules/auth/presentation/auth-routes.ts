@@ -1,5 +1,8 @@
 import type { FastifyInstance } from 'fastify';
 import { AuthController } from './auth-controller.js';
+import { AuthGuard } from './auth-guard.js';
+import { createRequestAuthenticator } from '../infrastructure/auth-factory.js';
+import { AUTH_SCOPES } from '../../../shared/types/auth.js';
 
 /**
  * Registra as rotas de autenticação
@@ -7,13 +10,35 @@ import { AuthController } from './auth-controller.js';
  */
 export async function authRoutes(fastify: FastifyInstance) {
   const authController = new AuthController();
+  const authGuard = new AuthGuard(createRequestAuthenticator());
+
+  const authErrorResponse = {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      error: { type: 'string' },
+      details: { type: 'object', additionalProperties: true }
+    }
+  };
 
   // Iniciar autenticação Google
   fastify.get('/google', {
     schema: {
-      description: 'Inicia processo de autenticação Google OAuth',
+      description: 'Inicia processo de autenticação Google OAuth (state assinado, PKCE e cookie com o nonce do login)',
       tags: ['Auth'],
+      querystring: {
+        type: 'object',
+        properties: {
+          returnTo: { type: 'string', maxLength: 2048, description: 'Caminho ou URL de um frontend permitido para voltar após o login' },
+          scopes: { type: 'string', description: 'Escopos opcionais separados por vírgula (ex.: calendar)' },
+          redirect: { type: 'boolean', default: false, description: 'Redireciona direto para o Google (navegação do próprio navegador)' }
+        }
+      },
       response: {
+        302: {
+          type: 'object',
+          description: 'Com redirect=true: redirecionamento para a URL de autorização do Google'
+        },
         200: {
           type: 'object',
           properties: {
@@ -27,6 +52,7 @@ export async function authRoutes(fastify: FastifyInstance) {
             }
           }
         },
+        400: authErrorResponse,
         500: {
           type: 'object',
           properties: {
@@ -45,15 +71,17 @@ export async function authRoutes(fastify: FastifyInstance) {
       tags: ['Auth'],
       querystring: {
         type: 'object',
-        required: ['code'],
+        required: ['state'],
         properties: {
-          code: { type: 'string', description: 'Código de autorização do Google' }
+          code: { type: 'string', description: 'Código de autorização do Google (ausente quando há error)' },
+          state: { type: 'string', description: 'State assinado gerado em /auth/google' },
+          error: { type: 'string', description: 'Erro do Google quando a autorização é negada (ex.: access_denied)' }
         }
       },
       response: {
         302: {
           type: 'object',
-          description: 'Redirecionamento para o frontend'
+          description: 'Redirecionamento para o frontend com o código de troca (?code=), a ser trocado em POST /auth/token, ou com ?success=false&error= quando a autorização é negada'
         },
         400: {
           type: 'object',
@@ -62,6 +90,7 @@ export async function authRoutes(fastify: FastifyInstance) {
             error: { type: 'string' }
           }
         },
+        401: authErrorResponse,
         500: {
           type: 'object',
           properties: {
@@ -73,4 +102,225 @@ export async function authRoutes(fastify: FastifyInstance) {
       }
     }
   }, (request, reply) => authController.processGoogleCallback(request, reply));
-} 
\ No newline at end of file
+
+  const sessionTokensResponse = {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      data: {
+        type: 'object',
+        properties: {
+          accessToken: { type: 'string' },
+          tokenType: { type: 'string' },
+          expiresIn: { type: 'integer' },
+          refreshToken: { type: 'string' },
+          refreshTokenExpiresAt: { type: 'string' }
+        }
+      }
+    }
+  };
+
+  const refreshTokenBody = {
+    type: 'object',
+    required: ['refreshToken'],
+    properties: {
+      refreshToken: { type: 'string', minLength: 1 }
+    }
+  };
+
+  // Trocar código do callback pelos tokens
+  fastify.post('/token', {
+    schema: {
+      description: 'Troca o código de uso único do callback OAuth pelo token de acesso e refresh token',
+      tags: ['Auth'],
+      body: {
+        type: 'object',
+        required: ['code'],
+        properties: {
+          code: { type: 'string', minLength: 1 }
+        }
+      },
+      response: {
+        200: sessionTokensResponse,
+        401: authErrorResponse,
+        500: authErrorResponse
+      }
+    }
+  }, (request, reply) => authController.exchangeCode(request, reply));
+
+  // Renovar sessão
+  fastify.post('/refresh', {
+    schema: {
+      description: 'Emite novo token de acesso e refresh token; o refresh token enviado deixa de valer',
+      tags: ['Auth'],
+      body: refreshTokenBody,
+      response: {
+        200: sessionTokensResponse,
+        401: authErrorResponse,
+        500: authErrorResponse
+      }
+    }
+  }, (request, reply) => authController.refreshSession(request, reply));
+
+  // Encerrar sessão
+  fastify.post('/logout', {
+    schema: {
+      description: 'Revoga o refresh token e os demais tokens da mesma sessão',
+      tags: ['Auth'],
+      body: {
+        ...refreshTokenBody,
+        properties: {
+          ...refreshTokenBody.properties,
+          revokeGoogle: { type: 'boolean', default: false, description: 'Também revoga o acesso offline ao Google' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' }
+          }
+        },
+        500: authErrorResponse
+      }
+    }
+  }, (request, reply) => authController.logout(request, reply));
+
+  // Usuário autenticado
+  fastify.get('/me', {
+    preHandler: authGuard.requireUser(),
+    schema: {
+      description: 'Retorna o usuário do token de acesso',
+      tags: ['Auth'],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                email: { type: 'string' },
+                name: { type: 'string' },
+                avatar_url: { type: ['string', 'null'] },
+                email_verified: { type: ['boolean', 'null'] },
+                role: { type: 'string' },
+                created_at: { type: 'string' },
+                updated_at: { type: 'string' }
+              }
+            }
+          }
+        },
+        404: authErrorResponse,
+        500: authErrorResponse
+      }
+    }
+  }, (request, reply) => authController.getCurrentUser(request, reply));
+
+  // Excluir conta
+  fastify.delete('/me', {
+    preHandler: authGuard.requireUser(),
+    schema: {
+      description: 'Exclui a conta do usuário autenticado e revoga o acesso ao Google',
+      tags: ['Auth'],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' }
+          }
+        },
+        404: authErrorResponse,
+        500: authErrorResponse
+      }
+    }
+  }, (request, reply) => authController.deleteAccount(request, reply));
+
+  const apiKeyProperties = {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    key_prefix: { type: 'string' },
+    scopes: { type: 'array', items: { type: 'string' } },
+    created_at: { type: 'string' },
+    last_used_at: { type: ['string', 'null'] },
+    revoked_at: { type: ['string', 'null'] }
+  };
+
+  // Listar chaves de API
+  fastify.get('/api-keys', {
+    preHandler: authGuard.requireScopes('admin:api-keys'),
+    schema: {
+      description: 'Lista as chaves de API (ativas e revogadas)',
+      tags: ['Auth'],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array', items: { type: 'object', properties: apiKeyProperties } }
+          }
+        },
+        500: authErrorResponse
+      }
+    }
+  }, (request, reply) => authController.listApiKeys(request, reply));
+
+  // Criar chave de API
+  fastify.post('/api-keys', {
+    preHandler: authGuard.requireScopes('admin:api-keys'),
+    schema: {
+      description: 'Cria uma chave de API para sistemas (ex.: cron); o valor é exibido uma única vez',
+      tags: ['Auth'],
+      body: {
+        type: 'object',
+        required: ['name', 'scopes'],
+        properties: {
+          name: { type: 'string', minLength: 1, maxLength: 100 },
+          scopes: { type: 'array', minItems: 1, items: { type: 'string', enum: [...AUTH_SCOPES] } }
+        }
+      },
+      response: {
+        201: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: { type: 'object', properties: { ...apiKeyProperties, key: { type: 'string' } } }
+          }
+        },
+        400: authErrorResponse,
+        500: authErrorResponse
+      }
+    }
+  }, (request, reply) => authController.createApiKey(request, reply));
+
+  // Revogar chave de API
+  fastify.delete('/api-keys/:id', {
+    preHandler: authGuard.requireScopes('admin:api-keys'),
+    schema: {
+      description: 'Revoga uma chave de API',
+      tags: ['Auth'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', format: 'uuid' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' }
+          }
+        },
+        404: authErrorResponse,
+        500: authErrorResponse
+      }
+    }
+  }, (request, reply) => authController.revokeApiKey(request, reply));
+}
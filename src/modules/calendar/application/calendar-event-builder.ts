@@ -0,0 +1,57 @@
+import { createHash } from 'crypto';
+import type { CalendarEventInput, CalendarTask } from '../../../shared/types/calendar.js';
+import { appConfig, getFrontendUrl } from '../../../shared/config/app-config.js';
+
+type CalendarConfig = typeof appConfig.calendar;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Montagem dos eventos do Calendar a partir das tarefas
+ * Responsabilidade: definir o conteúdo do evento e o hash usado para detectar mudanças
+ */
+export class CalendarEventBuilder {
+  constructor(private config: CalendarConfig = appConfig.calendar) {}
+
+  /**
+   * Tarefa só com data vira evento de dia inteiro; com horário, evento de `eventDurationMinutes`
+   * Tarefas concluídas ficam marcadas (✅, cor grafite) e não ocupam a agenda
+   */
+  build(task: CalendarTask, timeZone: string): CalendarEventInput {
+    const { start, end } = this.eventTimes(task.dueDate, timeZone);
+
+    return {
+      summary: task.completed ? `✅ ${task.title}` : task.title,
+      description: [task.description, `GrowSpace: ${getFrontendUrl()}`].filter(Boolean).join('\n\n'),
+      start,
+      end,
+      transparency: task.completed ? 'transparent' : 'opaque',
+      ...(task.completed ? { colorId: '8' } : {}),
+      extendedProperties: {
+        private: { growspaceTaskTable: task.table, growspaceTaskId: task.id },
+      },
+    };
+  }
+
+  /**
+   * Hash do conteúdo sincronizado: igual ao anterior, o evento não precisa ser atualizado
+   */
+  hash(event: CalendarEventInput): string {
+    return createHash('sha256').update(JSON.stringify(event)).digest('hex');
+  }
+
+  private eventTimes(dueDate: string, timeZone: string): Pick<CalendarEventInput, 'start' | 'end'> {
+    if (DATE_ONLY.test(dueDate)) {
+      const nextDay = new Date(`${dueDate}T00:00:00Z`);
+      nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+      return { start: { date: dueDate }, end: { date: nextDay.toISOString().slice(0, 10) } };
+    }
+
+    const start = new Date(dueDate);
+    const end = new Date(start.getTime() + this.config.eventDurationMinutes * 60 * 1000);
+    return {
+      start: { dateTime: start.toISOString(), timeZone },
+      end: { dateTime: end.toISOString(), timeZone },
+    };
+  }
+}
@@ -0,0 +1,270 @@
+import type { CalendarEventBuilder } from './calendar-event-builder.js';
+import type { ICalendarSyncRepository } from '../domain/repositories/calendar-sync-repository.js';
+import type { ICalendarTaskRepository } from '../domain/repositories/calendar-task-repository.js';
+import type { GoogleAuthService } from '../../auth/application/google-auth-service.js';
+import type {
+  CalendarSyncSettings,
+  CalendarSyncSummary,
+  CalendarTask,
+  CalendarTaskEvent,
+  CalendarTaskTable,
+  ICalendarClient,
+} from '../../../shared/types/calendar.js';
+import { appConfig } from '../../../shared/config/app-config.js';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../../../shared/errors/base-error.js';
+import { logger } from '../../../shared/utils/logger.js';
+import { mapWithConcurrency } from '../../../shared/utils/concurrency.js';
+import { DEFAULT_TIMEZONE, isValidTimezone, nowUTC } from '../../../shared/utils/date-utils.js';
+
+type CalendarConfig = typeof appConfig.calendar;
+
+type TaskSyncOutcome = 'created' | 'updated' | 'deleted' | 'unchanged' | 'failed';
+
+/**
+ * Calendário ativo de um usuário durante a sincronização
+ */
+interface SyncTarget {
+  userId: string;
+  accessToken: string;
+  calendarId: string;
+  timeZone: string;
+}
+
+/**
+ * Casos de uso da sincronização de tarefas com o Google Calendar
+ * Responsabilidade: opt-in do usuário, calendário dedicado e reconciliação tarefa → evento
+ *
+ * O vínculo tarefa → evento e o hash do conteúdo ficam em `calendar_task_events`:
+ * rodar a sincronização de novo sem mudanças nas tarefas não chama o Google.
+ *
+ * Limitação: as tarefas (`user_tasks`, `todos`) são gravadas pelo frontend direto no Supabase,
+ * sem passar por esta API, então não há um ponto do backend onde a mudança dispare o sync.
+ * O frontend chama POST /calendar/tasks/:table/:taskId/sync após cada mudança; o que ficar
+ * para trás (chamada perdida, alteração feita fora do app) é corrigido pela reconciliação
+ * periódica (CALENDAR_SYNC_SCHEDULER_ENABLED) ou por POST /calendar/sync/run.
+ */
+export class CalendarSyncUseCases {
+  constructor(
+    private syncRepository: ICalendarSyncRepository,
+    private taskRepository: ICalendarTaskRepository,
+    private calendarClient: ICalendarClient,
+    private googleAuthService: GoogleAuthService,
+    private eventBuilder: CalendarEventBuilder,
+    private config: CalendarConfig = appConfig.calendar
+  ) {}
+
+  async getSettings(userId: string): Promise<CalendarSyncSettings | null> {
+    return this.syncRepository.findSettings(userId);
+  }
+
+  /**
+   * Ativa a sincronização: cria o calendário dedicado (na primeira vez) e sincroniza as tarefas
+   * Exige o escopo do Calendar concedido em /auth/google?scopes=calendar
+   */
+  async enable(userId: string, timeZone?: string): Promise<{ settings: CalendarSyncSettings; summary: CalendarSyncSummary }> {
+    if (timeZone && !isValidTimezone(timeZone)) {
+      throw new ValidationError('Fuso horário inválido', { timeZone });
+    }
+
+    if (!(await this.googleAuthService.hasScope(userId, appConfig.auth.google.optionalScopes.calendar!))) {
+      throw new ForbiddenError('Acesso ao Google Calendar não autorizado; entre com /auth/google?scopes=calendar');
+    }
+
+    const current = await this.syncRepository.findSettings(userId);
+    const zone = timeZone ?? current?.time_zone ?? DEFAULT_TIMEZONE;
+    let calendarId = current?.calendar_id ?? null;
+
+    if (!calendarId) {
+      const accessToken = await this.googleAuthService.getAccessToken(userId);
+      calendarId = await this.calendarClient.createCalendar(accessToken, this.config.calendarName, zone);
+      logger.info(`📅 Calendário dedicado criado para o usuário ${userId}`, { calendarId });
+    }
+
+    const settings = await this.syncRepository.saveSettings(userId, { enabled: true, calendarId, timeZone: zone });
+    const summary = await this.syncUser(userId);
+
+    return { settings, summary };
+  }
+
+  /**
+   * Desativa a sincronização; com `deleteCalendar`, remove o calendário e os eventos do Google
+   */
+  async disable(userId: string, deleteCalendar: boolean = false): Promise<CalendarSyncSettings> {
+    const current = await this.syncRepository.findSettings(userId);
+
+    if (!current) {
+      throw new NotFoundError('Sincronização com o Google Calendar não configurada');
+    }
+
+    let calendarId = current.calendar_id;
+
+    if (deleteCalendar && calendarId) {
+      const accessToken = await this.googleAuthService.getAccessToken(userId);
+      await this.calendarClient.deleteCalendar(accessToken, calendarId);
+      await this.syncRepository.deleteTaskEvents(userId);
+      calendarId = null;
+      logger.info(`🗑️ Calendário dedicado removido para o usuário ${userId}`);
+    }
+
+    return this.syncRepository.saveSettings(userId, { enabled: false, calendarId, timeZone: current.time_zone });
+  }
+
+  /**
+   * Reconcilia todas as tarefas do usuário com os eventos do calendário
+   * Cria eventos de tarefas novas, atualiza os que mudaram e remove os de tarefas
+   * excluídas ou que perderam a data
+   */
+  async syncUser(userId: string): Promise<CalendarSyncSummary> {
+    const target = await this.resolveTarget(userId);
+    const summary = emptySummary(1);
+
+    const [tasks, events] = await Promise.all([
+      this.taskRepository.listByUser(userId),
+      this.syncRepository.listTaskEvents(userId),
+    ]);
+    const eventsByTask = new Map(events.map((event) => [taskKey(event.task_table, event.task_id), event]));
+    const taskKeys = new Set(tasks.map((task) => taskKey(task.table, task.id)));
+    const orphans = events.filter((event) => !taskKeys.has(taskKey(event.task_table, event.task_id)));
+
+    const outcomes = await mapWithConcurrency([...tasks, ...orphans], this.config.syncConcurrency, (item) =>
+      'title' in item
+        ? this.syncTask(target, item, eventsByTask.get(taskKey(item.table, item.id)) ?? null)
+        : this.removeEvent(target, item)
+    );
+
+    for (const outcome of outcomes) {
+      summary[outcome]++;
+    }
+
+    await this.syncRepository.markSynced(userId, nowUTC());
+    logger.info(`📅 Calendar sincronizado para o usuário ${userId}`, { ...summary });
+    return summary;
+  }
+
+  /**
+   * Sincroniza uma tarefa logo após ela mudar (criada, editada, concluída ou excluída)
+   * Chamado pelo frontend, que é quem grava as tarefas (ver limitação na classe)
+   */
+  async syncSingleTask(userId: string, table: CalendarTaskTable, taskId: string): Promise<TaskSyncOutcome> {
+    const lookup = await this.taskRepository.findById(table, taskId);
+
+    if (lookup && lookup.userId !== userId) {
+      throw new ForbiddenError('Tarefa pertence a outro usuário');
+    }
+
+    const event = await this.syncRepository.findTaskEvent(table, taskId);
+
+    if (event && event.user_id !== userId) {
+      throw new ForbiddenError('Tarefa pertence a outro usuário');
+    }
+
+    const target = await this.resolveTarget(userId);
+
+    if (lookup?.task) {
+      return this.syncTask(target, lookup.task, event);
+    }
+
+    return event ? this.removeEvent(target, event) : 'unchanged';
+  }
+
+  /**
+   * Reconciliação periódica de todos os usuários com a sincronização ativa
+   */
+  async reconcileAll(): Promise<CalendarSyncSummary> {
+    const userIds = await this.syncRepository.listEnabledUserIds();
+    const total = emptySummary(0);
+
+    for (const userId of userIds) {
+      try {
+        const summary = await this.syncUser(userId);
+        for (const key of Object.keys(total) as (keyof CalendarSyncSummary)[]) {
+          total[key] += summary[key];
+        }
+      } catch (error) {
+        total.failed++;
+        logger.error(`Erro ao sincronizar Calendar do usuário ${userId}`, {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+
+        // Acesso ao Google revogado: para de tentar até o usuário reativar
+        if (error instanceof NotFoundError) {
+          await this.disable(userId).catch(() => undefined);
+          logger.warn(`📅 Sincronização do Calendar desativada para o usuário ${userId}: acesso ao Google indisponível`);
+        }
+      }
+    }
+
+    return total;
+  }
+
+  private async resolveTarget(userId: string): Promise<SyncTarget> {
+    const settings = await this.syncRepository.findSettings(userId);
+
+    if (!settings?.enabled || !settings.calendar_id) {
+      throw new ConflictError('Sincronização com o Google Calendar não está ativa');
+    }
+
+    return {
+      userId,
+      accessToken: await this.googleAuthService.getAccessToken(userId),
+      calendarId: settings.calendar_id,
+      timeZone: settings.time_zone,
+    };
+  }
+
+  private async syncTask(target: SyncTarget, task: CalendarTask, current: CalendarTaskEvent | null): Promise<TaskSyncOutcome> {
+    try {
+      const event = this.eventBuilder.build(task, target.timeZone);
+      const contentHash = this.eventBuilder.hash(event);
+
+      if (current?.content_hash === contentHash) {
+        return 'unchanged';
+      }
+
+      // Evento removido pelo usuário no Google: recria
+      const updated = current
+        ? await this.calendarClient.updateEvent(target.accessToken, target.calendarId, current.event_id, event)
+        : false;
+      const eventId = updated ? current!.event_id : await this.calendarClient.insertEvent(target.accessToken, target.calendarId, event);
+
+      await this.syncRepository.saveTaskEvent({
+        user_id: target.userId,
+        task_table: task.table,
+        task_id: task.id,
+        event_id: eventId,
+        content_hash: contentHash,
+        synced_at: nowUTC().toISOString(),
+      });
+
+      return updated ? 'updated' : 'created';
+    } catch (error) {
+      logger.error(`Erro ao sincronizar ${task.table} ${task.id} com o Calendar`, {
+        userId: target.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return 'failed';
+    }
+  }
+
+  private async removeEvent(target: SyncTarget, event: CalendarTaskEvent): Promise<TaskSyncOutcome> {
+    try {
+      await this.calendarClient.deleteEvent(target.accessToken, target.calendarId, event.event_id);
+      await this.syncRepository.deleteTaskEvent(event.task_table, event.task_id);
+      return 'deleted';
+    } catch (error) {
+      logger.error(`Erro ao remover evento de ${event.task_table} ${event.task_id} do Calendar`, {
+        userId: target.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return 'failed';
+    }
+  }
+}
+
+function taskKey(table: CalendarTaskTable, taskId: string): string {
+  return `${table}:${taskId}`;
+}
+
+function emptySummary(users: number): CalendarSyncSummary {
+  return { users, created: 0, updated: 0, deleted: 0, unchanged: 0, failed: 0 };
+}
@@ -0,0 +1,27 @@
+import type { CalendarSyncSettings, CalendarTaskEvent, CalendarTaskTable } from '../../../../shared/types/calendar.js';
+
+/**
+ * Dados de configuração da sincronização de um usuário
+ */
+export interface CalendarSyncSettingsUpdate {
+  enabled: boolean;
+  calendarId: string | null;
+  timeZone: string;
+}
+
+/**
+ * Repositório do estado da sincronização com o Google Calendar
+ * Responsabilidade: opt-in por usuário e vínculo tarefa → evento
+ */
+export interface ICalendarSyncRepository {
+  findSettings(userId: string): Promise<CalendarSyncSettings | null>;
+  saveSettings(userId: string, settings: CalendarSyncSettingsUpdate): Promise<CalendarSyncSettings>;
+  markSynced(userId: string, at: Date): Promise<void>;
+  listEnabledUserIds(): Promise<string[]>;
+
+  listTaskEvents(userId: string): Promise<CalendarTaskEvent[]>;
+  findTaskEvent(table: CalendarTaskTable, taskId: string): Promise<CalendarTaskEvent | null>;
+  saveTaskEvent(event: CalendarTaskEvent): Promise<void>;
+  deleteTaskEvent(table: CalendarTaskTable, taskId: string): Promise<void>;
+  deleteTaskEvents(userId: string): Promise<void>;
+}
@@ -0,0 +1,24 @@
+import type { CalendarTask, CalendarTaskTable } from '../../../../shared/types/calendar.js';
+
+/**
+ * Tarefa encontrada e o dono dela; `task` é null quando ela não deve ter evento (sem data)
+ */
+export interface CalendarTaskLookup {
+  userId: string;
+  task: CalendarTask | null;
+}
+
+/**
+ * Fonte das tarefas sincronizadas (`user_tasks` e `todos`)
+ */
+export interface ICalendarTaskRepository {
+  /**
+   * Tarefas do usuário que têm data (as demais não viram evento)
+   */
+  listByUser(userId: string): Promise<CalendarTask[]>;
+
+  /**
+   * null quando a tarefa não existe (removida)
+   */
+  findById(table: CalendarTaskTable, taskId: string): Promise<CalendarTaskLookup | null>;
+}
@@ -0,0 +1,37 @@
+import { CalendarSyncUseCases } from '../application/calendar-sync-use-cases.js';
+import { CalendarEventBuilder } from '../application/calendar-event-builder.js';
+import { SupabaseCalendarSyncRepository } from './supabase-calendar-sync-repository.js';
+import { SupabaseCalendarTaskRepository } from './supabase-calendar-task-repository.js';
+import { GoogleCalendarClient } from './google-calendar-client.js';
+import { createGoogleAuthService } from '../../auth/infrastructure/auth-factory.js';
+import { JobScheduler } from '../../../shared/services/job-scheduler.js';
+import { SupabaseSchedulerLockRepository } from '../../../shared/infrastructure/supabase-scheduler-lock-repository.js';
+import { appConfig } from '../../../shared/config/app-config.js';
+import type { CalendarSyncSummary } from '../../../shared/types/calendar.js';
+
+/**
+ * Cria os casos de uso de sincronização com o Google Calendar
+ */
+export function createCalendarSyncUseCases(): CalendarSyncUseCases {
+  return new CalendarSyncUseCases(
+    new SupabaseCalendarSyncRepository(),
+    new SupabaseCalendarTaskRepository(),
+    new GoogleCalendarClient(),
+    createGoogleAuthService(),
+    new CalendarEventBuilder()
+  );
+}
+
+/**
+ * Cria o scheduler em processo que reconcilia tarefas e eventos de todos os usuários
+ */
+export function createCalendarSyncScheduler(): JobScheduler<CalendarSyncSummary> {
+  const calendarSyncUseCases = createCalendarSyncUseCases();
+
+  return new JobScheduler({
+    name: appConfig.calendar.scheduler.lockName,
+    intervalSeconds: appConfig.calendar.scheduler.intervalSeconds,
+    run: () => calendarSyncUseCases.reconcileAll(),
+    lockRepository: new SupabaseSchedulerLockRepository(),
+  });
+}
@@ -0,0 +1,74 @@
+import { appConfig } from '../../../shared/config/app-config.js';
+import type { CalendarEventInput, ICalendarClient } from '../../../shared/types/calendar.js';
+
+/**
+ * Cliente HTTP da API REST do Google Calendar (v3)
+ * A URL base é configurável (GOOGLE_CALENDAR_API_URL) para testes contra um fake local
+ */
+export class GoogleCalendarClient implements ICalendarClient {
+  constructor(private baseUrl: string = appConfig.calendar.apiUrl) {}
+
+  async createCalendar(accessToken: string, summary: string, timeZone: string): Promise<string> {
+    const response = await this.request(accessToken, 'POST', '/calendars', { summary, timeZone });
+    const calendar = (await response.json()) as { id: string };
+    return calendar.id;
+  }
+
+  async deleteCalendar(accessToken: string, calendarId: string): Promise<void> {
+    await this.request(accessToken, 'DELETE', `/calendars/${encodeURIComponent(calendarId)}`, undefined, true);
+  }
+
+  async insertEvent(accessToken: string, calendarId: string, event: CalendarEventInput): Promise<string> {
+    const response = await this.request(accessToken, 'POST', `/calendars/${encodeURIComponent(calendarId)}/events`, event);
+    const created = (await response.json()) as { id: string };
+    return created.id;
+  }
+
+  async updateEvent(accessToken: string, calendarId: string, eventId: string, event: CalendarEventInput): Promise<boolean> {
+    const response = await this.request(
+      accessToken,
+      'PUT',
+      `/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`,
+      event,
+      true
+    );
+    return response.ok;
+  }
+
+  async deleteEvent(accessToken: string, calendarId: string, eventId: string): Promise<void> {
+    await this.request(
+      accessToken,
+      'DELETE',
+      `/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`,
+      undefined,
+      true
+    );
+  }
+
+  /**
+   * Executa a requisição; com `allowGone`, 404/410 (recurso removido) não são erro
+   */
+  private async request(
+    accessToken: string,
+    method: string,
+    path: string,
+    body?: unknown,
+    allowGone: boolean = false
+  ): Promise<Response> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        ...(body ? { 'Content-Type': 'application/json' } : {}),
+      },
+      ...(body ? { body: JSON.stringify(body) } : {}),
+    });
+
+    if (response.ok || (allowGone && (response.status === 404 || response.status === 410))) {
+      return response;
+    }
+
+    const details = await response.text();
+    throw new Error(`Erro na API do Google Calendar (${method} ${path}): HTTP ${response.status} ${details.slice(0, 200)}`);
+  }
+}
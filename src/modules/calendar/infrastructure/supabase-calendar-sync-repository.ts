@@ -0,0 +1,145 @@
+import { createClient } from '@supabase/supabase-js';
+import { env } from '../../../shared/config/environment.js';
+import { logger } from '../../../shared/utils/logger.js';
+import { nowUTC } from '../../../shared/utils/date-utils.js';
+import type { CalendarSyncSettings, CalendarTaskEvent, CalendarTaskTable } from '../../../shared/types/calendar.js';
+import type { CalendarSyncSettingsUpdate, ICalendarSyncRepository } from '../domain/repositories/calendar-sync-repository.js';
+
+/**
+ * Repositório do estado da sincronização no Supabase
+ * (tabelas `calendar_sync_settings` e `calendar_task_events`)
+ */
+export class SupabaseCalendarSyncRepository implements ICalendarSyncRepository {
+  private supabase;
+
+  constructor() {
+    this.supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+  }
+
+  async findSettings(userId: string): Promise<CalendarSyncSettings | null> {
+    const { data, error } = await this.supabase
+      .from('calendar_sync_settings')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Erro ao buscar sincronização do Calendar do usuário ${userId}`, { error });
+      throw new Error(`Erro ao buscar sincronização do Calendar: ${error.message}`);
+    }
+
+    return (data as CalendarSyncSettings | null) ?? null;
+  }
+
+  async saveSettings(userId: string, settings: CalendarSyncSettingsUpdate): Promise<CalendarSyncSettings> {
+    const { data, error } = await this.supabase
+      .from('calendar_sync_settings')
+      .upsert({
+        user_id: userId,
+        enabled: settings.enabled,
+        calendar_id: settings.calendarId,
+        time_zone: settings.timeZone,
+        updated_at: nowUTC().toISOString(),
+      }, { onConflict: 'user_id' })
+      .select('*')
+      .single();
+
+    if (error) {
+      logger.error(`Erro ao salvar sincronização do Calendar do usuário ${userId}`, { error });
+      throw new Error(`Erro ao salvar sincronização do Calendar: ${error.message}`);
+    }
+
+    return data as CalendarSyncSettings;
+  }
+
+  async markSynced(userId: string, at: Date): Promise<void> {
+    const { error } = await this.supabase
+      .from('calendar_sync_settings')
+      .update({ last_synced_at: at.toISOString() })
+      .eq('user_id', userId);
+
+    if (error) {
+      logger.warn(`Erro ao registrar sincronização do Calendar do usuário ${userId}`, { error });
+    }
+  }
+
+  async listEnabledUserIds(): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from('calendar_sync_settings')
+      .select('user_id')
+      .eq('enabled', true);
+
+    if (error) {
+      logger.error('Erro ao listar usuários com sincronização do Calendar', { error });
+      throw new Error(`Erro ao listar usuários com sincronização do Calendar: ${error.message}`);
+    }
+
+    return (data || []).map((row) => String(row.user_id));
+  }
+
+  async listTaskEvents(userId: string): Promise<CalendarTaskEvent[]> {
+    const { data, error } = await this.supabase
+      .from('calendar_task_events')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (error) {
+      logger.error(`Erro ao listar eventos sincronizados do usuário ${userId}`, { error });
+      throw new Error(`Erro ao listar eventos sincronizados: ${error.message}`);
+    }
+
+    return (data || []) as CalendarTaskEvent[];
+  }
+
+  async findTaskEvent(table: CalendarTaskTable, taskId: string): Promise<CalendarTaskEvent | null> {
+    const { data, error } = await this.supabase
+      .from('calendar_task_events')
+      .select('*')
+      .eq('task_table', table)
+      .eq('task_id', taskId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Erro ao buscar evento sincronizado de ${table} ${taskId}`, { error });
+      throw new Error(`Erro ao buscar evento sincronizado: ${error.message}`);
+    }
+
+    return (data as CalendarTaskEvent | null) ?? null;
+  }
+
+  async saveTaskEvent(event: CalendarTaskEvent): Promise<void> {
+    const { error } = await this.supabase
+      .from('calendar_task_events')
+      .upsert(event, { onConflict: 'task_table,task_id' });
+
+    if (error) {
+      logger.error(`Erro ao salvar evento sincronizado de ${event.task_table} ${event.task_id}`, { error });
+      throw new Error(`Erro ao salvar evento sincronizado: ${error.message}`);
+    }
+  }
+
+  async deleteTaskEvent(table: CalendarTaskTable, taskId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('calendar_task_events')
+      .delete()
+      .eq('task_table', table)
+      .eq('task_id', taskId);
+
+    if (error) {
+      logger.error(`Erro ao remover evento sincronizado de ${table} ${taskId}`, { error });
+      throw new Error(`Erro ao remover evento sincronizado: ${error.message}`);
+    }
+  }
+
+  async deleteTaskEvents(userId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('calendar_task_events')
+      .delete()
+      .eq('user_id', userId);
+
+    if (error) {
+      logger.error(`Erro ao remover eventos sincronizados do usuário ${userId}`, { error });
+      throw new Error(`Erro ao remover eventos sincronizados: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import { createClient } from '@supabase/supabase-js';
+import { env } from '../../../shared/config/environment.js';
+import { logger } from '../../../shared/utils/logger.js';
+import type { CalendarTask, CalendarTaskTable } from '../../../shared/types/calendar.js';
+import type { CalendarTaskLookup, ICalendarTaskRepository } from '../domain/repositories/calendar-task-repository.js';
+
+/**
+ * Colunas lidas das tabelas de tarefas (`user_tasks` e `todos` diferem na coluna do título)
+ */
+interface CalendarTaskRow {
+  id: string | number;
+  user_id: string | null;
+  due_date: string | null;
+  name?: string | null;
+  title?: string | null;
+  description?: string | null;
+  notes?: string | null;
+  completed?: boolean | null;
+  status?: string | null;
+}
+
+/**
+ * Coluna do título em cada tabela de tarefas
+ */
+const TITLE_COLUMNS: Record<CalendarTaskTable, 'name' | 'title'> = {
+  user_tasks: 'name',
+  todos: 'title',
+};
+
+/**
+ * Repositório das tarefas sincronizadas com o Calendar no Supabase
+ * Tarefas de cultivo também contam como concluídas se houver registro em `task_completions`
+ */
+export class SupabaseCalendarTaskRepository implements ICalendarTaskRepository {
+  private supabase;
+
+  constructor() {
+    this.supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+  }
+
+  async listByUser(userId: string): Promise<CalendarTask[]> {
+    const tasks: CalendarTask[] = [];
+
+    for (const table of Object.keys(TITLE_COLUMNS) as CalendarTaskTable[]) {
+      const { data, error } = await this.supabase
+        .from(table)
+        .select('*')
+        .eq('user_id', userId)
+        .not('due_date', 'is', null);
+
+      if (error) {
+        logger.error(`Erro ao listar ${table} do usuário ${userId}`, { error });
+        throw new Error(`Erro ao listar ${table}: ${error.message}`);
+      }
+
+      const rows = (data || []) as CalendarTaskRow[];
+      const completed = table === 'user_tasks'
+        ? await this.findCompletedTaskIds(rows.map((row) => String(row.id)))
+        : new Set<string>();
+
+      for (const row of rows) {
+        const task = this.toTask(table, row, completed.has(String(row.id)));
+        if (task) tasks.push(task);
+      }
+    }
+
+    return tasks;
+  }
+
+  async findById(table: CalendarTaskTable, taskId: string): Promise<CalendarTaskLookup | null> {
+    const { data, error } = await this.supabase
+      .from(table)
+      .select('*')
+      .eq('id', taskId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Erro ao buscar ${table} ${taskId}`, { error });
+      throw new Error(`Erro ao buscar ${table}: ${error.message}`);
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    const row = data as CalendarTaskRow;
+    const completed = table === 'user_tasks' && (await this.findCompletedTaskIds([taskId])).has(taskId);
+
+    return {
+      userId: String(row.user_id),
+      task: this.toTask(table, row, completed),
+    };
+  }
+
+  private toTask(table: CalendarTaskTable, row: CalendarTaskRow, hasCompletion: boolean): CalendarTask | null {
+    if (!row.due_date || !row.user_id) {
+      return null;
+    }
+
+    return {
+      table,
+      id: String(row.id),
+      userId: String(row.user_id),
+      title: String(row[TITLE_COLUMNS[table]] || 'Tarefa'),
+      description: row.description || row.notes || undefined,
+      dueDate: String(row.due_date),
+      completed: hasCompletion || row.completed === true || row.status === 'completed',
+    };
+  }
+
+  private async findCompletedTaskIds(taskIds: string[]): Promise<Set<string>> {
+    if (taskIds.length === 0) {
+      return new Set();
+    }
+
+    const { data, error } = await this.supabase
+      .from('task_completions')
+      .select('task_id')
+      .in('task_id', taskIds);
+
+    if (error) {
+      logger.warn('Erro ao buscar task_completions; usando apenas o status das tarefas', { error: error.message });
+      return new Set();
+    }
+
+    return new Set((data || []).map((row) => String(row.task_id)));
+  }
+}
@@ -0,0 +1,133 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import type { CalendarSyncUseCases } from '../application/calendar-sync-use-cases.js';
+import { createCalendarSyncUseCases } from '../infrastructure/calendar-factory.js';
+import type { CalendarTaskTable } from '../../../shared/types/calendar.js';
+import { BaseError } from '../../../shared/errors/base-error.js';
+import { logger } from '../../../shared/utils/logger.js';
+
+/**
+ * Controller da sincronização com o Google Calendar
+ * Responsabilidade única: lidar com requisições HTTP do usuário autenticado
+ */
+export class CalendarController {
+  private calendarSyncUseCases: CalendarSyncUseCases;
+
+  constructor() {
+    this.calendarSyncUseCases = createCalendarSyncUseCases();
+  }
+
+  /**
+   * Estado da sincronização do usuário
+   */
+  async getSync(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const settings = await this.calendarSyncUseCases.getSettings(request.principal!.id);
+
+      return reply.status(200).send({
+        success: true,
+        message: 'Sincronização com o Google Calendar',
+        data: settings ?? { enabled: false }
+      });
+
+    } catch (error) {
+      return this.sendError(reply, error, 'Erro ao buscar sincronização do Calendar');
+    }
+  }
+
+  /**
+   * Ativa a sincronização (opt-in)
+   */
+  async enableSync(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { timeZone } = (request.body ?? {}) as { timeZone?: string };
+
+      const result = await this.calendarSyncUseCases.enable(request.principal!.id, timeZone);
+
+      return reply.status(200).send({
+        success: true,
+        message: 'Sincronização com o Google Calendar ativada',
+        data: result
+      });
+
+    } catch (error) {
+      return this.sendError(reply, error, 'Erro ao ativar sincronização do Calendar');
+    }
+  }
+
+  /**
+   * Desativa a sincronização
+   */
+  async disableSync(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { deleteCalendar } = request.query as { deleteCalendar?: boolean };
+
+      const settings = await this.calendarSyncUseCases.disable(request.principal!.id, deleteCalendar);
+
+      return reply.status(200).send({
+        success: true,
+        message: 'Sincronização com o Google Calendar desativada',
+        data: { settings }
+      });
+
+    } catch (error) {
+      return this.sendError(reply, error, 'Erro ao desativar sincronização do Calendar');
+    }
+  }
+
+  /**
+   * Sincroniza agora todas as tarefas do usuário
+   */
+  async runSync(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const summary = await this.calendarSyncUseCases.syncUser(request.principal!.id);
+
+      return reply.status(200).send({
+        success: true,
+        message: 'Tarefas sincronizadas com o Google Calendar',
+        data: { summary }
+      });
+
+    } catch (error) {
+      return this.sendError(reply, error, 'Erro ao sincronizar Calendar');
+    }
+  }
+
+  /**
+   * Sincroniza uma tarefa após ela mudar
+   */
+  async syncTask(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { table, taskId } = request.params as { table: CalendarTaskTable; taskId: string };
+
+      const outcome = await this.calendarSyncUseCases.syncSingleTask(request.principal!.id, table, taskId);
+
+      return reply.status(200).send({
+        success: true,
+        message: `Tarefa sincronizada (${outcome})`,
+        data: { outcome }
+      });
+
+    } catch (error) {
+      return this.sendError(reply, error, 'Erro ao sincronizar tarefa com o Calendar');
+    }
+  }
+
+  private sendError(reply: FastifyReply, error: unknown, logMessage: string) {
+    if (error instanceof BaseError && error.isOperational) {
+      return reply.status(error.statusCode).send({
+        success: false,
+        message: error.message,
+        ...(error.context ? { details: error.context } : {})
+      });
+    }
+
+    logger.error(logMessage, {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return reply.status(500).send({
+      success: false,
+      message: 'Erro interno do servidor'
+    });
+  }
+}
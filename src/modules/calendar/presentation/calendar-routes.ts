@@ -0,0 +1,170 @@
+import type { FastifyInstance } from 'fastify';
+import { CalendarController } from './calendar-controller.js';
+import { AuthGuard } from '../../auth/presentation/auth-guard.js';
+import { createRequestAuthenticator } from '../../auth/infrastructure/auth-factory.js';
+import { CALENDAR_TASK_TABLES } from '../../../shared/types/calendar.js';
+
+/**
+ * Registra as rotas de sincronização com o Google Calendar
+ * Responsabilidade única: definir endpoints de opt-in e sincronização das tarefas
+ */
+export async function calendarRoutes(fastify: FastifyInstance) {
+  const calendarController = new CalendarController();
+  const authGuard = new AuthGuard(createRequestAuthenticator());
+
+  const errorResponse = {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      message: { type: 'string' },
+      details: { type: 'object', additionalProperties: true }
+    }
+  };
+
+  const settingsProperties = {
+    user_id: { type: 'string' },
+    enabled: { type: 'boolean' },
+    calendar_id: { type: ['string', 'null'] },
+    time_zone: { type: 'string' },
+    last_synced_at: { type: ['string', 'null'] },
+    created_at: { type: 'string' },
+    updated_at: { type: 'string' }
+  };
+
+  const summaryProperties = {
+    users: { type: 'integer' },
+    created: { type: 'integer' },
+    updated: { type: 'integer' },
+    deleted: { type: 'integer' },
+    unchanged: { type: 'integer' },
+    failed: { type: 'integer' }
+  };
+
+  const syncResponse = {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      message: { type: 'string' },
+      data: {
+        type: 'object',
+        properties: {
+          settings: { type: 'object', properties: settingsProperties },
+          summary: { type: 'object', properties: summaryProperties }
+        }
+      }
+    }
+  };
+
+  // Estado da sincronização
+  fastify.get('/sync', {
+    preHandler: authGuard.requireUser(),
+    schema: {
+      description: 'Retorna a configuração de sincronização do usuário com o Google Calendar',
+      tags: ['Calendar'],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: { type: 'object', properties: settingsProperties }
+          }
+        },
+        500: errorResponse
+      }
+    }
+  }, (request, reply) => calendarController.getSync(request, reply));
+
+  // Ativar sincronização
+  fastify.post('/sync', {
+    preHandler: authGuard.requireUser(),
+    schema: {
+      description: 'Ativa a sincronização das tarefas com um calendário dedicado (exige /auth/google?scopes=calendar)',
+      tags: ['Calendar'],
+      body: {
+        type: 'object',
+        properties: {
+          timeZone: { type: 'string', description: 'Fuso IANA do calendário (ex.: America/Sao_Paulo)' }
+        }
+      },
+      response: {
+        200: syncResponse,
+        400: errorResponse,
+        403: errorResponse,
+        404: errorResponse,
+        500: errorResponse
+      }
+    }
+  }, (request, reply) => calendarController.enableSync(request, reply));
+
+  // Desativar sincronização
+  fastify.delete('/sync', {
+    preHandler: authGuard.requireUser(),
+    schema: {
+      description: 'Desativa a sincronização; com deleteCalendar=true remove o calendário dedicado',
+      tags: ['Calendar'],
+      querystring: {
+        type: 'object',
+        properties: {
+          deleteCalendar: { type: 'boolean', default: false }
+        }
+      },
+      response: {
+        200: syncResponse,
+        404: errorResponse,
+        500: errorResponse
+      }
+    }
+  }, (request, reply) => calendarController.disableSync(request, reply));
+
+  // Sincronizar agora
+  fastify.post('/sync/run', {
+    preHandler: authGuard.requireUser(),
+    schema: {
+      description: 'Reconcilia agora todas as tarefas do usuário com o calendário',
+      tags: ['Calendar'],
+      response: {
+        200: syncResponse,
+        404: errorResponse,
+        409: errorResponse,
+        500: errorResponse
+      }
+    }
+  }, (request, reply) => calendarController.runSync(request, reply));
+
+  // Sincronizar uma tarefa
+  fastify.post('/tasks/:table/:taskId/sync', {
+    preHandler: authGuard.requireUser(),
+    schema: {
+      description: 'Sincroniza uma tarefa após criação, edição, conclusão ou exclusão. As tarefas são gravadas direto no Supabase, então o cliente deve chamar esta rota após cada mudança; a reconciliação periódica cobre chamadas perdidas',
+      tags: ['Calendar'],
+      params: {
+        type: 'object',
+        required: ['table', 'taskId'],
+        properties: {
+          table: { type: 'string', enum: CALENDAR_TASK_TABLES },
+          taskId: { type: 'string', minLength: 1 }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                outcome: { type: 'string' }
+              }
+            }
+          }
+        },
+        403: errorResponse,
+        404: errorResponse,
+        409: errorResponse,
+        500: errorResponse
+      }
+    }
+  }, (request, reply) => calendarController.syncTask(request, reply));
+}
@@ -0,0 +1,75 @@
+import { QuietHoursPolicy } from './quiet-hours-policy.js';
+import { appConfig } from '../../../shared/config/app-config.js';
+import { nextLocalTime, nowUTC, parseTimeOfDay, previousLocalTime } from '../../../shared/utils/date-utils.js';
+import type { NotificationRecipient, NotificationRecord } from '../../../shared/types/notification.js';
+
+type DigestConfig = typeof appConfig.notifications.digest;
+
+/**
+ * Resumo diário de notificações
+ * Responsabilidade: decidir quais notificações entram no resumo e quando ele é enviado
+ *
+ * O resumo sai uma vez por dia no horário local configurado (ajustado pelo horário de
+ * silêncio). Notificações de usuários em modo digest que vencem fora desse horário são
+ * adiadas para o próximo resumo, então todas chegam juntas na mesma execução.
+ */
+export class DigestPolicy {
+  constructor(
+    private config: DigestConfig = appConfig.notifications.digest,
+    private quietHoursPolicy: QuietHoursPolicy = new QuietHoursPolicy()
+  ) {}
+
+  get templateKey(): string {
+    return this.config.templateKey;
+  }
+
+  /**
+   * Tipos de notificação agrupados no resumo
+   */
+  get includedTemplateKeys(): string[] {
+    return [...this.config.templateKeys];
+  }
+
+  /**
+   * Verifica se a notificação deve ser entregue no resumo do destinatário
+   */
+  appliesTo(recipient: NotificationRecipient, notification: NotificationRecord): boolean {
+    return recipient.deliveryMode === 'digest' && this.config.templateKeys.includes(notification.template_key);
+  }
+
+  /**
+   * A notificação entra no resumo atual se venceu até o último horário de resumo
+   */
+  isDue(notification: NotificationRecord, timezone: string, at: Date = nowUTC()): boolean {
+    const scheduledAt = notification.scheduled_at ? new Date(notification.scheduled_at) : at;
+    return scheduledAt.getTime() <= this.lastSlot(timezone, at).getTime();
+  }
+
+  /**
+   * Próximo horário de resumo no fuso do destinatário (instante UTC)
+   */
+  nextSlot(timezone: string, at: Date = nowUTC()): Date {
+    const { hours, minutes } = parseTimeOfDay(this.config.time);
+    return this.adjust(nextLocalTime(at, timezone, hours, minutes), timezone);
+  }
+
+  /**
+   * Último horário de resumo já alcançado (considerando o adiamento pelo silêncio)
+   */
+  private lastSlot(timezone: string, at: Date): Date {
+    const { hours, minutes } = parseTimeOfDay(this.config.time);
+    const slot = previousLocalTime(at, timezone, hours, minutes);
+    const adjusted = this.adjust(slot, timezone);
+
+    // O resumo de hoje foi empurrado pelo silêncio e ainda não chegou: vale o de ontem
+    if (adjusted.getTime() > at.getTime()) {
+      return this.adjust(previousLocalTime(new Date(slot.getTime() - 1), timezone, hours, minutes), timezone);
+    }
+
+    return adjusted;
+  }
+
+  private adjust(slot: Date, timezone: string): Date {
+    return this.quietHoursPolicy.deferUntil(timezone, slot) ?? slot;
+  }
+}
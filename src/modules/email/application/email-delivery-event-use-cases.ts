@@ -0,0 +1,167 @@
+import type { WebhookSignatureHeaders, WebhookSignatureVerifier } from './webhook-signature-verifier.js';
+import type { IEmailDeliveryEventRepository } from '../domain/repositories/email-delivery-event-repository.js';
+import type { IEmailSuppressionRepository } from '../domain/repositories/email-suppression-repository.js';
+import type { INotificationRepository } from '../domain/repositories/notification-repository.js';
+import type { EmailDeliveryEvent, EmailDeliveryStatus, EmailSuppressionReason } from '../../../shared/types/email.js';
+import { ValidationError } from '../../../shared/errors/base-error.js';
+import { logger } from '../../../shared/utils/logger.js';
+import { nowUTC } from '../../../shared/utils/date-utils.js';
+
+/**
+ * Ordem dos estados de entrega: um evento só substitui estados anteriores a ele
+ * (webhooks podem chegar fora de ordem, ex.: opened antes de delivered)
+ */
+const DELIVERY_STATUS_ORDER: EmailDeliveryStatus[] = [
+  'sent',
+  'delivery_delayed',
+  'delivered',
+  'opened',
+  'clicked',
+  'failed',
+  'bounced',
+  'complained',
+];
+
+/**
+ * Evento do Resend (https://resend.com/docs/dashboard/webhooks/event-types)
+ */
+interface ResendWebhookEvent {
+  type?: unknown;
+  created_at?: unknown;
+  data?: {
+    email_id?: unknown;
+    to?: unknown;
+    bounce?: { type?: unknown } | null;
+  } | null;
+}
+
+/**
+ * Resultado do processamento de um webhook
+ */
+export interface EmailDeliveryEventResult {
+  eventId: string;
+  type: string;
+  providerMessageId: string;
+  duplicate: boolean;
+  notificationsUpdated: number;
+  suppressed: string[];
+}
+
+/**
+ * Casos de uso de eventos de entrega de email
+ * Responsabilidade: ingerir webhooks do provedor, registrar os eventos, atualizar o
+ * estado de entrega das notificações e suprimir endereços com hard bounce ou reclamação
+ */
+export class EmailDeliveryEventUseCases {
+  constructor(
+    private eventRepository: IEmailDeliveryEventRepository,
+    private notificationRepository: INotificationRepository,
+    private suppressionRepository: IEmailSuppressionRepository,
+    private signatureVerifier: WebhookSignatureVerifier
+  ) {}
+
+  /**
+   * Processa um webhook do Resend a partir do corpo bruto (necessário para a assinatura)
+   */
+  async handleResendWebhook(headers: WebhookSignatureHeaders, rawBody: string): Promise<EmailDeliveryEventResult> {
+    this.signatureVerifier.verify(headers, rawBody);
+
+    const event = this.parseResendEvent(headers.id!, rawBody);
+    const result: EmailDeliveryEventResult = {
+      eventId: event.eventId,
+      type: event.type,
+      providerMessageId: event.providerMessageId,
+      duplicate: false,
+      notificationsUpdated: 0,
+      suppressed: [],
+    };
+
+    // Estado e supressão são idempotentes: aplicados antes de registrar o evento para que
+    // uma falha no meio seja refeita na reentrega do webhook
+    if (event.status) {
+      const index = DELIVERY_STATUS_ORDER.indexOf(event.status);
+      result.notificationsUpdated = await this.notificationRepository.updateDeliveryStatus(
+        event.providerMessageId,
+        event.status,
+        { occurredAt: event.occurredAt, replaceable: DELIVERY_STATUS_ORDER.slice(0, index) }
+      );
+    }
+
+    const suppressionReason = this.suppressionReason(event);
+
+    if (suppressionReason) {
+      for (const email of event.recipients) {
+        await this.suppressionRepository.add({
+          email,
+          reason: suppressionReason,
+          source: `${event.provider}_webhook`,
+          providerMessageId: event.providerMessageId,
+        });
+        result.suppressed.push(email);
+      }
+
+      logger.warn(`⛔ Endereços suprimidos após ${event.type}`, {
+        recipients: event.recipients,
+        providerMessageId: event.providerMessageId,
+      });
+    }
+
+    if (!(await this.eventRepository.record(event))) {
+      logger.info(`🔁 Evento de entrega ${event.eventId} já processado`, { type: event.type });
+      return { ...result, duplicate: true };
+    }
+
+    logger.info(`📬 Evento de entrega ${event.type} registrado`, {
+      providerMessageId: event.providerMessageId,
+      notificationsUpdated: result.notificationsUpdated,
+    });
+    return result;
+  }
+
+  private parseResendEvent(eventId: string, rawBody: string): EmailDeliveryEvent {
+    let body: ResendWebhookEvent;
+
+    try {
+      body = JSON.parse(rawBody) as ResendWebhookEvent;
+    } catch {
+      throw new ValidationError('Corpo do webhook não é um JSON válido');
+    }
+
+    const type = body.type;
+    const providerMessageId = body.data?.email_id;
+
+    if (typeof type !== 'string' || typeof providerMessageId !== 'string') {
+      throw new ValidationError('Evento de webhook sem tipo ou email_id', { type });
+    }
+
+    const status = type.replace(/^email\./, '') as EmailDeliveryStatus;
+    const occurredAt = typeof body.created_at === 'string' ? new Date(body.created_at) : nowUTC();
+    const recipients = Array.isArray(body.data?.to) ? body.data.to.filter((to): to is string => typeof to === 'string') : [];
+
+    return {
+      eventId,
+      provider: 'resend',
+      providerMessageId,
+      type,
+      status: DELIVERY_STATUS_ORDER.includes(status) ? status : null,
+      recipients,
+      occurredAt: Number.isNaN(occurredAt.getTime()) ? nowUTC() : occurredAt,
+      payload: body as Record<string, unknown>,
+    };
+  }
+
+  /**
+   * Hard bounce (permanente) e reclamação de spam suprimem o endereço;
+   * bounces temporários não
+   */
+  private suppressionReason(event: EmailDeliveryEvent): EmailSuppressionReason | null {
+    if (event.status === 'complained') return 'complaint';
+
+    if (event.status === 'bounced') {
+      const bounceType = (event.payload as ResendWebhookEvent).data?.bounce?.type;
+      return bounceType === undefined || bounceType === null || bounceType === 'Permanent' ? 'hard_bounce' : null;
+    }
+
+    return null;
+  }
+}
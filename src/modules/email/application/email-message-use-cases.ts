@@ -0,0 +1,22 @@
+import type { EmailMessagePage, IEmailMessageRepository } from '../domain/repositories/email-message-repository.js';
+import type { EmailMessageFilters } from '../../../shared/types/email.js';
+import { ValidationError } from '../../../shared/errors/base-error.js';
+
+/**
+ * Casos de uso do histórico de emails
+ * Responsabilidade: buscar as tentativas de envio para suporte ("o lembrete chegou?")
+ */
+export class EmailMessageUseCases {
+  constructor(private messageRepository: IEmailMessageRepository) {}
+
+  async search(filters: EmailMessageFilters, limit: number, offset: number): Promise<EmailMessagePage> {
+    if (filters.from && filters.to && filters.from.getTime() > filters.to.getTime()) {
+      throw new ValidationError('Período inválido: "from" deve ser anterior a "to"', {
+        from: filters.from.toISOString(),
+        to: filters.to.toISOString(),
+      });
+    }
+
+    return this.messageRepository.search(filters, limit, offset);
+  }
+}
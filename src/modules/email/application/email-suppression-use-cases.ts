@@ -0,0 +1,47 @@
+import type { EmailSuppressionPage, IEmailSuppressionRepository } from '../domain/repositories/email-suppression-repository.js';
+import type { EmailSuppression, EmailSuppressionReason } from '../../../shared/types/email.js';
+import { ConflictError, NotFoundError, ValidationError } from '../../../shared/errors/base-error.js';
+import { logger } from '../../../shared/utils/logger.js';
+
+const SUPPRESSION_REASONS: EmailSuppressionReason[] = ['hard_bounce', 'complaint', 'manual'];
+
+/**
+ * Casos de uso de administração da lista de supressão
+ * Responsabilidade: listar, adicionar e remover endereços bloqueados para envio
+ */
+export class EmailSuppressionUseCases {
+  constructor(private suppressionRepository: IEmailSuppressionRepository) {}
+
+  async list(limit: number, offset: number, reason?: EmailSuppressionReason): Promise<EmailSuppressionPage> {
+    if (reason && !SUPPRESSION_REASONS.includes(reason)) {
+      throw new ValidationError('Motivo de supressão inválido', { reasons: SUPPRESSION_REASONS });
+    }
+
+    return this.suppressionRepository.list(limit, offset, reason);
+  }
+
+  /**
+   * Suprime um endereço manualmente
+   */
+  async add(email: string, reason: EmailSuppressionReason = 'manual'): Promise<EmailSuppression> {
+    const suppression: EmailSuppression = { email: email.trim().toLowerCase(), reason, source: 'admin' };
+
+    if (!(await this.suppressionRepository.add(suppression))) {
+      throw new ConflictError(`Endereço ${suppression.email} já está na lista de supressão`);
+    }
+
+    logger.info(`⛔ Endereço ${suppression.email} adicionado à lista de supressão`, { reason });
+    return suppression;
+  }
+
+  /**
+   * Remove um endereço da lista (ex.: caixa corrigida após um bounce)
+   */
+  async remove(email: string): Promise<void> {
+    if (!(await this.suppressionRepository.remove(email))) {
+      throw new NotFoundError(`Endereço ${email} não está na lista de supressão`);
+    }
+
+    logger.info(`✅ Endereço ${email} removido da lista de supressão`);
+  }
+}
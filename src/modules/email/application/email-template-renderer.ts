@@ -0,0 +1,98 @@
+import { escapeHtml, templateEngine, type TemplateVariables } from './template-engine.js';
+import type { EmailTemplateRecord } from '../../../shared/types/notification.js';
+import { htmlToText } from '../../../shared/utils/html-to-text.js';
+import { translate } from '../../../shared/i18n/messages.js';
+
+/**
+ * Conteúdo de um template de email (registro salvo ou rascunho em edição)
+ * `locale` define o idioma de datas e textos padrão das variáveis
+ */
+export type EmailTemplateContent = Pick<EmailTemplateRecord, 'subject_template' | 'html_template'> & {
+  locale?: string | undefined;
+};
+
+/**
+ * Variáveis preenchidas pelo próprio renderizador (não precisam ser declaradas)
+ */
+export const INJECTED_TEMPLATE_VARIABLES = ['unsubscribe_url'];
+
+export interface EmailRenderOptions {
+  // Link de descadastro; incluído no rodapé se o template não usar {{unsubscribe_url}}
+  unsubscribeUrl?: string | null | undefined;
+  // Fuso do destinatário para os filtros de data (padrão: horário de Brasília)
+  timezone?: string | undefined;
+}
+
+export interface RenderedEmailTemplate {
+  subject: string;
+  html: string;
+  text: string;
+  missingVariables: string[];
+}
+
+/**
+ * Renderiza assunto e HTML de um template de email
+ * O assunto é texto puro (sem escape de HTML); o HTML escapa as interpolações
+ * A versão texto é gerada a partir do HTML renderizado
+ */
+export function renderEmailTemplate(
+  template: EmailTemplateContent,
+  variables: TemplateVariables,
+  options: EmailRenderOptions = {}
+): RenderedEmailTemplate {
+  const allVariables = options.unsubscribeUrl ? { ...variables, unsubscribe_url: options.unsubscribeUrl } : variables;
+  const dateOptions = { locale: template.locale, timezone: options.timezone };
+  const subject = templateEngine.render(template.subject_template, allVariables, { ...dateOptions, escape: false });
+  const html = templateEngine.render(template.html_template, allVariables, dateOptions);
+
+  const output = options.unsubscribeUrl && !templateEngine.listVariables(template.html_template).includes('unsubscribe_url')
+    ? appendUnsubscribeFooter(html.output, options.unsubscribeUrl, template.locale)
+    : html.output;
+
+  return {
+    subject: subject.output,
+    html: output,
+    text: htmlToText(output),
+    missingVariables: [...new Set([...subject.missingVariables, ...html.missingVariables])],
+  };
+}
+
+/**
+ * Insere o link de descadastro no fim do corpo do email
+ */
+function appendUnsubscribeFooter(html: string, unsubscribeUrl: string, locale: string | undefined): string {
+  const footer = `<p style="text-align: center; color: #6b7280; font-size: 12px; margin-top: 20px;">`
+    + `${translate('email.unsubscribe', locale)} <a href="${escapeHtml(unsubscribeUrl)}" style="color: #6b7280;">`
+    + `${translate('email.unsubscribeLink', locale)}</a></p>`;
+
+  const bodyEnd = html.search(/<\/body>/i);
+  return bodyEnd === -1 ? `${html}\n${footer}` : `${html.slice(0, bodyEnd)}${footer}\n${html.slice(bodyEnd)}`;
+}
+
+/**
+ * Lista as variáveis usadas no assunto e no HTML de um template
+ * `variables` (exemplo) identifica os campos dos itens usados dentro de {{#each}}
+ */
+export function listEmailTemplateVariables(template: EmailTemplateContent, variables: TemplateVariables = {}): string[] {
+  return [
+    ...new Set([
+      ...templateEngine.listVariables(template.subject_template, variables),
+      ...templateEngine.listVariables(template.html_template, variables),
+    ]),
+  ];
+}
+
+/**
+ * Normaliza `available_variables` (array ou JSON serializado) para lista de nomes
+ */
+export function parseAvailableVariables(value: EmailTemplateRecord['available_variables']): string[] | null {
+  if (!value) return null;
+  if (Array.isArray(value)) return value;
+
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : null;
+  } catch {
+    return null;
+  }
+}
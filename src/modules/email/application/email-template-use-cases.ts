@@ -0,0 +1,368 @@
+import type { NotificationDispatcher } from './notification-dispatcher.js';
+import { NOTIFICATION_TEMPLATE_VARIABLES } from './notification-dispatcher.js';
+import { TemplateSyntaxError, templateEngine, type TemplateVariables } from './template-engine.js';
+import {
+  renderEmailTemplate,
+  listEmailTemplateVariables,
+  INJECTED_TEMPLATE_VARIABLES,
+  parseAvailableVariables,
+  type EmailTemplateContent,
+} from './email-template-renderer.js';
+import type { IEmailTemplateRepository } from '../domain/repositories/email-template-repository.js';
+import type { INotificationRepository } from '../domain/repositories/notification-repository.js';
+import type {
+  EmailTemplateVersionContent,
+  IEmailTemplateVersionRepository,
+} from '../domain/repositories/email-template-version-repository.js';
+import type {
+  EmailTemplateEventRecord,
+  EmailTemplatePreview,
+  EmailTemplateRecord,
+  EmailTemplateVersionRecord,
+  EmailTemplateValidationIssue,
+  EmailTemplateValidationResult,
+} from '../../../shared/types/notification.js';
+import { ConflictError, NotFoundError, ValidationError } from '../../../shared/errors/base-error.js';
+import { logger } from '../../../shared/utils/logger.js';
+import { formatDateForLocale } from '../../../shared/utils/date-utils.js';
+import { DEFAULT_LOCALE } from '../../../shared/i18n/locale.js';
+import { appConfig, getFrontendUrl, getPublicApiUrl } from '../../../shared/config/app-config.js';
+
+/**
+ * Dados de exemplo para preview de templates sem notificação real
+ */
+export function sampleTemplateVariables(locale: string = DEFAULT_LOCALE): TemplateVariables {
+  return {
+    user_name: 'Maria',
+    task_title: 'Regar as plantas',
+    task_description: 'Regar com 500ml de água, evitando molhar as folhas',
+    task_priority: 'alto',
+    due_date: formatDateForLocale('2026-12-25', locale),
+    plant_name: 'Manjericão',
+    task_category: 'rega',
+    garden_name: 'Horta da Varanda',
+    days_overdue: '6',
+    app_url: getFrontendUrl(),
+    unsubscribe_url: `${getPublicApiUrl()}${appConfig.notifications.unsubscribe.path}?token=exemplo`,
+    // Resumo diário (task_digest)
+    task_count: '2',
+    digest_date: formatDateForLocale('2026-12-25', locale),
+    gardens: [
+      {
+        garden_name: 'Horta da Varanda',
+        plants: [
+          {
+            plant_name: 'Manjericão',
+            tasks: [
+              { task_title: 'Regar as plantas', task_priority: 'alto', due_date: formatDateForLocale('2026-12-25', locale) },
+              { task_title: 'Podar', task_priority: 'baixo', due_date: formatDateForLocale('2026-12-19', locale), days_overdue: '6' },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+}
+
+export interface EmailTemplateValidationInput {
+  subject_template: string;
+  html_template: string;
+  available_variables?: string[] | undefined;
+}
+
+export interface EmailTemplatePreviewInput {
+  subject_template?: string | undefined;
+  html_template?: string | undefined;
+  locale?: string | undefined;
+  notificationId?: string | undefined;
+  variables?: TemplateVariables | undefined;
+}
+
+/**
+ * Versão de template com o resultado da validação do seu conteúdo
+ */
+export interface ValidatedEmailTemplateVersion {
+  version: EmailTemplateVersionRecord;
+  validation: EmailTemplateValidationResult;
+}
+
+/**
+ * Casos de uso de edição de templates de email
+ * Responsabilidade: validar, gerar previews e versionar templates (draft → publish → rollback)
+ */
+export class EmailTemplateUseCases {
+  constructor(
+    private templateRepository: IEmailTemplateRepository,
+    private versionRepository: IEmailTemplateVersionRepository,
+    private notificationRepository: INotificationRepository,
+    private notificationDispatcher: NotificationDispatcher
+  ) {}
+
+  /**
+   * Valida sintaxe e variáveis de um template
+   * Sem `available_variables`, compara com as variáveis fornecidas pelo dispatcher
+   */
+  validate(input: EmailTemplateValidationInput): EmailTemplateValidationResult {
+    const errors: EmailTemplateValidationIssue[] = [];
+
+    for (const field of ['subject_template', 'html_template'] as const) {
+      try {
+        templateEngine.compile(input[field]);
+      } catch (error) {
+        if (!(error instanceof TemplateSyntaxError)) throw error;
+        errors.push({ field, message: error.message, line: error.line });
+      }
+    }
+
+    const availableVariables = input.available_variables ?? [...NOTIFICATION_TEMPLATE_VARIABLES];
+
+    if (errors.length > 0) {
+      return {
+        valid: false,
+        errors,
+        usedVariables: [],
+        availableVariables,
+        undeclaredVariables: [],
+        unusedVariables: [],
+      };
+    }
+
+    const usedVariables = listEmailTemplateVariables(input, sampleTemplateVariables());
+    const undeclaredVariables = usedVariables.filter(
+      (name) => !availableVariables.includes(name) && !INJECTED_TEMPLATE_VARIABLES.includes(name)
+    );
+
+    return {
+      valid: undeclaredVariables.length === 0,
+      errors,
+      usedVariables,
+      availableVariables,
+      undeclaredVariables,
+      unusedVariables: availableVariables.filter((name) => !usedVariables.includes(name)),
+    };
+  }
+
+  /**
+   * Valida um template salvo por chave
+   */
+  async validateByKey(templateKey: string, locale?: string): Promise<EmailTemplateValidationResult> {
+    const template = await this.templateRepository.findByKey(templateKey, locale);
+
+    if (!template) {
+      throw new NotFoundError(`Template "${templateKey}" não encontrado`);
+    }
+
+    return this.validate({
+      subject_template: template.subject_template,
+      html_template: template.html_template,
+      available_variables: parseAvailableVariables(template.available_variables) ?? undefined,
+    });
+  }
+
+  /**
+   * Renderiza o preview de um template
+   * O conteúdo informado no input substitui o salvo (rascunho); com `notificationId`,
+   * usa os dados reais da notificação, senão os dados de exemplo
+   */
+  async preview(templateKey: string, input: EmailTemplatePreviewInput): Promise<EmailTemplatePreview> {
+    const template = await this.resolveContent(templateKey, input);
+
+    if (input.notificationId) {
+      const notification = await this.notificationRepository.findById(input.notificationId);
+
+      if (!notification) {
+        throw new NotFoundError(`Notificação ${input.notificationId} não encontrada`);
+      }
+
+      logger.info(`👀 Preview do template "${templateKey}" com a notificação ${notification.id}`);
+      return this.notificationDispatcher.renderWithTemplate(notification, template, input.variables);
+    }
+
+    const variables = { ...sampleTemplateVariables(template.locale), ...input.variables };
+
+    logger.info(`👀 Preview do template "${templateKey}" com dados de exemplo`);
+    return {
+      ...renderEmailTemplate(template, variables),
+      variables,
+    };
+  }
+
+  /**
+   * Lista as versões de um template
+   */
+  async listVersions(templateKey: string): Promise<EmailTemplateVersionRecord[]> {
+    return this.versionRepository.listByKey(templateKey);
+  }
+
+  /**
+   * Histórico de alterações de um template
+   */
+  async getHistory(templateKey: string, limit: number): Promise<EmailTemplateEventRecord[]> {
+    return this.versionRepository.listEvents(templateKey, limit);
+  }
+
+  /**
+   * Cria um rascunho; erros de sintaxe impedem a criação
+   */
+  async createDraft(templateKey: string, content: EmailTemplateVersionContent, actor: string): Promise<ValidatedEmailTemplateVersion> {
+    const validation = this.validateContent(content);
+    this.assertValidSyntax(validation);
+
+    const version = await this.versionRepository.createDraft(templateKey, content, actor);
+
+    logger.info(`📝 Rascunho v${version.version} do template "${templateKey}" criado`, { actor, locale: version.locale });
+    return { version, validation };
+  }
+
+  /**
+   * Atualiza um rascunho existente
+   */
+  async updateDraft(
+    templateKey: string,
+    versionNumber: number,
+    content: EmailTemplateVersionContent,
+    actor: string
+  ): Promise<ValidatedEmailTemplateVersion> {
+    const current = await this.findVersion(templateKey, versionNumber);
+
+    if (current.status !== 'draft') {
+      throw new ConflictError(`A versão ${versionNumber} do template "${templateKey}" não é um rascunho`);
+    }
+
+    const validation = this.validateContent(content);
+    this.assertValidSyntax(validation);
+
+    const version = await this.versionRepository.updateDraft(current.id, content, actor);
+
+    if (!version) {
+      throw new ConflictError(`A versão ${versionNumber} do template "${templateKey}" foi publicada durante a edição`);
+    }
+
+    return { version, validation };
+  }
+
+  /**
+   * Preview de uma versão (rascunho ou publicada)
+   */
+  async previewVersion(
+    templateKey: string,
+    versionNumber: number,
+    input: Pick<EmailTemplatePreviewInput, 'notificationId' | 'variables'>
+  ): Promise<EmailTemplatePreview> {
+    const version = await this.findVersion(templateKey, versionNumber);
+
+    return this.preview(templateKey, {
+      ...input,
+      subject_template: version.subject_template,
+      html_template: version.html_template,
+      locale: version.locale,
+    });
+  }
+
+  /**
+   * Publica uma versão, tornando-a a versão ativa do template
+   * Templates inválidos (sintaxe ou variáveis não declaradas) não são publicados
+   */
+  async publish(templateKey: string, versionNumber: number, actor: string): Promise<EmailTemplateVersionRecord> {
+    const version = await this.findVersion(templateKey, versionNumber);
+
+    if (version.status === 'published') {
+      throw new ConflictError(`A versão ${versionNumber} do template "${templateKey}" já está publicada`);
+    }
+
+    const validation = this.validateContent(version);
+    if (!validation.valid) {
+      throw new ValidationError(`A versão ${versionNumber} do template "${templateKey}" é inválida`, { validation });
+    }
+
+    const published = await this.versionRepository.publish(version.id, actor, 'published');
+
+    logger.info(`🚀 Versão v${published.version} do template "${templateKey}" publicada`, { actor });
+    return published;
+  }
+
+  /**
+   * Volta para uma versão publicada anteriormente
+   * Sem `targetVersion`, usa a última versão publicada antes da atual no mesmo locale
+   */
+  async rollback(
+    templateKey: string,
+    actor: string,
+    targetVersion?: number,
+    locale: string = DEFAULT_LOCALE
+  ): Promise<EmailTemplateVersionRecord> {
+    const versions = await this.versionRepository.listByKey(templateKey);
+
+    if (versions.length === 0) {
+      throw new NotFoundError(`Template "${templateKey}" não possui versões`);
+    }
+
+    const target = targetVersion !== undefined
+      ? versions.find((version) => version.version === targetVersion)
+      : versions
+          .filter((version) => version.locale === locale && version.status === 'archived' && version.published_at)
+          .sort((a, b) => b.published_at!.localeCompare(a.published_at!))[0];
+
+    if (!target) {
+      throw targetVersion !== undefined
+        ? new NotFoundError(`Versão ${targetVersion} do template "${templateKey}" não encontrada`)
+        : new ConflictError(`Template "${templateKey}" (${locale}) não possui versão anterior publicada`);
+    }
+
+    if (target.status !== 'archived' || !target.published_at) {
+      throw new ConflictError(`Rollback só é permitido para versões publicadas anteriormente (v${target.version} está ${target.status})`);
+    }
+
+    const published = await this.versionRepository.publish(target.id, actor, 'rolled_back');
+
+    logger.warn(`⏪ Template "${templateKey}" revertido para a versão v${published.version}`, { actor });
+    return published;
+  }
+
+  private async findVersion(templateKey: string, versionNumber: number): Promise<EmailTemplateVersionRecord> {
+    const version = await this.versionRepository.findByVersion(templateKey, versionNumber);
+
+    if (!version) {
+      throw new NotFoundError(`Versão ${versionNumber} do template "${templateKey}" não encontrada`);
+    }
+
+    return version;
+  }
+
+  private validateContent(content: Pick<EmailTemplateVersionRecord, 'subject_template' | 'html_template'> & {
+    available_variables?: EmailTemplateVersionRecord['available_variables'] | undefined;
+  }): EmailTemplateValidationResult {
+    return this.validate({
+      subject_template: content.subject_template,
+      html_template: content.html_template,
+      available_variables: parseAvailableVariables(content.available_variables ?? null) ?? undefined,
+    });
+  }
+
+  private assertValidSyntax(validation: EmailTemplateValidationResult): void {
+    if (validation.errors.length > 0) {
+      throw new ValidationError(validation.errors.map((error) => `${error.field}: ${error.message}`).join('; '), { validation });
+    }
+  }
+
+  /**
+   * Combina o rascunho informado com o template salvo
+   */
+  private async resolveContent(templateKey: string, input: EmailTemplatePreviewInput): Promise<EmailTemplateContent> {
+    let stored: EmailTemplateRecord | null = null;
+
+    if (input.subject_template === undefined || input.html_template === undefined) {
+      stored = await this.templateRepository.findByKey(templateKey, input.locale);
+
+      if (!stored) {
+        throw new NotFoundError(`Template "${templateKey}" não encontrado`);
+      }
+    }
+
+    return {
+      subject_template: input.subject_template ?? stored!.subject_template,
+      html_template: input.html_template ?? stored!.html_template,
+      locale: input.locale ?? stored?.locale,
+    };
+  }
+}
@@ -1,26 +1,62 @@
-import type { IEmailService, SendEmailRequest, EmailResponse } from '../../../shared/types/email.js';
+import { renderEmailTemplate } from './email-template-renderer.js';
+import type { TemplateVariables } from './template-engine.js';
+import type { IEmailTemplateRepository } from '../domain/repositories/email-template-repository.js';
+import type { IEmailSuppressionRepository } from '../domain/repositories/email-suppression-repository.js';
+import type { IEmailMessageRepository } from '../domain/repositories/email-message-repository.js';
+import { EmailEntity, type EmailMetadata } from '../domain/entities/email-entity.js';
+import { SUPPRESSED_ERROR_CODE, type IEmailService, type SendEmailRequest, type EmailResponse } from '../../../shared/types/email.js';
 import { logger } from '../../../shared/utils/logger.js';
+import { htmlToText } from '../../../shared/utils/html-to-text.js';
 import { appConfig, getFrontendUrl } from '../../../shared/config/app-config.js';
+import { DEFAULT_LOCALE } from '../../../shared/i18n/locale.js';
+
+/**
+ * Email após a checagem da lista de supressão (`request` nulo se nenhum destinatário restou)
+ */
+interface SuppressionCheck {
+  request: SendEmailRequest | null;
+  suppressed: string[];
+}
 
 /**
  * Casos de uso para o módulo de email
  * Responsabilidade: Orquestrar operações de negócio relacionadas a emails
  */
 export class EmailUseCases {
-  constructor(private emailService: IEmailService) {}
+  constructor(
+    private emailService: IEmailService,
+    private templateRepository: IEmailTemplateRepository,
+    private suppressionRepository: IEmailSuppressionRepository,
+    private messageRepository: IEmailMessageRepository,
+    private provider: string
+  ) {}
 
   /**
    * Envia um email
    * Caso de uso principal para envio de emails
+   * Sem `text`, a versão texto é gerada a partir do HTML
+   * Destinatários suprimidos são removidos; se nenhum restar, o provedor não é chamado
+   * Toda tentativa fica registrada no histórico de emails
    */
-  async sendEmail(data: SendEmailRequest): Promise<EmailResponse> {
+  async sendEmail(data: SendEmailRequest, metadata: EmailMetadata = {}): Promise<EmailResponse> {
+    const message = createMessage(data, metadata);
+
     try {
       logger.info('Executando caso de uso: enviar email', {
         to: data.to,
         subject: data.subject,
       });
 
-      const result = await this.emailService.sendEmail(data);
+      const [checked] = await this.applySuppressions([data]);
+
+      if (!checked?.request) {
+        const response = suppressedResponse(checked?.suppressed ?? data.to);
+        await this.recordMessages([message], [response]);
+        return response;
+      }
+
+      const result = withSuppressed(await this.emailService.sendEmail(withTextPart(checked.request)), checked.suppressed);
+      await this.recordMessages([message], [result]);
 
       if (result.success) {
         logger.info('Email enviado com sucesso', {
@@ -39,102 +75,197 @@ export class EmailUseCases {
         error: error instanceof Error ? error.message : 'Unknown error',
       });
 
-      return {
+      const response: EmailResponse = {
         success: false,
         error: 'Erro interno do servidor',
       };
+      await this.recordMessages([message], [response]);
+      return response;
+    }
+  }
+
+  /**
+   * Envia vários emails em batch
+   * Retorna uma resposta por email, na mesma ordem da entrada
+   * `metadata` acompanha `data` por posição
+   */
+  async sendBatch(data: SendEmailRequest[], metadata: EmailMetadata[] = []): Promise<EmailResponse[]> {
+    const messages = data.map((item, index) => createMessage(item, metadata[index] ?? {}));
+
+    try {
+      logger.info('Executando caso de uso: enviar batch de emails', {
+        count: data.length,
+      });
+
+      const checked = await this.applySuppressions(data);
+      const sendable = checked.flatMap((check) => (check.request ? [withTextPart(check.request)] : []));
+      const sendableResults = sendable.length > 0 ? await this.emailService.sendBatch(sendable) : [];
+
+      let index = 0;
+      const results = checked.map((check) =>
+        check.request
+          ? withSuppressed(sendableResults[index++] ?? { success: false, error: 'Erro interno do servidor' }, check.suppressed)
+          : suppressedResponse(check.suppressed)
+      );
+      const sent = results.filter((result) => result.success).length;
+      await this.recordMessages(messages, results);
+
+      logger.info('Batch de emails processado', {
+        sent,
+        failed: results.length - sent,
+      });
+
+      return results;
+
+    } catch (error) {
+      logger.error('Erro inesperado no caso de uso de envio de batch', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      const responses: EmailResponse[] = data.map(() => ({
+        success: false,
+        error: 'Erro interno do servidor',
+      }));
+      await this.recordMessages(messages, responses);
+      return responses;
     }
   }
 
   /**
    * Envia email de boas-vindas
-   * Caso de uso específico para emails de boas-vindas
+   * Caso de uso específico para emails de boas-vindas, no idioma do usuário
    */
-  async sendWelcomeEmail(userEmail: string, userName: string): Promise<EmailResponse> {
-    const welcomeEmailData: SendEmailRequest = {
-      to: [userEmail],
-      subject: appConfig.email.templates.welcome.subject,
-      html: `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h1 style="color: #22c55e;">🌱 Bem-vindo ao GrowSpace!</h1>
-          <p>Olá <strong>${userName}</strong>,</p>
-          <p>Estamos muito felizes em tê-lo conosco no GrowSpace!</p>
-          <p>Com nossa plataforma, você poderá:</p>
-          <ul>
-            <li>Gerenciar seus cultivos de forma inteligente</li>
-            <li>Acompanhar o crescimento das suas plantas</li>
-            <li>Receber lembretes e dicas personalizadas</li>
-            <li>Conectar-se com outros cultivadores</li>
-          </ul>
-          <p>Se você tiver alguma dúvida, não hesite em nos contatar.</p>
-          <p>Atenciosamente,<br>Equipe GrowSpace</p>
-        </div>
-      `,
-      text: `
-        Bem-vindo ao GrowSpace!
-        
-        Olá ${userName},
-        
-        Estamos muito felizes em tê-lo conosco no GrowSpace!
-        
-        Com nossa plataforma, você poderá:
-        - Gerenciar seus cultivos de forma inteligente
-        - Acompanhar o crescimento das suas plantas
-        - Receber lembretes e dicas personalizadas
-        - Conectar-se com outros cultivadores
-        
-        Se você tiver alguma dúvida, não hesite em nos contatar.
-        
-        Atenciosamente,
-        Equipe GrowSpace
-      `,
-    };
-
-    return this.sendEmail(welcomeEmailData);
+  async sendWelcomeEmail(userEmail: string, userName: string, locale: string = DEFAULT_LOCALE): Promise<EmailResponse> {
+    return this.sendTemplatedEmail('welcome', userEmail, locale, {
+      user_name: userName,
+      app_url: getFrontendUrl(),
+    });
   }
 
   /**
    * Envia email de recuperação de senha
-   * Caso de uso específico para recuperação de senha
+   * Caso de uso específico para recuperação de senha, no idioma do usuário
+   */
+  async sendPasswordResetEmail(userEmail: string, resetToken: string, locale: string = DEFAULT_LOCALE): Promise<EmailResponse> {
+    return this.sendTemplatedEmail('password_reset', userEmail, locale, {
+      reset_url: `${getFrontendUrl()}/reset-password?token=${encodeURIComponent(resetToken)}`,
+      expiration_hours: String(appConfig.email.templates.passwordReset.expirationHours),
+      app_url: getFrontendUrl(),
+    });
+  }
+
+  /**
+   * Renderiza um template transacional e envia o email
+   */
+  private async sendTemplatedEmail(
+    templateKey: string,
+    userEmail: string,
+    locale: string,
+    variables: TemplateVariables
+  ): Promise<EmailResponse> {
+    const template = await this.templateRepository.findActiveByKey(templateKey, locale);
+
+    if (!template) {
+      logger.error(`Template transacional "${templateKey}" não encontrado`, { locale });
+      return {
+        success: false,
+        error: `Template "${templateKey}" não encontrado`,
+      };
+    }
+
+    const { subject, html, text, missingVariables } = renderEmailTemplate(template, variables);
+
+    if (missingVariables.length > 0) {
+      logger.warn(`Variáveis ausentes ao renderizar template ${templateKey}`, { missingVariables });
+    }
+
+    return this.sendEmail({ to: [userEmail], subject, html, text }, { templateKey });
+  }
+
+  /**
+   * Registra as tentativas no histórico; falhas no registro não afetam o envio
+   */
+  private async recordMessages(messages: EmailEntity[], responses: EmailResponse[]): Promise<void> {
+    const recorded = messages.map((message, index) => {
+      const response = responses[index];
+
+      if (response?.success) {
+        return message.markAsSent(this.provider, response.data?.id);
+      }
+
+      const error = response?.error ?? 'Erro desconhecido';
+      return response?.errorCode === SUPPRESSED_ERROR_CODE
+        ? message.markAsSuppressed(error)
+        : message.markAsFailed(this.provider, error);
+    });
+
+    try {
+      await this.messageRepository.save(recorded);
+    } catch (error) {
+      logger.error('Falha ao registrar emails no histórico', {
+        messageIds: recorded.map((message) => message.id),
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Remove dos emails os destinatários presentes na lista de supressão
    */
-  async sendPasswordResetEmail(userEmail: string, resetToken: string): Promise<EmailResponse> {
-    const resetUrl = `${getFrontendUrl()}/reset-password?token=${resetToken}`;
-    
-    const resetEmailData: SendEmailRequest = {
-      to: [userEmail],
-      subject: appConfig.email.templates.passwordReset.subject,
-      html: `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h1 style="color: #22c55e;">🔐 Recuperação de Senha</h1>
-          <p>Você solicitou a recuperação de senha da sua conta GrowSpace.</p>
-          <p>Clique no botão abaixo para redefinir sua senha:</p>
-          <a href="${resetUrl}" style="display: inline-block; background-color: #22c55e; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 20px 0;">
-            Redefinir Senha
-          </a>
-          <p>Se o botão não funcionar, copie e cole este link no seu navegador:</p>
-          <p style="word-break: break-all; color: #666;">${resetUrl}</p>
-          <p>Este link expira em 1 hora por motivos de segurança.</p>
-          <p>Se você não solicitou esta recuperação, ignore este email.</p>
-          <p>Atenciosamente,<br>Equipe GrowSpace</p>
-        </div>
-      `,
-      text: `
-        Recuperação de Senha - GrowSpace
-        
-        Você solicitou a recuperação de senha da sua conta GrowSpace.
-        
-        Clique no link abaixo para redefinir sua senha:
-        ${resetUrl}
-        
-        Este link expira em 1 hora por motivos de segurança.
-        
-        Se você não solicitou esta recuperação, ignore este email.
-        
-        Atenciosamente,
-        Equipe GrowSpace
-      `,
-    };
-
-    return this.sendEmail(resetEmailData);
+  private async applySuppressions(requests: SendEmailRequest[]): Promise<SuppressionCheck[]> {
+    const suppressions = await this.suppressionRepository.findByEmails([...new Set(requests.flatMap((request) => request.to))]);
+    const suppressed = new Set(suppressions.map((suppression) => suppression.email));
+
+    return requests.map((request) => {
+      const blocked = request.to.filter((to) => suppressed.has(to.trim().toLowerCase()));
+
+      if (blocked.length === 0) {
+        return { request, suppressed: [] };
+      }
+
+      logger.warn('⛔ Destinatários na lista de supressão removidos do envio', {
+        suppressed: blocked,
+        subject: request.subject,
+      });
+
+      const to = request.to.filter((recipient) => !blocked.includes(recipient));
+      return { request: to.length > 0 ? { ...request, to } : null, suppressed: blocked };
+    });
   }
-} 
\ No newline at end of file
+}
+
+function createMessage(data: SendEmailRequest, metadata: EmailMetadata): EmailEntity {
+  return EmailEntity.create({
+    from: data.from ?? appConfig.email.from,
+    to: data.to,
+    subject: data.subject,
+    html: data.html,
+    text: data.text,
+    replyTo: data.replyTo,
+    metadata,
+  });
+}
+
+/**
+ * Resposta de um email bloqueado pela lista de supressão (falha permanente)
+ */
+function suppressedResponse(suppressed: string[]): EmailResponse {
+  return {
+    success: false,
+    error: `Destinatário na lista de supressão: ${suppressed.join(', ')}`,
+    errorCode: SUPPRESSED_ERROR_CODE,
+    retryable: false,
+    suppressedRecipients: suppressed,
+  };
+}
+
+function withSuppressed(result: EmailResponse, suppressed: string[]): EmailResponse {
+  return suppressed.length > 0 ? { ...result, suppressedRecipients: suppressed } : result;
+}
+
+/**
+ * Garante a parte texto do email (acessibilidade e pontuação anti-spam)
+ */
+function withTextPart(data: SendEmailRequest): SendEmailRequest {
+  return data.text ? data : { ...data, text: htmlToText(data.html) };
+}
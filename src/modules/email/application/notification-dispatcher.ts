@@ -0,0 +1,957 @@
+import type { EmailUseCases } from './email-use-cases.js';
+import type { RecipientResolver } from './recipient-resolver.js';
+import { renderEmailTemplate, type EmailTemplateContent } from './email-template-renderer.js';
+import type { TemplateVariables } from './template-engine.js';
+import { RetryPolicy, type FailureKind } from './retry-policy.js';
+import { QuietHoursPolicy } from './quiet-hours-policy.js';
+import { DigestPolicy } from './digest-policy.js';
+import { UnsubscribeTokenService } from './unsubscribe-token-service.js';
+import type { INotificationRepository } from '../domain/repositories/notification-repository.js';
+import type { IEmailTemplateRepository } from '../domain/repositories/email-template-repository.js';
+import type { ITaskRepository } from '../domain/repositories/task-repository.js';
+import type { INotificationDigestRepository } from '../domain/repositories/notification-digest-repository.js';
+import type {
+  NotificationRecord,
+  NotificationRecipient,
+  PreparedNotificationEmail,
+  NotificationDispatchResult,
+  NotificationDispatchSummary,
+  NotificationPreviewSummary,
+  EmailTemplatePreview,
+  TaskContext,
+} from '../../../shared/types/notification.js';
+import { appConfig, getFrontendUrl } from '../../../shared/config/app-config.js';
+import { logger } from '../../../shared/utils/logger.js';
+import { nowUTC, formatDateForLocale, DEFAULT_TIMEZONE } from '../../../shared/utils/date-utils.js';
+import { DEFAULT_LOCALE } from '../../../shared/i18n/locale.js';
+import { translate } from '../../../shared/i18n/messages.js';
+import { mapWithConcurrency, chunk } from '../../../shared/utils/concurrency.js';
+import { SUPPRESSED_ERROR_CODE, type EmailResponse } from '../../../shared/types/email.js';
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+
+const OVERDUE_AFTER_MS = 5 * 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Variáveis fornecidas pelo dispatcher aos templates de notificação
+ */
+export const NOTIFICATION_TEMPLATE_VARIABLES = [
+  'user_name',
+  'task_title',
+  'task_description',
+  'task_priority',
+  'due_date',
+  'plant_name',
+  'task_category',
+  'garden_name',
+  'days_overdue',
+  'app_url',
+] as const;
+
+export type NotificationTemplateVariable = (typeof NOTIFICATION_TEMPLATE_VARIABLES)[number];
+
+/**
+ * Dependências do dispatcher (injetáveis para testes, scheduler ou CLI)
+ */
+export interface NotificationDispatcherDependencies {
+  notificationRepository: INotificationRepository;
+  templateRepository: IEmailTemplateRepository;
+  taskRepository: ITaskRepository;
+  recipientResolver: RecipientResolver;
+  emailUseCases: EmailUseCases;
+  digestRepository: INotificationDigestRepository;
+  retryPolicy?: RetryPolicy;
+  quietHoursPolicy?: QuietHoursPolicy;
+  digestPolicy?: DigestPolicy;
+  unsubscribeTokens?: UnsubscribeTokenService;
+}
+
+/**
+ * Email renderizado pronto para envio com as notificações que ele entrega
+ * (uma notificação, ou várias quando é um resumo)
+ */
+interface ReadyNotification {
+  notifications: NotificationRecord[];
+  email: PreparedNotificationEmail;
+  isDigest: boolean;
+}
+
+/**
+ * Notificação com destinatário e tarefa já resolvidos, pronta para renderizar
+ */
+interface NotificationContext {
+  notification: NotificationRecord;
+  taskCtx: TaskContext;
+  recipient: NotificationRecipient;
+  to: string;
+  timezone: string;
+}
+
+/**
+ * Resultado da preparação de uma notificação
+ */
+type PreparationOutcome =
+  | { kind: 'ready'; email: PreparedNotificationEmail }
+  | { kind: 'deferred'; reason: 'quiet_hours' | 'digest'; until: Date; userEmail: string }
+  | { kind: 'digest'; context: NotificationContext }
+  | {
+      kind: 'skipped';
+      code:
+        | 'recipient_not_found'
+        | 'recipient_not_allowed'
+        | 'opted_out'
+        | 'template_not_found'
+        | 'completed_before_schedule'
+        | 'task_completed';
+      reason: string;
+      userEmail: string | null;
+    }
+  | { kind: 'failed'; failure: FailureKind; reason: string };
+
+/**
+ * Notificação do resumo que não pôde ser preparada
+ */
+type UnsendableNotification = {
+  notification: NotificationRecord;
+  outcome: Extract<PreparationOutcome, { kind: 'skipped' | 'failed' }>;
+};
+
+/**
+ * Dispatcher de notificações por email
+ * Responsabilidade: aplicar as regras de negócio da fila de notificações
+ * (destinatário, tarefa concluída, template, atraso) e enviar os emails
+ */
+export class NotificationDispatcher {
+  private retryPolicy: RetryPolicy;
+  private quietHoursPolicy: QuietHoursPolicy;
+  private digestPolicy: DigestPolicy;
+  private unsubscribeTokens: UnsubscribeTokenService;
+
+  constructor(private deps: NotificationDispatcherDependencies) {
+    this.retryPolicy = deps.retryPolicy ?? new RetryPolicy();
+    this.quietHoursPolicy = deps.quietHoursPolicy ?? new QuietHoursPolicy();
+    this.digestPolicy = deps.digestPolicy ?? new DigestPolicy(undefined, this.quietHoursPolicy);
+    this.unsubscribeTokens = deps.unsubscribeTokens ?? new UnsubscribeTokenService();
+  }
+
+  /**
+   * Prepara os emails das notificações pendentes sem enviar (dry run)
+   * Não altera o status das notificações
+   */
+  async preview(): Promise<NotificationPreviewSummary> {
+    const pendingNotifications = await this.deps.notificationRepository.findDue(appConfig.notifications.batchSize);
+    this.deps.recipientResolver.clearCache();
+
+    if (pendingNotifications.length === 0) {
+      logger.info('Nenhuma notificação pendente encontrada');
+      return { processed: 0, emailData: [], notifications: [] };
+    }
+
+    logger.info(`Encontradas ${pendingNotifications.length} notificações pendentes`);
+
+    const emailData: PreparedNotificationEmail[] = [];
+    const notifications: NotificationPreviewSummary['notifications'] = [];
+    const digestContexts: NotificationContext[] = [];
+
+    for (const notification of pendingNotifications) {
+      const outcome = await this.safePrepare(notification);
+
+      if (outcome.kind === 'ready') {
+        emailData.push(outcome.email);
+      } else if (outcome.kind === 'digest') {
+        digestContexts.push(outcome.context);
+      }
+
+      notifications.push({
+        id: notification.id,
+        type: notification.type,
+        userEmail: this.outcomeEmail(outcome),
+        status: this.outcomeStatus(outcome),
+        templateKey: notification.template_key,
+      });
+    }
+
+    const digests = await this.prepareDigests(digestContexts);
+    emailData.push(...digests.ready.map(({ email }) => email));
+
+    logger.info('📧 Dados processados para envio (dry run):', {
+      totalEmails: emailData.length,
+      templateKeysInData: emailData.map((e) => e.templateKey),
+    });
+
+    return { processed: pendingNotifications.length, emailData, notifications };
+  }
+
+  /**
+   * Renderiza uma notificação com o template informado, sem aplicar as regras de envio
+   * Usado no preview de templates com dados reais
+   */
+  async renderWithTemplate(
+    notification: NotificationRecord,
+    template: EmailTemplateContent,
+    overrides: TemplateVariables = {}
+  ): Promise<EmailTemplatePreview> {
+    const resolution = await this.deps.recipientResolver.resolve(notification.user_id);
+    const taskCtx = await this.deps.taskRepository.getTaskContext(notification);
+
+    const recipient = resolution.success ? resolution.recipient : undefined;
+    const variables = {
+      ...this.buildVariables(
+        notification,
+        taskCtx,
+        recipient?.name,
+        this.isOld(notification),
+        template.locale ?? recipient?.locale,
+        recipient?.timezone
+      ),
+      ...overrides,
+    };
+
+    return {
+      ...renderEmailTemplate(template, variables, { timezone: recipient?.timezone }),
+      variables,
+    };
+  }
+
+  /**
+   * Processa e envia as notificações pendentes
+   */
+  async dispatch(): Promise<NotificationDispatchSummary> {
+    const startTime = Date.now();
+
+    logger.info('🚀 Iniciando processamento e envio automático de notificações');
+
+    // Reserva o lote para esta execução (evita envios duplicados entre instâncias)
+    const leaseOwner = `${hostname()}:${process.pid}:${randomUUID()}`;
+    await this.deps.notificationRepository.reclaimExpiredLeases();
+    const claimedNotifications = await this.deps.notificationRepository.claimDue(
+      leaseOwner,
+      appConfig.notifications.batchSize,
+      appConfig.notifications.leaseSeconds
+    );
+    this.deps.recipientResolver.clearCache();
+
+    if (claimedNotifications.length === 0) {
+      logger.info('Nenhuma notificação pendente encontrada');
+      return {
+        processed: 0,
+        sent: 0,
+        failed: 0,
+        deferred: 0,
+        successRate: 100,
+        processingTime: Date.now() - startTime,
+        details: [],
+      };
+    }
+
+    logger.info(`Reservadas ${claimedNotifications.length} notificações pendentes`, { leaseOwner });
+
+    const pendingNotifications: NotificationRecord[] = [];
+    const resultsById = new Map<string, NotificationDispatchResult>();
+    const ready: ReadyNotification[] = [];
+    const digestContexts: NotificationContext[] = [];
+
+    // 1) Prepara em paralelo (consultas de destinatário, tarefa e template)
+    const prepare = async (notifications: NotificationRecord[]) => {
+      const offset = pendingNotifications.length;
+      pendingNotifications.push(...notifications);
+
+      const outcomes = await mapWithConcurrency(
+        notifications,
+        appConfig.notifications.concurrency,
+        (notification, i) => {
+          logger.info(`📝 Processando notificação ${offset + i + 1}/${pendingNotifications.length}:`, {
+            id: notification.id,
+            template_key: notification.template_key,
+            title: notification.title,
+          });
+          return this.safePrepare(notification);
+        }
+      );
+
+      for (let i = 0; i < notifications.length; i++) {
+        const notification = notifications[i]!;
+        const outcome = outcomes[i]!;
+
+        if (outcome.kind === 'ready') {
+          ready.push({ notifications: [notification], email: outcome.email, isDigest: false });
+        } else if (outcome.kind === 'digest') {
+          digestContexts.push(outcome.context);
+        } else if (outcome.kind === 'deferred') {
+          resultsById.set(notification.id, await this.handleDeferred(notification, outcome, leaseOwner));
+        } else {
+          resultsById.set(notification.id, await this.handleUnsendable(notification, outcome, leaseOwner));
+        }
+      }
+    };
+
+    await prepare(claimedNotifications);
+
+    // O lote tem tamanho máximo: reserva também o restante das notificações de cada usuário
+    // em modo digest, para que o resumo não seja dividido entre execuções
+    await prepare(await this.claimRemainingDigestItems(digestContexts, leaseOwner));
+
+    // Agrupa as notificações de usuários em modo digest em um email por usuário
+    const digests = await this.prepareDigests(digestContexts);
+    ready.push(...digests.ready);
+    for (const { notification, outcome } of digests.skipped) {
+      resultsById.set(notification.id, await this.handleUnsendable(notification, outcome, leaseOwner));
+    }
+
+    // 2) Envia em batches; o ritmo é controlado pelo rate limit do serviço de email
+    const batches = chunk(ready, appConfig.email.batchSize);
+    const batchResults = await mapWithConcurrency(
+      batches,
+      appConfig.notifications.concurrency,
+      (batch) => this.sendBatch(batch, leaseOwner)
+    );
+    batchResults.flat().forEach((result) => resultsById.set(result.notificationId, result));
+
+    const results = pendingNotifications.map((notification) => resultsById.get(notification.id)!);
+
+    const sentCount = results.filter((result) => result.status === 'sent').length;
+    const deferredCount = results.filter((result) => result.status.startsWith('deferred_')).length;
+    const failedCount = results.length - sentCount - deferredCount;
+
+    const processingTime = Date.now() - startTime;
+    const successRate = (sentCount / pendingNotifications.length) * 100;
+
+    logger.info(`🎉 Processamento concluído:`, {
+      total: pendingNotifications.length,
+      sent: sentCount,
+      failed: failedCount,
+      deferred: deferredCount,
+      successRate: `${successRate.toFixed(1)}%`,
+      processingTime: `${processingTime}ms`,
+    });
+
+    return {
+      processed: pendingNotifications.length,
+      sent: sentCount,
+      failed: failedCount,
+      deferred: deferredCount,
+      successRate,
+      processingTime,
+      details: results,
+    };
+  }
+
+  /**
+   * Descarta a notificação ou, se a preparação falhou, agenda retentativa (falha transitória)
+   */
+  private async handleUnsendable(
+    notification: NotificationRecord,
+    outcome: UnsendableNotification['outcome'],
+    leaseOwner: string
+  ): Promise<NotificationDispatchResult> {
+    if (outcome.kind === 'failed') {
+      return this.handleFailure(notification, (notification.attempt_count ?? 0) + 1, outcome.failure, outcome.reason, leaseOwner);
+    }
+    return this.handleSkipped(notification, outcome, leaseOwner);
+  }
+
+  /**
+   * Registra o descarte de uma notificação que não pode ser enviada
+   */
+  private async handleSkipped(
+    notification: NotificationRecord,
+    outcome: Extract<PreparationOutcome, { kind: 'skipped' }>,
+    leaseOwner: string
+  ): Promise<NotificationDispatchResult> {
+    // Tarefa concluída e opt-out são descartes esperados (status final skipped_*, não erro);
+    // destinatário/template ausentes são falhas permanentes
+    const isCompleted = outcome.code === 'task_completed' || outcome.code === 'completed_before_schedule';
+    const status = isCompleted ? 'skipped_completed' : outcome.code === 'opted_out' ? 'skipped_opted_out' : 'dead_letter';
+    await this.deps.notificationRepository.updateStatus(notification.id, status, {
+      errorMessage: outcome.reason,
+      leaseOwner,
+    });
+    return {
+      notificationId: notification.id,
+      status,
+      emailId: null,
+      error: outcome.reason,
+    };
+  }
+
+  /**
+   * Adia uma notificação (fim do horário de silêncio ou próximo resumo do destinatário)
+   * Não conta como tentativa de envio
+   */
+  private async handleDeferred(
+    notification: NotificationRecord,
+    outcome: Extract<PreparationOutcome, { kind: 'deferred' }>,
+    leaseOwner: string
+  ): Promise<NotificationDispatchResult> {
+    await this.deps.notificationRepository.updateStatus(notification.id, 'pending', { scheduledAt: outcome.until, leaseOwner });
+    logger.info(
+      outcome.reason === 'digest'
+        ? `🗞️  Notificação ${notification.id} adiada para o próximo resumo`
+        : `🌙 Notificação ${notification.id} adiada pelo horário de silêncio`,
+      { until: outcome.until.toISOString() }
+    );
+    return { notificationId: notification.id, status: this.outcomeStatus(outcome), emailId: null, error: null };
+  }
+
+  /**
+   * Envia um batch de emails preparados e atualiza o status de cada notificação
+   * Cada resposta do provedor é associada à notificação pela posição no batch
+   */
+  private async sendBatch(batch: ReadyNotification[], leaseOwner: string): Promise<NotificationDispatchResult[]> {
+    logger.info(`📧 Enviando batch de ${batch.length} emails`, {
+      notificationIds: batch.flatMap(({ notifications }) => notifications.map((notification) => notification.id)),
+    });
+
+    let responses: EmailResponse[];
+    try {
+      responses = await this.deps.emailUseCases.sendBatch(
+        batch.map(({ email }) => ({
+          to: email.to,
+          subject: email.subject,
+          html: email.html,
+          text: email.text,
+          headers: email.headers,
+        })),
+        batch.map(({ notifications, email }) => ({
+          templateKey: email.templateKey,
+          userId: notifications[0]?.user_id ?? null,
+          notificationIds: notifications.map((notification) => notification.id),
+        }))
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+      logger.error('💥 Exceção ao enviar batch de emails', { error: errorMessage });
+      responses = batch.map(() => ({ success: false, error: errorMessage, retryable: true }));
+    }
+
+    const results = await Promise.all(
+      batch.map((item, index) =>
+        this.handleResponse(item, responses[index] ?? { success: false, error: 'Resposta ausente no batch' }, leaseOwner)
+      )
+    );
+    return results.flat();
+  }
+
+  /**
+   * Atualiza as notificações do email conforme a resposta do provedor
+   * Em resumos, todas as notificações incluídas recebem a referência ao digest
+   */
+  private async handleResponse(
+    { notifications, email, isDigest }: ReadyNotification,
+    emailResult: EmailResponse,
+    leaseOwner: string
+  ): Promise<NotificationDispatchResult[]> {
+    if (emailResult.success) {
+      const digestId = isDigest ? await this.recordDigest(notifications, email, emailResult) : undefined;
+
+      return Promise.all(
+        notifications.map(async (notification) => {
+          await this.deps.notificationRepository.updateStatus(notification.id, 'sent', {
+            sentAt: nowUTC(),
+            attemptCount: (notification.attempt_count ?? 0) + 1,
+            providerMessageId: emailResult.data?.id,
+            templateVersionId: email.templateVersionId ?? undefined,
+            templateVersion: email.templateVersion ?? undefined,
+            digestId,
+            leaseOwner,
+          });
+          logger.info(`✅ Email enviado com sucesso para notificação ${notification.id}`, {
+            emailId: emailResult.data?.id,
+            digestId,
+          });
+          return { notificationId: notification.id, status: 'sent', emailId: emailResult.data?.id || 'N/A', error: null };
+        })
+      );
+    }
+
+    // Destinatário suprimido (bounce/reclamação): descarte esperado, sem retentativa
+    if (emailResult.errorCode === SUPPRESSED_ERROR_CODE) {
+      return Promise.all(
+        notifications.map(async (notification) => {
+          await this.deps.notificationRepository.updateStatus(notification.id, 'skipped_suppressed', {
+            errorMessage: emailResult.error,
+            leaseOwner,
+          });
+          logger.warn(`⛔ Notificação ${notification.id} ignorada: destinatário suprimido`, {
+            suppressed: emailResult.suppressedRecipients,
+          });
+          return { notificationId: notification.id, status: 'skipped_suppressed', emailId: null, error: emailResult.error ?? null };
+        })
+      );
+    }
+
+    logger.error(`❌ Falha ao enviar email para notificações ${notifications.map((notification) => notification.id).join(', ')}`, {
+      error: emailResult.error,
+      errorCode: emailResult.errorCode,
+    });
+    const kind = this.retryPolicy.classify(emailResult);
+    return Promise.all(
+      notifications.map((notification) =>
+        this.handleFailure(notification, (notification.attempt_count ?? 0) + 1, kind, emailResult.error ?? 'Erro desconhecido', leaseOwner)
+      )
+    );
+  }
+
+  /**
+   * Registra o resumo enviado; falhas no registro não desfazem o envio
+   */
+  private async recordDigest(
+    notifications: NotificationRecord[],
+    email: PreparedNotificationEmail,
+    emailResult: EmailResponse
+  ): Promise<string | undefined> {
+    try {
+      const digest = await this.deps.digestRepository.create({
+        user_id: notifications[0]!.user_id!,
+        recipient_email: email.to[0] ?? '',
+        notification_count: notifications.length,
+        provider_message_id: emailResult.data?.id ?? null,
+        template_version_id: email.templateVersionId,
+        template_version: email.templateVersion,
+        sent_at: nowUTC().toISOString(),
+      });
+      logger.info(`🗞️  Resumo ${digest.id} enviado com ${notifications.length} notificações`);
+      return digest.id;
+    } catch (error) {
+      logger.error('Falha ao registrar resumo enviado', {
+        notificationIds: notifications.map((notification) => notification.id),
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Agenda retentativa para falhas transitórias ou move para dead-letter
+   */
+  private async handleFailure(
+    notification: NotificationRecord,
+    attemptCount: number,
+    kind: FailureKind,
+    errorMessage: string,
+    leaseOwner: string
+  ): Promise<NotificationDispatchResult> {
+    if (kind === 'transient' && this.retryPolicy.canRetry(attemptCount)) {
+      const nextAttemptAt = this.retryPolicy.nextAttemptAt(attemptCount);
+      await this.deps.notificationRepository.updateStatus(notification.id, 'pending', {
+        errorMessage,
+        attemptCount,
+        nextAttemptAt,
+        leaseOwner,
+      });
+      logger.warn(`🔁 Retentativa agendada para notificação ${notification.id}`, {
+        attempt: attemptCount,
+        nextAttemptAt: nextAttemptAt.toISOString(),
+      });
+      return { notificationId: notification.id, status: 'retry_scheduled', emailId: null, error: errorMessage };
+    }
+
+    await this.deps.notificationRepository.updateStatus(notification.id, 'dead_letter', { errorMessage, attemptCount, leaseOwner });
+    logger.error(`☠️ Notificação ${notification.id} movida para dead-letter`, { attempt: attemptCount, kind });
+    return { notificationId: notification.id, status: 'dead_letter', emailId: null, error: errorMessage };
+  }
+
+  /**
+   * Aplica as regras de negócio e renderiza o email de uma notificação
+   */
+  private async prepare(notification: NotificationRecord): Promise<PreparationOutcome> {
+    // Resolver destinatário real da notificação
+    const resolution = await this.deps.recipientResolver.resolve(notification.user_id);
+
+    if (!resolution.success) {
+      logger.warn(`Destinatário não resolvido para notificação ${notification.id}`, {
+        userId: notification.user_id,
+        reason: resolution.reason,
+        message: resolution.message,
+      });
+      return {
+        kind: 'skipped',
+        code: resolution.reason,
+        reason: `${resolution.reason}: ${resolution.message}`,
+        userEmail: null,
+      };
+    }
+
+    // Regra: respeitar o opt-out do usuário (lembretes antigos contam como atraso)
+    const optedOutType = [notification.template_key, this.isOverdueReminder(notification) ? 'task_overdue' : null]
+      .find((type) => type && resolution.recipient.emailOptOuts?.includes(type));
+
+    if (optedOutType) {
+      logger.info(`🔕 Notificação ${notification.id} ignorada: usuário desativou "${optedOutType}"`, {
+        userId: notification.user_id,
+      });
+      return { kind: 'skipped', code: 'opted_out', reason: `opted_out: ${optedOutType}`, userEmail: resolution.to };
+    }
+
+    // Regra: se a tarefa já foi concluída, não enviar
+    const taskCtx = await this.deps.taskRepository.getTaskContext(notification);
+
+    if (taskCtx.isCompleted) {
+      const completedAt = taskCtx.completedAt ? new Date(taskCtx.completedAt).getTime() : undefined;
+      const scheduledAt = notification.scheduled_at ? new Date(notification.scheduled_at).getTime() : undefined;
+      const completedBeforeSchedule = !!(completedAt && scheduledAt && completedAt <= scheduledAt);
+
+      logger.info(`⏭️  Notificação ${notification.id} ignorada: tarefa já concluída`, {
+        completedAt: taskCtx.completedAt,
+        scheduled_at: notification.scheduled_at,
+      });
+      return completedBeforeSchedule
+        ? { kind: 'skipped', code: 'completed_before_schedule', reason: 'completed_before_schedule', userEmail: resolution.to }
+        : { kind: 'skipped', code: 'task_completed', reason: 'Task already completed', userEmail: resolution.to };
+    }
+
+    const recipient = resolution.recipient;
+    const timezone = recipient.timezone ?? DEFAULT_TIMEZONE;
+    const context: NotificationContext = { notification, taskCtx, recipient, to: resolution.to, timezone };
+
+    // Regra: usuários em modo digest recebem os lembretes agrupados no resumo diário
+    if (this.digestPolicy.appliesTo(recipient, notification)) {
+      if (!this.digestPolicy.isDue(notification, timezone)) {
+        return { kind: 'deferred', reason: 'digest', until: this.digestPolicy.nextSlot(timezone), userEmail: resolution.to };
+      }
+      return { kind: 'digest', context };
+    }
+
+    // Regra: não enviar no horário de silêncio do destinatário (adia o scheduled_at)
+    const deferUntil = this.quietHoursPolicy.deferUntil(timezone);
+
+    if (deferUntil) {
+      return { kind: 'deferred', reason: 'quiet_hours', until: deferUntil, userEmail: resolution.to };
+    }
+
+    return this.renderNotification(context);
+  }
+
+  /**
+   * Renderiza o email individual de uma notificação
+   */
+  private async renderNotification(context: NotificationContext): Promise<Extract<PreparationOutcome, { kind: 'ready' | 'skipped' }>> {
+    const { notification, taskCtx, recipient, to, timezone } = context;
+
+    // Buscar template correspondente
+    const locale = recipient.locale;
+    const template = await this.deps.templateRepository.findActiveByKey(notification.template_key, locale);
+
+    if (!template) {
+      logger.warn(`Template não encontrado para key: ${notification.template_key}`, {
+        notificationId: notification.id,
+        templateKey: notification.template_key,
+      });
+      return { kind: 'skipped', code: 'template_not_found', reason: 'Template não encontrado', userEmail: to };
+    }
+
+    // Regra: se reminder está 5+ dias atrasado e tarefa ainda aberta, usar template overdue
+    const overdueTemplate = this.isOverdueReminder(notification)
+      ? await this.deps.templateRepository.findActiveByKey('task_overdue', locale)
+      : null;
+    const effectiveTemplate = overdueTemplate ?? template;
+
+    // Datas e textos padrão no idioma do template efetivamente usado, no fuso do destinatário
+    const variables = this.buildVariables(
+      notification,
+      taskCtx,
+      recipient.name,
+      !!overdueTemplate,
+      effectiveTemplate.locale,
+      timezone
+    );
+    const unsubscribeUrl = this.unsubscribeTokens.buildUrl({
+      userId: recipient.userId,
+      types: [effectiveTemplate.template_key],
+      channel: 'email',
+    });
+    const { subject, html, text, missingVariables } = renderEmailTemplate(effectiveTemplate, variables, { unsubscribeUrl, timezone });
+
+    if (missingVariables.length > 0) {
+      logger.warn(`Variáveis ausentes ao renderizar template ${effectiveTemplate.template_key}`, {
+        notificationId: notification.id,
+        missingVariables,
+      });
+    }
+
+    return {
+      kind: 'ready',
+      email: {
+        notificationId: notification.id,
+        notificationIds: [notification.id],
+        to: [to],
+        subject,
+        html,
+        text,
+        type: notification.type,
+        templateKey: effectiveTemplate.template_key,
+        locale: effectiveTemplate.locale,
+        templateVersionId: effectiveTemplate.active_version_id ?? null,
+        templateVersion: effectiveTemplate.active_version ?? null,
+        headers: unsubscribeUrl ? this.unsubscribeTokens.buildHeaders(unsubscribeUrl) : undefined,
+      },
+    };
+  }
+
+  /**
+   * Reserva as notificações vencidas dos usuários com resumo neste lote que ficaram fora dele
+   * Falha aqui não interrompe o envio: o restante sai no resumo da próxima execução
+   */
+  private async claimRemainingDigestItems(
+    contexts: NotificationContext[],
+    leaseOwner: string
+  ): Promise<NotificationRecord[]> {
+    const userIds = [...new Set(contexts.map(({ recipient }) => recipient.userId))];
+    const claimed: NotificationRecord[] = [];
+
+    for (const userId of userIds) {
+      try {
+        claimed.push(
+          ...(await this.deps.notificationRepository.claimDueForUser(
+            userId,
+            this.digestPolicy.includedTemplateKeys,
+            leaseOwner,
+            appConfig.notifications.batchSize,
+            appConfig.notifications.leaseSeconds
+          ))
+        );
+      } catch (error) {
+        logger.error('Erro ao reservar notificações restantes do resumo', {
+          userId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    if (claimed.length > 0) {
+      logger.info(`🗞️  Reservadas mais ${claimed.length} notificações para completar resumos`, { leaseOwner });
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Agrupa as notificações em modo digest em um email de resumo por usuário
+   * Sem o template de resumo, as notificações seguem como emails individuais
+   */
+  private async prepareDigests(contexts: NotificationContext[]): Promise<{
+    ready: ReadyNotification[];
+    skipped: UnsendableNotification[];
+  }> {
+    const ready: ReadyNotification[] = [];
+    const skipped: UnsendableNotification[] = [];
+
+    const byUser = new Map<string, NotificationContext[]>();
+    for (const context of contexts) {
+      byUser.set(context.recipient.userId, [...(byUser.get(context.recipient.userId) ?? []), context]);
+    }
+
+    for (const [userId, group] of byUser) {
+      try {
+        const prepared = await this.prepareDigest(userId, group);
+        ready.push(...prepared.ready);
+        skipped.push(...prepared.skipped);
+      } catch (error) {
+        for (const { notification } of group) {
+          skipped.push({ notification, outcome: this.preparationFailed(notification, error) });
+        }
+      }
+    }
+
+    return { ready, skipped };
+  }
+
+  /**
+   * Prepara o resumo de um usuário (ou os emails individuais, sem o template de resumo)
+   */
+  private async prepareDigest(userId: string, group: NotificationContext[]): Promise<{
+    ready: ReadyNotification[];
+    skipped: UnsendableNotification[];
+  }> {
+    const ready: ReadyNotification[] = [];
+    const skipped: UnsendableNotification[] = [];
+    const first = group[0]!;
+    const template = await this.deps.templateRepository.findActiveByKey(this.digestPolicy.templateKey, first.recipient.locale);
+
+    if (!template) {
+      logger.warn(`Template de resumo "${this.digestPolicy.templateKey}" não encontrado; enviando notificações individualmente`, {
+        userId,
+      });
+      for (const context of group) {
+        const outcome = await this.renderNotification(context)
+          .catch((error: unknown) => this.preparationFailed(context.notification, error));
+        if (outcome.kind === 'ready') {
+          ready.push({ notifications: [context.notification], email: outcome.email, isDigest: false });
+        } else {
+          skipped.push({ notification: context.notification, outcome });
+        }
+      }
+      return { ready, skipped };
+    }
+
+    const unsubscribeUrl = this.unsubscribeTokens.buildUrl({
+      userId,
+      types: this.digestPolicy.includedTemplateKeys,
+      channel: 'email',
+    });
+    const { subject, html, text, missingVariables } = renderEmailTemplate(
+      template,
+      this.buildDigestVariables(group, template.locale),
+      { unsubscribeUrl, timezone: first.timezone }
+    );
+
+    if (missingVariables.length > 0) {
+      logger.warn(`Variáveis ausentes ao renderizar template ${template.template_key}`, { userId, missingVariables });
+    }
+
+    const notifications = group.map(({ notification }) => notification);
+    ready.push({
+      notifications,
+      isDigest: true,
+      email: {
+        notificationId: first.notification.id,
+        notificationIds: notifications.map((notification) => notification.id),
+        to: [first.to],
+        subject,
+        html,
+        text,
+        type: 'digest',
+        templateKey: template.template_key,
+        locale: template.locale,
+        templateVersionId: template.active_version_id ?? null,
+        templateVersion: template.active_version ?? null,
+        headers: unsubscribeUrl ? this.unsubscribeTokens.buildHeaders(unsubscribeUrl) : undefined,
+      },
+    });
+
+    return { ready, skipped };
+  }
+
+  /**
+   * Prepara uma notificação; erros viram falha da própria notificação (retentada se transitória)
+   * em vez de interromper o lote inteiro
+   */
+  private async safePrepare(notification: NotificationRecord): Promise<PreparationOutcome> {
+    try {
+      return await this.prepare(notification);
+    } catch (error) {
+      return this.preparationFailed(notification, error);
+    }
+  }
+
+  private preparationFailed(notification: NotificationRecord, error: unknown): Extract<PreparationOutcome, { kind: 'failed' }> {
+    const message = error instanceof Error ? error.message : 'Erro desconhecido';
+    const failure = this.retryPolicy.classifyError(error);
+
+    logger.error(`💥 Erro ao preparar notificação ${notification.id}`, {
+      templateKey: notification.template_key,
+      error: message,
+      failure,
+    });
+    return { kind: 'failed', failure, reason: `preparation_failed: ${message}` };
+  }
+
+  /**
+   * Status reportado para cada resultado da preparação
+   */
+  private outcomeStatus(outcome: PreparationOutcome): string {
+    switch (outcome.kind) {
+      case 'ready':
+        return 'ready_for_send';
+      case 'digest':
+        return 'ready_for_digest';
+      case 'deferred':
+        return `deferred_${outcome.reason}`;
+      case 'skipped':
+        return outcome.code;
+      case 'failed':
+        return 'preparation_failed';
+    }
+  }
+
+  private outcomeEmail(outcome: PreparationOutcome): string | null {
+    switch (outcome.kind) {
+      case 'ready':
+        return outcome.email.to[0] ?? null;
+      case 'digest':
+        return outcome.context.to;
+      case 'failed':
+        return null;
+      default:
+        return outcome.userEmail;
+    }
+  }
+
+  /**
+   * Lembrete agendado há 5+ dias (enviado com o template de atraso)
+   */
+  private isOverdueReminder(notification: NotificationRecord): boolean {
+    return notification.template_key === 'task_reminder' && this.isOld(notification);
+  }
+
+  /**
+   * Verifica se a notificação está agendada há 5+ dias
+   */
+  private isOld(notification: NotificationRecord): boolean {
+    const scheduledAtMs = notification.scheduled_at ? new Date(notification.scheduled_at).getTime() : undefined;
+    return scheduledAtMs ? (Date.now() - scheduledAtMs) >= OVERDUE_AFTER_MS : false;
+  }
+
+  /**
+   * Monta as variáveis disponíveis para os templates
+   */
+  private buildVariables(
+    notification: NotificationRecord,
+    taskCtx: TaskContext,
+    recipientName: string | undefined,
+    isOverdue: boolean,
+    locale: string = DEFAULT_LOCALE,
+    timezone: string = DEFAULT_TIMEZONE
+  ): Record<NotificationTemplateVariable, string | undefined> {
+    let daysOverdue: string | undefined = undefined;
+    if (isOverdue) {
+      const referenceDate = notification.scheduled_at || taskCtx.taskDueDate;
+      if (referenceDate) {
+        const diffDays = Math.max(1, Math.floor((Date.now() - new Date(referenceDate).getTime()) / DAY_MS));
+        daysOverdue = String(diffDays);
+      }
+    }
+
+    return {
+      user_name: notification.template_variables?.user_name || recipientName || translate('notification.defaultUserName', locale),
+      task_title: taskCtx.taskTitle || notification.template_variables?.task_title || notification.title,
+      task_description: notification.message || undefined,
+      task_priority: (taskCtx.taskPriority || notification.payload?.priority || 'médio') as string,
+      due_date: taskCtx.taskDueDate
+        ? formatDateForLocale(taskCtx.taskDueDate, locale, timezone)
+        : (notification.scheduled_at ? formatDateForLocale(notification.scheduled_at, locale, timezone) : translate('notification.today', locale)),
+      plant_name: taskCtx.plantName || notification.template_variables?.plant_name,
+      task_category: taskCtx.taskCategory || notification.template_variables?.task_category,
+      garden_name: taskCtx.gardenName,
+      days_overdue: daysOverdue,
+      app_url: getFrontendUrl(),
+    };
+  }
+
+  /**
+   * Monta as variáveis do resumo: tarefas agrupadas por tenda (jardim) e planta
+   */
+  private buildDigestVariables(group: NotificationContext[], locale: string): TemplateVariables {
+    const { recipient, timezone } = group[0]!;
+    const gardens = new Map<string, Map<string, TemplateVariables[]>>();
+
+    for (const { notification, taskCtx } of group) {
+      const task = this.buildVariables(notification, taskCtx, recipient.name, this.isOld(notification), locale, timezone);
+      const plants = gardens.get(task.garden_name ?? '') ?? new Map<string, TemplateVariables[]>();
+      plants.set(task.plant_name ?? '', [...(plants.get(task.plant_name ?? '') ?? []), task]);
+      gardens.set(task.garden_name ?? '', plants);
+    }
+
+    return {
+      user_name: recipient.name || translate('notification.defaultUserName', locale),
+      task_count: String(group.length),
+      digest_date: formatDateForLocale(nowUTC(), locale, timezone),
+      gardens: [...gardens].map(([gardenName, plants]) => ({
+        garden_name: gardenName || undefined,
+        plants: [...plants].map(([plantName, tasks]) => ({ plant_name: plantName || undefined, tasks })),
+      })),
+      app_url: getFrontendUrl(),
+    };
+  }
+}
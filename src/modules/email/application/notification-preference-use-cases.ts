@@ -0,0 +1,98 @@
+import type { UnsubscribeTokenPayload, UnsubscribeTokenService } from './unsubscribe-token-service.js';
+import type { INotificationPreferenceRepository } from '../domain/repositories/notification-preference-repository.js';
+import type {
+  NotificationChannel,
+  NotificationDeliveryMode,
+  NotificationPreference,
+  NotificationPreferences,
+} from '../../../shared/types/notification.js';
+import { appConfig } from '../../../shared/config/app-config.js';
+import { ValidationError } from '../../../shared/errors/base-error.js';
+import { logger } from '../../../shared/utils/logger.js';
+
+const PREFERENCE_TYPES: readonly string[] = appConfig.notifications.preferences.types;
+const PREFERENCE_CHANNELS: readonly string[] = appConfig.notifications.preferences.channels;
+
+export interface NotificationPreferencesUpdate {
+  deliveryMode?: NotificationDeliveryMode | undefined;
+  preferences?: NotificationPreference[] | undefined;
+}
+
+/**
+ * Casos de uso de preferências de notificação
+ * Responsabilidade: consultar/alterar opt-outs e modo de entrega e processar descadastros
+ */
+export class NotificationPreferenceUseCases {
+  constructor(
+    private preferenceRepository: INotificationPreferenceRepository,
+    private unsubscribeTokens: UnsubscribeTokenService
+  ) {}
+
+  /**
+   * Preferências do usuário para todos os tipos e canais (padrão: habilitado)
+   */
+  async getPreferences(userId: string): Promise<NotificationPreferences> {
+    const [records, deliveryMode] = await Promise.all([
+      this.preferenceRepository.findByUserId(userId),
+      this.preferenceRepository.getDeliveryMode(userId),
+    ]);
+
+    const preferences = PREFERENCE_TYPES.flatMap((type) =>
+      PREFERENCE_CHANNELS.map((channel) => ({
+        type,
+        channel: channel as NotificationChannel,
+        enabled: records.find((record) => record.notification_type === type && record.channel === channel)?.enabled ?? true,
+      }))
+    );
+
+    return { userId, deliveryMode, preferences };
+  }
+
+  /**
+   * Atualiza preferências e/ou modo de entrega
+   */
+  async updatePreferences(userId: string, update: NotificationPreferencesUpdate): Promise<NotificationPreferences> {
+    const invalid = (update.preferences ?? []).filter(
+      (preference) => !PREFERENCE_TYPES.includes(preference.type) || !PREFERENCE_CHANNELS.includes(preference.channel)
+    );
+
+    if (invalid.length > 0) {
+      throw new ValidationError('Tipo ou canal de notificação inválido', {
+        invalid,
+        types: PREFERENCE_TYPES,
+        channels: PREFERENCE_CHANNELS,
+      });
+    }
+
+    if (update.deliveryMode) {
+      await this.preferenceRepository.setDeliveryMode(userId, update.deliveryMode);
+    }
+    await this.preferenceRepository.upsert(userId, update.preferences ?? []);
+
+    logger.info(`⚙️ Preferências de notificação atualizadas para o usuário ${userId}`, {
+      deliveryMode: update.deliveryMode,
+      preferences: update.preferences,
+    });
+    return this.getPreferences(userId);
+  }
+
+  /**
+   * Valida um token de descadastro sem alterar nada (página de confirmação)
+   */
+  verifyUnsubscribeToken(token: string): UnsubscribeTokenPayload {
+    return this.unsubscribeTokens.verify(token);
+  }
+
+  /**
+   * Descadastra o usuário dos tipos indicados no link assinado
+   */
+  async unsubscribe(token: string): Promise<UnsubscribeTokenPayload> {
+    const payload = this.unsubscribeTokens.verify(token);
+    const types = payload.types.filter((type) => PREFERENCE_TYPES.includes(type));
+
+    await this.preferenceRepository.disable(payload.userId, types, payload.channel);
+
+    logger.info(`🚫 Usuário ${payload.userId} descadastrado`, { types, channel: payload.channel });
+    return { ...payload, types };
+  }
+}
@@ -0,0 +1,32 @@
+import type { INotificationRepository, NotificationPage } from '../domain/repositories/notification-repository.js';
+import type { NotificationRecord } from '../../../shared/types/notification.js';
+import { logger } from '../../../shared/utils/logger.js';
+
+/**
+ * Casos de uso de administração da fila de notificações
+ * Responsabilidade: consultar e reenfileirar notificações em dead-letter
+ */
+export class NotificationQueueUseCases {
+  constructor(private notificationRepository: INotificationRepository) {}
+
+  /**
+   * Lista notificações que falharam permanentemente
+   */
+  async listDeadLetters(limit: number, offset: number): Promise<NotificationPage> {
+    return this.notificationRepository.listByStatus('dead_letter', limit, offset);
+  }
+
+  /**
+   * Devolve uma notificação em dead-letter para a fila com tentativas zeradas
+   * Retorna null se a notificação não existir ou não estiver em dead-letter
+   */
+  async requeueDeadLetter(notificationId: string): Promise<NotificationRecord | null> {
+    const notification = await this.notificationRepository.requeue(notificationId, 'dead_letter');
+
+    if (notification) {
+      logger.info(`🔄 Notificação ${notificationId} reenfileirada a partir do dead-letter`);
+    }
+
+    return notification;
+  }
+}
@@ -0,0 +1,42 @@
+import { appConfig } from '../../../shared/config/app-config.js';
+import { getLocalTime, nextLocalTime, nowUTC, parseTimeOfDay } from '../../../shared/utils/date-utils.js';
+
+type QuietHoursConfig = NonNullable<typeof appConfig.notifications.quietHours>;
+
+/**
+ * Horário de silêncio das notificações
+ * Responsabilidade: decidir se um envio cai no silêncio do destinatário e até quando adiá-lo
+ */
+export class QuietHoursPolicy {
+  constructor(private config: QuietHoursConfig | null = appConfig.notifications.quietHours) {}
+
+  /**
+   * Retorna o fim do silêncio (instante UTC) se `at` estiver dentro do intervalo
+   * no fuso do destinatário, ou null se o envio puder acontecer agora
+   * Intervalos que cruzam a meia-noite (ex.: 22:00 → 07:00) são suportados
+   */
+  deferUntil(timezone: string, at: Date = nowUTC()): Date | null {
+    if (!this.config) return null;
+
+    const start = parseClock(this.config.start);
+    const end = parseClock(this.config.end);
+    if (start === end) return null;
+
+    const { hours, minutes } = getLocalTime(at, timezone);
+    const current = hours * 60 + minutes;
+
+    const isQuiet = start < end
+      ? current >= start && current < end
+      : current >= start || current < end;
+
+    return isQuiet ? nextLocalTime(at, timezone, Math.floor(end / 60), end % 60) : null;
+  }
+}
+
+/**
+ * Converte "HH:mm" em minutos desde a meia-noite
+ */
+function parseClock(value: string): number {
+  const { hours, minutes } = parseTimeOfDay(value);
+  return hours * 60 + minutes;
+}
@@ -0,0 +1,87 @@
+import type { IRecipientRepository } from '../domain/repositories/recipient-repository.js';
+import type { NotificationRecipient, RecipientResolution } from '../../../shared/types/notification.js';
+import { getRecipientPolicy } from '../../../shared/config/app-config.js';
+import { logger } from '../../../shared/utils/logger.js';
+
+type RecipientPolicy = ReturnType<typeof getRecipientPolicy>;
+
+/**
+ * Resolve o destinatário real de uma notificação
+ * Responsabilidade: buscar o endereço do usuário e aplicar a política do ambiente
+ */
+export class RecipientResolver {
+  private cache = new Map<string, NotificationRecipient | null>();
+
+  constructor(
+    private recipientRepository: IRecipientRepository,
+    private policy: RecipientPolicy = getRecipientPolicy()
+  ) {}
+
+  /**
+   * Resolve o destinatário para o user_id da notificação
+   */
+  async resolve(userId: string | null | undefined): Promise<RecipientResolution> {
+    if (!userId) {
+      return {
+        success: false,
+        reason: 'recipient_not_found',
+        message: 'Notificação sem user_id',
+      };
+    }
+
+    const recipient = await this.findRecipient(userId);
+
+    if (!recipient) {
+      return {
+        success: false,
+        reason: 'recipient_not_found',
+        message: `Nenhum email encontrado para o usuário ${userId}`,
+      };
+    }
+
+    if (this.policy.redirectTo) {
+      logger.info('📮 Destinatário redirecionado (fora de produção)', {
+        userId,
+        redirectTo: this.policy.redirectTo,
+      });
+      return { success: true, recipient, to: this.policy.redirectTo, redirected: true };
+    }
+
+    if (this.policy.allowlist.length > 0 && !this.isAllowed(recipient.email)) {
+      return {
+        success: false,
+        reason: 'recipient_not_allowed',
+        message: `Endereço de ${userId} fora da allowlist deste ambiente`,
+      };
+    }
+
+    return { success: true, recipient, to: recipient.email, redirected: false };
+  }
+
+  /**
+   * Limpa o cache de destinatários (ex.: entre execuções)
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async findRecipient(userId: string): Promise<NotificationRecipient | null> {
+    if (this.cache.has(userId)) {
+      return this.cache.get(userId) ?? null;
+    }
+
+    const recipient = await this.recipientRepository.findByUserId(userId);
+    this.cache.set(userId, recipient);
+    return recipient;
+  }
+
+  /**
+   * Entradas da allowlist podem ser endereços completos ou domínios ("@dominio.com")
+   */
+  private isAllowed(email: string): boolean {
+    const normalized = email.toLowerCase();
+    return this.policy.allowlist.some((entry) =>
+      entry.startsWith('@') ? normalized.endsWith(entry) : normalized === entry
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import type { EmailResponse } from '../../../shared/types/email.js';
+import { appConfig } from '../../../shared/config/app-config.js';
+import { nowUTC } from '../../../shared/utils/date-utils.js';
+import { BaseError } from '../../../shared/errors/base-error.js';
+
+type RetryConfig = typeof appConfig.notifications.retry;
+
+/**
+ * Tipo de falha no envio
+ * - transient: rate limit, 5xx, rede (pode ser retentada)
+ * - permanent: endereço inválido, template ausente (vai para dead-letter)
+ */
+export type FailureKind = 'transient' | 'permanent';
+
+/**
+ * Política de retentativas com backoff exponencial
+ * Responsabilidade: decidir se e quando uma notificação falha deve ser retentada
+ */
+export class RetryPolicy {
+  constructor(private config: RetryConfig = appConfig.notifications.retry) {}
+
+  /**
+   * Classifica a falha retornada pelo serviço de email
+   * Falhas sem classificação do provedor são tratadas como transitórias
+   */
+  classify(response: EmailResponse): FailureKind {
+    return response.retryable === false ? 'permanent' : 'transient';
+  }
+
+  /**
+   * Classifica um erro ao preparar a notificação (antes do envio)
+   * Erros operacionais (ex.: template com sintaxe inválida) se repetem a cada tentativa;
+   * os demais (banco, rede) são tratados como transitórios
+   */
+  classifyError(error: unknown): FailureKind {
+    return error instanceof BaseError && error.isOperational ? 'permanent' : 'transient';
+  }
+
+  /**
+   * Verifica se ainda há tentativas disponíveis após `attemptCount` tentativas
+   */
+  canRetry(attemptCount: number): boolean {
+    return attemptCount < this.config.maxAttempts;
+  }
+
+  /**
+   * Calcula o horário da próxima tentativa após `attemptCount` tentativas
+   */
+  nextAttemptAt(attemptCount: number, from: Date = nowUTC()): Date {
+    const exponent = Math.max(0, attemptCount - 1);
+    const delaySeconds = Math.min(this.config.maxDelaySeconds, this.config.baseDelaySeconds * 2 ** exponent);
+    return new Date(from.getTime() + delaySeconds * 1000);
+  }
+}
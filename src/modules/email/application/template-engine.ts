@@ -0,0 +1,423 @@
+import { ValidationError } from '../../../shared/errors/base-error.js';
+import {
+  formatBrazilian,
+  formatDateForLocale,
+  formatDateTimeForLocale,
+  formatInTimezone,
+} from '../../../shared/utils/date-utils.js';
+
+/**
+ * Variáveis disponíveis para um template (valores aninhados e listas são permitidos)
+ */
+export type TemplateVariables = Record<string, unknown>;
+
+export interface TemplateRenderOptions {
+  // Escapa HTML nas interpolações {{var}} (padrão: true). Use false para assunto e texto puro
+  escape?: boolean;
+  // Lança MissingTemplateVariablesError se alguma interpolação não tiver valor
+  strict?: boolean;
+  // Locale e fuso usados pelos filtros de data (padrão: pt-BR e horário de Brasília)
+  locale?: string | undefined;
+  timezone?: string | undefined;
+}
+
+export interface TemplateRenderResult {
+  output: string;
+  missingVariables: string[];
+}
+
+/**
+ * Erro de sintaxe no template (bloco não fechado, filtro desconhecido etc.)
+ */
+export class TemplateSyntaxError extends ValidationError {
+  constructor(message: string, public readonly line: number) {
+    super(`${message} (linha ${line})`, { line });
+  }
+}
+
+/**
+ * Erro de renderização em modo estrito: variáveis interpoladas sem valor
+ */
+export class MissingTemplateVariablesError extends ValidationError {
+  constructor(public readonly missingVariables: string[]) {
+    super(`Variáveis ausentes no template: ${missingVariables.join(', ')}`, { missingVariables });
+  }
+}
+
+type Argument = { kind: 'literal'; value: string | number } | { kind: 'path'; path: string };
+
+interface FilterCall {
+  name: string;
+  args: Argument[];
+}
+
+interface Expression {
+  path: string;
+  filters: FilterCall[];
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'output'; expression: Expression; raw: boolean }
+  | { type: 'if'; path: string; then: TemplateNode[]; else: TemplateNode[] }
+  | { type: 'each'; path: string; body: TemplateNode[]; else: TemplateNode[] };
+
+type FilterContext = Pick<TemplateRenderOptions, 'locale' | 'timezone'>;
+
+type TemplateFilter = (value: unknown, args: unknown[], context: FilterContext) => unknown;
+
+/**
+ * Filtros disponíveis via `{{valor | filtro arg}}`
+ */
+const FILTERS: Record<string, TemplateFilter> = {
+  // {{due_date | date}} → 25/12/2026 (pt-BR) / 12/25/2026 (en-US); {{due_date | date "dd/MM HH:mm"}}
+  // Valores que não são datas válidas (ex.: já formatados) saem sem alteração
+  date: (value, [format], { locale, timezone }) =>
+    formatDateValue(value, (date) => {
+      if (typeof format !== 'string') return formatDateForLocale(date, locale, timezone);
+      return timezone ? formatInTimezone(date, timezone, format) : formatBrazilian(date, format);
+    }),
+  datetime: (value, _args, { locale, timezone }) =>
+    formatDateValue(value, (date) => formatDateTimeForLocale(date, locale, timezone)),
+  // {{days_overdue | plural "dia" "dias"}} → 1 dia / 5 dias
+  plural: (value, [singular, plural]) => {
+    if (!isPresent(value)) return value;
+    const count = Number(value);
+    return `${value} ${Math.abs(count) === 1 ? singular : plural ?? singular}`;
+  },
+  upper: (value) => (isPresent(value) ? String(value).toUpperCase() : value),
+  lower: (value) => (isPresent(value) ? String(value).toLowerCase() : value),
+  default: (value, [fallback]) => (isPresent(value) && value !== '' ? value : fallback),
+};
+
+// Limite de templates compilados em cache (os templates ativos são poucos)
+const MAX_CACHED_TEMPLATES = 100;
+
+const TAG_REGEX = /\{\{\{\s*([\s\S]*?)\s*\}\}\}|\{\{\s*([\s\S]*?)\s*\}\}/g;
+const ARGUMENT_REGEX = /"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|(\|)|([^\s|]+)/g;
+const PATH_REGEX = /^(?:this|@index|@first|@last|[A-Za-z_][\w-]*)(?:\.[A-Za-z_][\w-]*)*$/;
+
+/**
+ * Motor de templates de email
+ * Suporta {{var}}, {{{raw}}}, {{#if}}/{{else}}, {{#each}} (com this e @index),
+ * comentários {{! ... }} e filtros ({{valor | date}})
+ */
+export class TemplateEngine {
+  private cache = new Map<string, TemplateNode[]>();
+
+  /**
+   * Valida a sintaxe de um template sem renderizá-lo
+   * Lança TemplateSyntaxError com a linha do problema
+   */
+  compile(source: string): void {
+    this.parse(source);
+  }
+
+  /**
+   * Lista as variáveis de nível superior referenciadas pelo template, inclusive as usadas
+   * dentro de {{#each}}
+   * Dentro de um {{#each}}, `this`, `@index` e os campos do item são locais ao laço; os campos
+   * do item vêm dos itens da lista em `variables` (sem exemplo, todos os nomes são listados)
+   */
+  listVariables(source: string, variables: TemplateVariables = {}): string[] {
+    const found = new Set<string>();
+    const walk = (nodes: TemplateNode[], scopes: Scope[]) => {
+      const collect = (path: string) => {
+        const head = path.split('.')[0]!;
+        if (head === 'this' || head.startsWith('@')) return;
+        if (scopes.slice(1).some((scope) => isRecord(scope.value) && Object.hasOwn(scope.value, head))) return;
+        found.add(head);
+      };
+
+      for (const node of nodes) {
+        if (node.type === 'output') {
+          collect(node.expression.path);
+          node.expression.filters.forEach((filter) => filter.args.forEach((arg) => arg.kind === 'path' && collect(arg.path)));
+        } else if (node.type === 'if') {
+          collect(node.path);
+          walk(node.then, scopes);
+          walk(node.else, scopes);
+        } else if (node.type === 'each') {
+          collect(node.path);
+          walk(node.body, [...scopes, { value: sampleItem(lookup(node.path, scopes)), data: {} }]);
+          walk(node.else, scopes);
+        }
+      }
+    };
+
+    walk(this.parse(source), [{ value: variables, data: {} }]);
+    return [...found];
+  }
+
+  /**
+   * Renderiza o template com as variáveis informadas
+   */
+  render(source: string, variables: TemplateVariables, options: TemplateRenderOptions = {}): TemplateRenderResult {
+    if (!source) return { output: '', missingVariables: [] };
+
+    const missing = new Set<string>();
+    const context: FilterContext = { locale: options.locale, timezone: options.timezone };
+    const output = this.renderNodes(this.parse(source), [{ value: variables, data: {} }], options.escape ?? true, missing, context);
+    const missingVariables = [...missing];
+
+    if (options.strict && missingVariables.length > 0) {
+      throw new MissingTemplateVariablesError(missingVariables);
+    }
+
+    return { output, missingVariables };
+  }
+
+  private parse(source: string): TemplateNode[] {
+    const cached = this.cache.get(source);
+    if (cached) return cached;
+
+    const root: TemplateNode[] = [];
+    // Pilha de blocos abertos; `target` aponta para o ramo (then/else) em preenchimento
+    const stack: Array<{ node: Extract<TemplateNode, { type: 'if' | 'each' }>; target: TemplateNode[]; line: number; inElse: boolean }> = [];
+    const current = () => (stack.length > 0 ? stack[stack.length - 1]!.target : root);
+    const lineAt = (index: number) => source.slice(0, index).split('\n').length;
+
+    let lastIndex = 0;
+    for (const match of source.matchAll(TAG_REGEX)) {
+      const index = match.index ?? 0;
+      const line = lineAt(index);
+
+      if (index > lastIndex) {
+        current().push({ type: 'text', value: source.slice(lastIndex, index) });
+      }
+      lastIndex = index + match[0].length;
+
+      if (match[1] !== undefined) {
+        current().push({ type: 'output', expression: this.parseExpression(match[1], line), raw: true });
+        continue;
+      }
+
+      const tag = match[2] ?? '';
+
+      if (tag.startsWith('!')) continue;
+
+      if (tag.startsWith('#')) {
+        const [keyword, path, ...rest] = tag.slice(1).trim().split(/\s+/);
+        if (keyword !== 'if' && keyword !== 'each') {
+          throw new TemplateSyntaxError(`Bloco desconhecido: {{#${keyword}}}`, line);
+        }
+        if (!path || rest.length > 0 || !PATH_REGEX.test(path)) {
+          throw new TemplateSyntaxError(`Bloco {{#${keyword}}} requer exatamente uma variável`, line);
+        }
+        const node: Extract<TemplateNode, { type: 'if' | 'each' }> = keyword === 'if'
+          ? { type: 'if', path, then: [], else: [] }
+          : { type: 'each', path, body: [], else: [] };
+        current().push(node);
+        stack.push({ node, target: node.type === 'if' ? node.then : node.body, line, inElse: false });
+        continue;
+      }
+
+      if (tag === 'else') {
+        const open = stack[stack.length - 1];
+        if (!open || open.inElse) {
+          throw new TemplateSyntaxError('{{else}} fora de um bloco {{#if}} ou {{#each}}', line);
+        }
+        open.target = open.node.else;
+        open.inElse = true;
+        continue;
+      }
+
+      if (tag.startsWith('/')) {
+        const keyword = tag.slice(1).trim();
+        const open = stack.pop();
+        if (!open) {
+          throw new TemplateSyntaxError(`{{/${keyword}}} sem bloco correspondente`, line);
+        }
+        if (open.node.type !== keyword) {
+          throw new TemplateSyntaxError(`{{/${keyword}}} fecha o bloco {{#${open.node.type}}} aberto na linha ${open.line}`, line);
+        }
+        continue;
+      }
+
+      current().push({ type: 'output', expression: this.parseExpression(tag, line), raw: false });
+    }
+
+    const unclosed = stack.pop();
+    if (unclosed) {
+      throw new TemplateSyntaxError(`Bloco {{#${unclosed.node.type}}} não foi fechado`, unclosed.line);
+    }
+
+    if (lastIndex < source.length) {
+      root.push({ type: 'text', value: source.slice(lastIndex) });
+    }
+
+    if (this.cache.size >= MAX_CACHED_TEMPLATES) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    this.cache.set(source, root);
+    return root;
+  }
+
+  private parseExpression(expression: string, line: number): Expression {
+    const tokens = [...expression.matchAll(ARGUMENT_REGEX)];
+    const segments: Argument[][] = [[]];
+
+    for (const token of tokens) {
+      if (token[3]) {
+        segments.push([]);
+        continue;
+      }
+      const segment = segments[segments.length - 1]!;
+      if (token[1] !== undefined || token[2] !== undefined) {
+        segment.push({ kind: 'literal', value: (token[1] ?? token[2] ?? '').replace(/\\(.)/g, '$1') });
+      } else if (/^-?\d+(\.\d+)?$/.test(token[4]!)) {
+        segment.push({ kind: 'literal', value: Number(token[4]) });
+      } else {
+        segment.push({ kind: 'path', path: token[4]! });
+      }
+    }
+
+    const [head, ...filterSegments] = segments;
+    const target = head?.[0];
+    if (!head || head.length !== 1 || target?.kind !== 'path' || !PATH_REGEX.test(target.path)) {
+      throw new TemplateSyntaxError(`Expressão inválida: {{${expression}}}`, line);
+    }
+
+    const filters = filterSegments.map((segment) => {
+      const [name, ...args] = segment;
+      if (name?.kind !== 'path' || !FILTERS[name.path]) {
+        throw new TemplateSyntaxError(`Filtro desconhecido em {{${expression}}}`, line);
+      }
+      return { name: name.path, args };
+    });
+
+    return { path: target.path, filters };
+  }
+
+  private renderNodes(
+    nodes: TemplateNode[],
+    scopes: Scope[],
+    escape: boolean,
+    missing: Set<string>,
+    context: FilterContext
+  ): string {
+    let output = '';
+
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text':
+          output += node.value;
+          break;
+
+        case 'output': {
+          let value = lookup(node.expression.path, scopes);
+          for (const filter of node.expression.filters) {
+            const args = filter.args.map((arg) => (arg.kind === 'literal' ? arg.value : lookup(arg.path, scopes)));
+            value = FILTERS[filter.name]!(value, args, context);
+          }
+          if (!isPresent(value)) {
+            missing.add(node.expression.path);
+            break;
+          }
+          const text = value instanceof Date ? value.toISOString() : String(value);
+          output += escape && !node.raw ? escapeHtml(text) : text;
+          break;
+        }
+
+        case 'if':
+          output += this.renderNodes(isTruthy(lookup(node.path, scopes)) ? node.then : node.else, scopes, escape, missing, context);
+          break;
+
+        case 'each': {
+          const items = lookup(node.path, scopes);
+          if (!Array.isArray(items) || items.length === 0) {
+            output += this.renderNodes(node.else, scopes, escape, missing, context);
+            break;
+          }
+          items.forEach((item, index) => {
+            const data = { index, first: index === 0, last: index === items.length - 1 };
+            output += this.renderNodes(node.body, [...scopes, { value: item, data }], escape, missing, context);
+          });
+          break;
+        }
+      }
+    }
+
+    return output;
+  }
+}
+
+interface Scope {
+  value: unknown;
+  data: { index?: number; first?: boolean; last?: boolean };
+}
+
+/**
+ * Resolve um caminho (`a.b`, `this`, `@index`) do escopo mais interno para o mais externo
+ */
+function lookup(path: string, scopes: Scope[]): unknown {
+  const innermost = scopes[scopes.length - 1]!;
+
+  if (path.startsWith('@')) {
+    return innermost.data[path.slice(1) as keyof Scope['data']];
+  }
+
+  const [head, ...rest] = path.split('.');
+  let value: unknown;
+
+  if (head === 'this') {
+    value = innermost.value;
+  } else {
+    const scope = [...scopes].reverse().find((s) => isRecord(s.value) && Object.hasOwn(s.value, head!));
+    value = scope ? (scope.value as Record<string, unknown>)[head!] : undefined;
+  }
+
+  for (const key of rest) {
+    value = isRecord(value) ? value[key] : undefined;
+  }
+
+  return value;
+}
+
+function formatDateValue(value: unknown, format: (date: Date | string) => string): unknown {
+  if (!isPresent(value)) return value;
+
+  try {
+    return format(value instanceof Date ? value : String(value));
+  } catch (error) {
+    // date-fns lança RangeError para datas inválidas
+    if (error instanceof RangeError) return value;
+    throw error;
+  }
+}
+
+/**
+ * Campos de todos os itens de uma lista de exemplo (formato do item dentro do {{#each}})
+ */
+function sampleItem(items: unknown): Record<string, unknown> {
+  return Array.isArray(items) ? Object.assign({}, ...items.filter(isRecord)) : {};
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPresent(value: unknown): boolean {
+  return value !== undefined && value !== null;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+/**
+ * Escapa texto para uso em HTML (conteúdo e atributos)
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Instância compartilhada (mantém o cache de templates já compilados)
+ */
+export const templateEngine = new TemplateEngine();
@@ -0,0 +1,89 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { appConfig, getPublicApiUrl } from '../../../shared/config/app-config.js';
+import { ValidationError } from '../../../shared/errors/base-error.js';
+import type { NotificationChannel } from '../../../shared/types/notification.js';
+
+/**
+ * Conteúdo assinado de um link de descadastro
+ */
+export interface UnsubscribeTokenPayload {
+  userId: string;
+  types: string[];
+  channel: NotificationChannel;
+}
+
+/**
+ * Links de descadastro em um clique
+ * Responsabilidade: assinar e verificar os tokens (HMAC-SHA256) e montar a URL e os
+ * cabeçalhos List-Unsubscribe dos emails
+ */
+export class UnsubscribeTokenService {
+  constructor(
+    private secret: string | undefined = appConfig.notifications.unsubscribe.secret,
+    private baseUrl: string = `${getPublicApiUrl()}${appConfig.notifications.unsubscribe.path}`
+  ) {}
+
+  /**
+   * Indica se os links podem ser gerados (segredo configurado)
+   */
+  get enabled(): boolean {
+    return !!this.secret;
+  }
+
+  sign(payload: UnsubscribeTokenPayload): string {
+    const body = Buffer.from(JSON.stringify({ u: payload.userId, t: payload.types, c: payload.channel })).toString('base64url');
+    return `${body}.${this.signature(body)}`;
+  }
+
+  /**
+   * Valida a assinatura e retorna o conteúdo do token
+   */
+  verify(token: string): UnsubscribeTokenPayload {
+    const [body, signature] = token.split('.');
+
+    if (!this.secret || !body || !signature) {
+      throw new ValidationError('Link de descadastro inválido');
+    }
+
+    const expected = Buffer.from(this.signature(body));
+    const received = Buffer.from(signature);
+
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      throw new ValidationError('Link de descadastro inválido');
+    }
+
+    try {
+      const decoded = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as { u?: unknown; t?: unknown; c?: unknown };
+
+      if (typeof decoded.u !== 'string' || !Array.isArray(decoded.t) || decoded.c !== 'email') {
+        throw new Error('payload');
+      }
+
+      return { userId: decoded.u, types: decoded.t.map(String), channel: decoded.c };
+    } catch {
+      throw new ValidationError('Link de descadastro inválido');
+    }
+  }
+
+  /**
+   * URL de descadastro, ou null se os links estiverem desabilitados
+   */
+  buildUrl(payload: UnsubscribeTokenPayload): string | null {
+    if (!this.enabled) return null;
+    return `${this.baseUrl}?token=${this.sign(payload)}`;
+  }
+
+  /**
+   * Cabeçalhos de descadastro em um clique (RFC 2369 / RFC 8058)
+   */
+  buildHeaders(url: string): Record<string, string> {
+    return {
+      'List-Unsubscribe': `<${url}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    };
+  }
+
+  private signature(body: string): string {
+    return createHmac('sha256', this.secret!).update(body).digest('base64url');
+  }
+}
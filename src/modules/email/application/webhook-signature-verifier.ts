@@ -0,0 +1,61 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { appConfig } from '../../../shared/config/app-config.js';
+import { UnauthorizedError } from '../../../shared/errors/base-error.js';
+import { nowUTC } from '../../../shared/utils/date-utils.js';
+
+/**
+ * Cabeçalhos de assinatura enviados pelo Svix (usado pelo Resend)
+ */
+export interface WebhookSignatureHeaders {
+  id?: string | undefined;
+  timestamp?: string | undefined;
+  signature?: string | undefined;
+}
+
+/**
+ * Verificação de assinatura de webhooks no formato Svix
+ * Responsabilidade: garantir que o corpo recebido foi assinado pelo provedor e é recente
+ *
+ * O conteúdo assinado é `<id>.<timestamp>.<corpo bruto>` com HMAC-SHA256 e a chave
+ * em base64 após o prefixo `whsec_`; o cabeçalho traz uma ou mais assinaturas `v1,<base64>`.
+ */
+export class WebhookSignatureVerifier {
+  constructor(
+    private secret: string | undefined = appConfig.email.webhooks.resendSecret,
+    private toleranceSeconds: number = appConfig.email.webhooks.toleranceSeconds
+  ) {}
+
+  verify(headers: WebhookSignatureHeaders, rawBody: string, at: Date = nowUTC()): void {
+    if (!this.secret) {
+      throw new UnauthorizedError('Webhook não configurado');
+    }
+
+    const { id, timestamp, signature } = headers;
+
+    if (!id || !timestamp || !signature) {
+      throw new UnauthorizedError('Cabeçalhos de assinatura ausentes');
+    }
+
+    const timestampSeconds = Number(timestamp);
+
+    if (!Number.isFinite(timestampSeconds) || Math.abs(at.getTime() / 1000 - timestampSeconds) > this.toleranceSeconds) {
+      throw new UnauthorizedError('Timestamp do webhook fora da tolerância', { timestamp });
+    }
+
+    const key = Buffer.from(this.secret.slice('whsec_'.length), 'base64');
+    const expected = Buffer.from(createHmac('sha256', key).update(`${id}.${timestamp}.${rawBody}`).digest('base64'));
+
+    const valid = signature
+      .split(' ')
+      .map((entry) => entry.split(','))
+      .some(([version, value]) => {
+        if (version !== 'v1' || !value) return false;
+        const received = Buffer.from(value);
+        return received.length === expected.length && timingSafeEqual(received, expected);
+      });
+
+    if (!valid) {
+      throw new UnauthorizedError('Assinatura do webhook inválida');
+    }
+  }
+}
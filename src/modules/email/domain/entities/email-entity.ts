@@ -1,6 +1,27 @@
 import { randomUUID } from 'crypto';
 import { nowUTC } from '../../../../shared/utils/date-utils.js';
 
+export type EmailStatus = 'pending' | 'sent' | 'failed' | 'suppressed';
+
+/**
+ * Origem do email (template e notificações que o geraram)
+ */
+export interface EmailMetadata {
+  templateKey?: string | null | undefined;
+  userId?: string | null | undefined;
+  notificationIds?: string[] | undefined;
+}
+
+/**
+ * Resultado da tentativa de envio
+ */
+export interface EmailDelivery {
+  provider?: string | null | undefined;
+  providerMessageId?: string | null | undefined;
+  error?: string | null | undefined;
+  sentAt?: Date | null | undefined;
+}
+
 /**
  * Entidade de Email para o domínio
  * Representa um email no sistema
@@ -15,7 +36,9 @@ export class EmailEntity {
     public readonly text?: string,
     public readonly replyTo?: string,
     public readonly createdAt: Date = nowUTC(),
-    public readonly status: 'pending' | 'sent' | 'failed' = 'pending'
+    public readonly status: EmailStatus = 'pending',
+    public readonly metadata: EmailMetadata = {},
+    public readonly delivery: EmailDelivery = {}
   ) {}
 
   /**
@@ -26,8 +49,9 @@ export class EmailEntity {
     to: string[];
     subject: string;
     html: string;
-    text?: string;
-    replyTo?: string;
+    text?: string | undefined;
+    replyTo?: string | undefined;
+    metadata?: EmailMetadata | undefined;
   }): EmailEntity {
     return new EmailEntity(
       randomUUID(),
@@ -36,31 +60,35 @@ export class EmailEntity {
       data.subject,
       data.html,
       data.text,
-      data.replyTo
+      data.replyTo,
+      nowUTC(),
+      'pending',
+      data.metadata ?? {}
     );
   }
 
   /**
    * Marca o email como enviado
    */
-  markAsSent(): EmailEntity {
-    return new EmailEntity(
-      this.id,
-      this.from,
-      this.to,
-      this.subject,
-      this.html,
-      this.text,
-      this.replyTo,
-      this.createdAt,
-      'sent'
-    );
+  markAsSent(provider: string, providerMessageId?: string | null): EmailEntity {
+    return this.withStatus('sent', { provider, providerMessageId: providerMessageId ?? null, sentAt: nowUTC() });
   }
 
   /**
    * Marca o email como falhou
    */
-  markAsFailed(): EmailEntity {
+  markAsFailed(provider: string, error: string): EmailEntity {
+    return this.withStatus('failed', { provider, error });
+  }
+
+  /**
+   * Marca o email como bloqueado pela lista de supressão (o provedor não foi chamado)
+   */
+  markAsSuppressed(error: string): EmailEntity {
+    return this.withStatus('suppressed', { error });
+  }
+
+  private withStatus(status: EmailStatus, delivery: EmailDelivery): EmailEntity {
     return new EmailEntity(
       this.id,
       this.from,
@@ -70,7 +98,9 @@ export class EmailEntity {
       this.text,
       this.replyTo,
       this.createdAt,
-      'failed'
+      status,
+      this.metadata,
+      delivery
     );
   }
-} 
\ No newline at end of file
+}
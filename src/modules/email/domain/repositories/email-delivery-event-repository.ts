@@ -0,0 +1,12 @@
+import type { EmailDeliveryEvent } from '../../../../shared/types/email.js';
+
+/**
+ * Repositório de eventos de entrega de email
+ * Responsabilidade: guardar os eventos recebidos do provedor por id de mensagem
+ */
+export interface IEmailDeliveryEventRepository {
+  /**
+   * Registra o evento; retorna false se o mesmo evento já foi recebido (reentrega do webhook)
+   */
+  record(event: EmailDeliveryEvent): Promise<boolean>;
+}
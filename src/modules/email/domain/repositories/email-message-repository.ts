@@ -0,0 +1,19 @@
+import type { EmailEntity } from '../entities/email-entity.js';
+import type { EmailMessageFilters, EmailMessageRecord } from '../../../../shared/types/email.js';
+
+/**
+ * Página do histórico de emails
+ */
+export interface EmailMessagePage {
+  messages: EmailMessageRecord[];
+  total: number;
+}
+
+/**
+ * Repositório do histórico de emails enviados
+ * Responsabilidade: guardar cada tentativa de envio e permitir a busca para suporte
+ */
+export interface IEmailMessageRepository {
+  save(messages: EmailEntity[]): Promise<void>;
+  search(filters: EmailMessageFilters, limit: number, offset: number): Promise<EmailMessagePage>;
+}
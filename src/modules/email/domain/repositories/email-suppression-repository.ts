@@ -0,0 +1,29 @@
+import type { EmailSuppression, EmailSuppressionReason, EmailSuppressionRecord } from '../../../../shared/types/email.js';
+
+/**
+ * Página da lista de supressão
+ */
+export interface EmailSuppressionPage {
+  suppressions: EmailSuppressionRecord[];
+  total: number;
+}
+
+/**
+ * Repositório da lista de supressão de emails
+ * Responsabilidade: manter os endereços que não devem mais receber emails
+ */
+export interface IEmailSuppressionRepository {
+  /**
+   * Supressões entre os endereços informados (comparação sem diferenciar maiúsculas)
+   */
+  findByEmails(emails: string[]): Promise<EmailSuppressionRecord[]>;
+  list(limit: number, offset: number, reason?: EmailSuppressionReason): Promise<EmailSuppressionPage>;
+  /**
+   * Adiciona o endereço; retorna false se ele já estava suprimido (registro mantido)
+   */
+  add(suppression: EmailSuppression): Promise<boolean>;
+  /**
+   * Remove o endereço; retorna false se ele não estava suprimido
+   */
+  remove(email: string): Promise<boolean>;
+}
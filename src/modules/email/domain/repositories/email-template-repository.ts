@@ -0,0 +1,12 @@
+import type { EmailTemplateRecord } from '../../../../shared/types/notification.js';
+
+/**
+ * Repositório de templates de email
+ * Responsabilidade: localizar templates por chave
+ */
+export interface IEmailTemplateRepository {
+  // Segue a cadeia de fallback do locale (ex.: es-AR → es → pt-BR)
+  findActiveByKey(templateKey: string, locale?: string): Promise<EmailTemplateRecord | null>;
+  // Inclui templates inativos (edição e preview)
+  findByKey(templateKey: string, locale?: string): Promise<EmailTemplateRecord | null>;
+}
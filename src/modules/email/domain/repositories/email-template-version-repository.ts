@@ -0,0 +1,31 @@
+import type {
+  EmailTemplateEventAction,
+  EmailTemplateEventRecord,
+  EmailTemplateVersionRecord,
+} from '../../../../shared/types/notification.js';
+
+/**
+ * Conteúdo editável de uma versão de template
+ * `locale` só é considerado na criação do rascunho (padrão: pt-BR)
+ */
+export interface EmailTemplateVersionContent {
+  locale?: string | undefined;
+  subject_template: string;
+  html_template: string;
+  available_variables?: string[] | null | undefined;
+  change_note?: string | null | undefined;
+}
+
+/**
+ * Repositório de versões de templates de email
+ * Responsabilidade: rascunhos, publicação atômica e histórico de alterações
+ */
+export interface IEmailTemplateVersionRepository {
+  listByKey(templateKey: string): Promise<EmailTemplateVersionRecord[]>;
+  findByVersion(templateKey: string, version: number): Promise<EmailTemplateVersionRecord | null>;
+  createDraft(templateKey: string, content: EmailTemplateVersionContent, actor: string): Promise<EmailTemplateVersionRecord>;
+  // Só altera versões ainda em draft; retorna null caso contrário
+  updateDraft(versionId: string, content: EmailTemplateVersionContent, actor: string): Promise<EmailTemplateVersionRecord | null>;
+  publish(versionId: string, actor: string, action: Extract<EmailTemplateEventAction, 'published' | 'rolled_back'>): Promise<EmailTemplateVersionRecord>;
+  listEvents(templateKey: string, limit: number): Promise<EmailTemplateEventRecord[]>;
+}
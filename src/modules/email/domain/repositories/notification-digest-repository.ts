@@ -0,0 +1,14 @@
+import type { NotificationDigestRecord } from '../../../../shared/types/notification.js';
+
+/**
+ * Dados de um resumo enviado
+ */
+export type NewNotificationDigest = Omit<NotificationDigestRecord, 'id' | 'created_at'>;
+
+/**
+ * Repositório de resumos (digests) de notificações
+ * Responsabilidade: registrar o email que agrupou várias notificações
+ */
+export interface INotificationDigestRepository {
+  create(digest: NewNotificationDigest): Promise<NotificationDigestRecord>;
+}
@@ -0,0 +1,18 @@
+import type {
+  NotificationChannel,
+  NotificationDeliveryMode,
+  NotificationPreference,
+  NotificationPreferenceRecord,
+} from '../../../../shared/types/notification.js';
+
+/**
+ * Repositório de preferências de notificação
+ * Responsabilidade: ler e gravar o opt-in/opt-out por tipo e canal e o modo de entrega
+ */
+export interface INotificationPreferenceRepository {
+  findByUserId(userId: string): Promise<NotificationPreferenceRecord[]>;
+  upsert(userId: string, preferences: NotificationPreference[]): Promise<void>;
+  disable(userId: string, types: string[], channel: NotificationChannel): Promise<void>;
+  getDeliveryMode(userId: string): Promise<NotificationDeliveryMode>;
+  setDeliveryMode(userId: string, deliveryMode: NotificationDeliveryMode): Promise<void>;
+}
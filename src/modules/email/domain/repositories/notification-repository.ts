@@ -0,0 +1,57 @@
+import type { NotificationRecord } from '../../../../shared/types/notification.js';
+
+/**
+ * Opções para atualização de status de notificação
+ * Com `leaseOwner`, a atualização só é aplicada se o lease ainda pertence à execução
+ */
+export interface NotificationStatusUpdate {
+  sentAt?: Date | undefined;
+  errorMessage?: string | undefined;
+  leaseOwner?: string | undefined;
+  attemptCount?: number | undefined;
+  nextAttemptAt?: Date | undefined;
+  scheduledAt?: Date | undefined;
+  providerMessageId?: string | undefined;
+  templateVersionId?: string | undefined;
+  templateVersion?: number | undefined;
+  digestId?: string | undefined;
+}
+
+/**
+ * Atualização do estado de entrega informado pelo provedor
+ */
+export interface DeliveryStatusUpdate {
+  occurredAt: Date;
+  // Estados que podem ser substituídos pelo novo (os demais são mais avançados)
+  replaceable: string[];
+}
+
+/**
+ * Página de notificações
+ */
+export interface NotificationPage {
+  notifications: NotificationRecord[];
+  total: number;
+}
+
+/**
+ * Repositório de notificações
+ * Responsabilidade: leitura e atualização da fila de notificações
+ */
+export interface INotificationRepository {
+  findById(notificationId: string): Promise<NotificationRecord | null>;
+  findDue(limit: number): Promise<NotificationRecord[]>;
+  claimDue(leaseOwner: string, limit: number, leaseSeconds: number): Promise<NotificationRecord[]>;
+  claimDueForUser(
+    userId: string,
+    templateKeys: string[],
+    leaseOwner: string,
+    limit: number,
+    leaseSeconds: number
+  ): Promise<NotificationRecord[]>;
+  reclaimExpiredLeases(): Promise<number>;
+  updateStatus(notificationId: string, status: string, update?: NotificationStatusUpdate): Promise<boolean>;
+  listByStatus(status: string, limit: number, offset: number): Promise<NotificationPage>;
+  requeue(notificationId: string, fromStatus: string): Promise<NotificationRecord | null>;
+  updateDeliveryStatus(providerMessageId: string, deliveryStatus: string, update: DeliveryStatusUpdate): Promise<number>;
+}
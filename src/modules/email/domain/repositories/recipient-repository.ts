@@ -0,0 +1,9 @@
+import type { NotificationRecipient } from '../../../../shared/types/notification.js';
+
+/**
+ * Repositório de destinatários de notificações
+ * Responsabilidade: localizar o endereço de email de um usuário
+ */
+export interface IRecipientRepository {
+  findByUserId(userId: string): Promise<NotificationRecipient | null>;
+}
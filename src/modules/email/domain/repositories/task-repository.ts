@@ -0,0 +1,9 @@
+import type { NotificationRecord, TaskContext } from '../../../../shared/types/notification.js';
+
+/**
+ * Repositório de tarefas vinculadas a notificações
+ * Responsabilidade: resolver estado e dados complementares da tarefa
+ */
+export interface ITaskRepository {
+  getTaskContext(notification: NotificationRecord): Promise<TaskContext>;
+}
@@ -0,0 +1,80 @@
+import type { IEmailService } from '../../../shared/types/email.js';
+import { env } from '../../../shared/config/environment.js';
+import { appConfig } from '../../../shared/config/app-config.js';
+import { logger } from '../../../shared/utils/logger.js';
+import { ResendEmailService } from './resend-email-service.js';
+import { MockEmailService } from './mock-email-service.js';
+import { SmtpEmailService } from './smtp-email-service.js';
+import { FileEmailService } from './file-email-service.js';
+import { RateLimitedEmailService } from './rate-limited-email-service.js';
+
+export type EmailProviderName = typeof appConfig.email.provider;
+
+/**
+ * Serviço de email e identificação do provedor (registrado no histórico de emails)
+ */
+export interface EmailServiceInstance {
+  service: IEmailService;
+  type: string;
+  provider: string;
+}
+
+/**
+ * Provedores disponíveis, selecionados por EMAIL_PROVIDER
+ */
+const EMAIL_PROVIDERS: Record<EmailProviderName, () => IEmailService> = {
+  resend: () => {
+    logger.info('📧 Usando ResendEmailService (produção)', {
+      hasApiKey: !!env.RESEND_API_KEY,
+      apiKeyLength: env.RESEND_API_KEY?.length ?? 0,
+      fromEmail: env.RESEND_FROM_EMAIL,
+    });
+    return new ResendEmailService();
+  },
+  smtp: () => {
+    logger.info('📧 Usando SmtpEmailService', {
+      host: appConfig.email.smtp.host,
+      port: appConfig.email.smtp.port,
+      secure: appConfig.email.smtp.secure,
+    });
+    return new SmtpEmailService();
+  },
+  file: () => {
+    logger.info('📧 Usando FileEmailService (arquivos .eml)', {
+      directory: appConfig.email.file.directory,
+    });
+    return new FileEmailService();
+  },
+  mock: () => {
+    logger.warn('📧 Usando MockEmailService (desenvolvimento): emails não são enviados', {
+      hasApiKey: !!env.RESEND_API_KEY,
+      nodeEnv: env.NODE_ENV,
+      fromEmail: env.RESEND_FROM_EMAIL,
+    });
+    return new MockEmailService();
+  },
+};
+
+// Instância única por processo: o rate limit do provedor vale para todos os chamadores
+let emailService: EmailServiceInstance | null = null;
+
+/**
+ * Cria o serviço de email do provedor configurado
+ * Sem EMAIL_PROVIDER, usa Resend quando RESEND_API_KEY está configurada, senão o mock
+ */
+export function createEmailService(): EmailServiceInstance {
+  if (emailService) {
+    return emailService;
+  }
+
+  const provider = appConfig.email.provider;
+  const inner = EMAIL_PROVIDERS[provider]();
+
+  emailService = {
+    service: new RateLimitedEmailService(inner),
+    type: inner.constructor.name,
+    provider,
+  };
+
+  return emailService;
+}
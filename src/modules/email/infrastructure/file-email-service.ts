@@ -0,0 +1,72 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { toMailOptions } from './smtp-email-service.js';
+import { appConfig } from '../../../shared/config/app-config.js';
+import { logger } from '../../../shared/utils/logger.js';
+import { nowUTC } from '../../../shared/utils/date-utils.js';
+import type { IEmailService, SendEmailRequest, EmailResponse } from '../../../shared/types/email.js';
+
+/**
+ * Serviço de email que grava cada mensagem como arquivo .eml
+ * Usado em desenvolvimento e testes para inspecionar os emails gerados
+ */
+export class FileEmailService implements IEmailService {
+  // Transporte do nodemailer que apenas monta a mensagem MIME, sem enviar
+  private transporter: Transporter;
+
+  constructor(private directory: string = appConfig.email.file.directory) {
+    this.transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+  }
+
+  async sendEmail(data: SendEmailRequest): Promise<EmailResponse> {
+    try {
+      const id = randomUUID();
+      const createdAt = nowUTC();
+      const info = await this.transporter.sendMail({ ...toMailOptions(data), messageId: `<${id}@growspace.local>` });
+
+      // Nome ordenável pela data de criação
+      const file = join(this.directory, `${createdAt.toISOString().replace(/[:.]/g, '-')}-${id}.eml`);
+      await mkdir(this.directory, { recursive: true });
+      await writeFile(file, info.message as Buffer);
+
+      logger.info('📁 Email gravado em arquivo', {
+        to: data.to,
+        subject: data.subject,
+        file,
+      });
+
+      return {
+        success: true,
+        data: {
+          id,
+          from: data.from || appConfig.email.from,
+          to: data.to,
+          subject: data.subject,
+          createdAt: createdAt.toISOString(),
+        },
+      };
+
+    } catch (error) {
+      logger.error('Erro ao gravar email em arquivo', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        directory: this.directory,
+      });
+
+      return {
+        success: false,
+        error: 'Falha ao gravar email em arquivo',
+        retryable: false,
+      };
+    }
+  }
+
+  async sendBatch(data: SendEmailRequest[]): Promise<EmailResponse[]> {
+    const results: EmailResponse[] = [];
+    for (const item of data) {
+      results.push(await this.sendEmail(item));
+    }
+    return results;
+  }
+}
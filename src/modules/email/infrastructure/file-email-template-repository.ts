@@ -0,0 +1,71 @@
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { appConfig } from '../../../shared/config/app-config.js';
+import { logger } from '../../../shared/utils/logger.js';
+import { DEFAULT_LOCALE, getLocaleFallbackChain } from '../../../shared/i18n/locale.js';
+import type { EmailTemplateRecord } from '../../../shared/types/notification.js';
+import type { IEmailTemplateRepository } from '../domain/repositories/email-template-repository.js';
+
+const TITLE_REGEX = /<title>([\s\S]*?)<\/title>/i;
+
+/**
+ * Repositório de templates de email empacotados com a aplicação
+ * Cada arquivo é `<key>.html` (locale padrão) ou `<key>.<locale>.html`;
+ * o `<title>` do HTML é o template do assunto
+ */
+export class FileEmailTemplateRepository implements IEmailTemplateRepository {
+  private cache = new Map<string, EmailTemplateRecord | null>();
+
+  constructor(private directory: string = appConfig.email.templates.directory) {}
+
+  async findActiveByKey(templateKey: string, locale?: string): Promise<EmailTemplateRecord | null> {
+    for (const candidate of getLocaleFallbackChain(locale)) {
+      const template = await this.load(templateKey, candidate);
+      if (template) return template;
+    }
+
+    logger.warn(`❌ Template empacotado não encontrado para key: "${templateKey}"`, { directory: this.directory });
+    return null;
+  }
+
+  async findByKey(templateKey: string, locale?: string): Promise<EmailTemplateRecord | null> {
+    return this.findActiveByKey(templateKey, locale);
+  }
+
+  private async load(templateKey: string, locale: string): Promise<EmailTemplateRecord | null> {
+    const fileName = locale === DEFAULT_LOCALE ? `${templateKey}.html` : `${templateKey}.${locale}.html`;
+    const cached = this.cache.get(fileName);
+    if (cached !== undefined) return cached;
+
+    let template: EmailTemplateRecord | null = null;
+
+    try {
+      const html = await readFile(join(this.directory, fileName), 'utf8');
+      const subject = TITLE_REGEX.exec(html)?.[1]?.trim();
+
+      if (subject) {
+        template = {
+          id: `file:${fileName}`,
+          name: `${templateKey} (${locale})`,
+          template_key: templateKey,
+          locale,
+          subject_template: subject,
+          html_template: html,
+          active: true,
+        };
+      } else {
+        logger.warn(`Template empacotado ${fileName} não possui <title> (assunto)`);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error(`Erro ao ler template empacotado ${fileName}`, {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw error;
+      }
+    }
+
+    this.cache.set(fileName, template);
+    return template;
+  }
+}
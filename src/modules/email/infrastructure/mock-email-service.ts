@@ -33,6 +33,17 @@ export class MockEmailService implements IEmailService {
     };
   }
 
+  /**
+   * Fallback sequencial: o mock não tem API de batch
+   */
+  async sendBatch(data: SendEmailRequest[]): Promise<EmailResponse[]> {
+    const results: EmailResponse[] = [];
+    for (const item of data) {
+      results.push(await this.sendEmail(item));
+    }
+    return results;
+  }
+
   async healthCheck(): Promise<boolean> {
     return true;
   }
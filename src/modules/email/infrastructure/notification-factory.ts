@@ -0,0 +1,120 @@
+import { NotificationDispatcher } from '../application/notification-dispatcher.js';
+import { RecipientResolver } from '../application/recipient-resolver.js';
+import { NotificationQueueUseCases } from '../application/notification-queue-use-cases.js';
+import { EmailUseCases } from '../application/email-use-cases.js';
+import { EmailTemplateUseCases } from '../application/email-template-use-cases.js';
+import { NotificationPreferenceUseCases } from '../application/notification-preference-use-cases.js';
+import { UnsubscribeTokenService } from '../application/unsubscribe-token-service.js';
+import { EmailDeliveryEventUseCases } from '../application/email-delivery-event-use-cases.js';
+import { WebhookSignatureVerifier } from '../application/webhook-signature-verifier.js';
+import { EmailSuppressionUseCases } from '../application/email-suppression-use-cases.js';
+import { EmailMessageUseCases } from '../application/email-message-use-cases.js';
+import { SupabaseNotificationRepository } from './supabase-notification-repository.js';
+import { SupabaseEmailTemplateRepository } from './supabase-email-template-repository.js';
+import { FileEmailTemplateRepository } from './file-email-template-repository.js';
+import { SupabaseEmailTemplateVersionRepository } from './supabase-email-template-version-repository.js';
+import { SupabaseTaskRepository } from './supabase-task-repository.js';
+import { SupabaseRecipientRepository } from './supabase-recipient-repository.js';
+import { SupabaseNotificationDigestRepository } from './supabase-notification-digest-repository.js';
+import { SupabaseNotificationPreferenceRepository } from './supabase-notification-preference-repository.js';
+import { SupabaseEmailDeliveryEventRepository } from './supabase-email-delivery-event-repository.js';
+import { SupabaseEmailSuppressionRepository } from './supabase-email-suppression-repository.js';
+import { createEmailService, type EmailServiceInstance } from './email-service-factory.js';
+import { SupabaseEmailMessageRepository } from './supabase-email-message-repository.js';
+import { JobScheduler } from '../../../shared/services/job-scheduler.js';
+import { SupabaseSchedulerLockRepository } from '../../../shared/infrastructure/supabase-scheduler-lock-repository.js';
+import { appConfig } from '../../../shared/config/app-config.js';
+import type { NotificationDispatchSummary } from '../../../shared/types/notification.js';
+
+/**
+ * Cria os casos de uso de envio de email (transacionais usam os templates empacotados)
+ */
+export function createEmailUseCases({ service, provider }: EmailServiceInstance): EmailUseCases {
+  return new EmailUseCases(
+    service,
+    new FileEmailTemplateRepository(),
+    new SupabaseEmailSuppressionRepository(),
+    new SupabaseEmailMessageRepository(),
+    provider
+  );
+}
+
+/**
+ * Cria o dispatcher de notificações com os repositórios do Supabase
+ */
+export function createNotificationDispatcher(emailUseCases: EmailUseCases): NotificationDispatcher {
+  return new NotificationDispatcher({
+    notificationRepository: new SupabaseNotificationRepository(),
+    templateRepository: new SupabaseEmailTemplateRepository(),
+    taskRepository: new SupabaseTaskRepository(),
+    recipientResolver: new RecipientResolver(new SupabaseRecipientRepository()),
+    emailUseCases,
+    digestRepository: new SupabaseNotificationDigestRepository(),
+  });
+}
+
+/**
+ * Cria os casos de uso de administração da fila de notificações
+ */
+export function createNotificationQueueUseCases(): NotificationQueueUseCases {
+  return new NotificationQueueUseCases(new SupabaseNotificationRepository());
+}
+
+/**
+ * Cria os casos de uso de validação, preview e versionamento de templates
+ */
+export function createEmailTemplateUseCases(notificationDispatcher: NotificationDispatcher): EmailTemplateUseCases {
+  return new EmailTemplateUseCases(
+    new SupabaseEmailTemplateRepository(),
+    new SupabaseEmailTemplateVersionRepository(),
+    new SupabaseNotificationRepository(),
+    notificationDispatcher
+  );
+}
+
+/**
+ * Cria o scheduler em processo que executa o ciclo de envio de notificações
+ */
+export function createNotificationScheduler(): JobScheduler<NotificationDispatchSummary> {
+  const dispatcher = createNotificationDispatcher(createEmailUseCases(createEmailService()));
+
+  return new JobScheduler({
+    name: appConfig.notifications.scheduler.lockName,
+    intervalSeconds: appConfig.notifications.scheduler.intervalSeconds,
+    run: () => dispatcher.dispatch(),
+    lockRepository: new SupabaseSchedulerLockRepository(),
+  });
+}
+
+/**
+ * Cria os casos de uso de preferências de notificação e descadastro
+ */
+export function createNotificationPreferenceUseCases(): NotificationPreferenceUseCases {
+  return new NotificationPreferenceUseCases(new SupabaseNotificationPreferenceRepository(), new UnsubscribeTokenService());
+}
+
+/**
+ * Cria os casos de uso de ingestão de eventos de entrega (webhooks do provedor)
+ */
+export function createEmailDeliveryEventUseCases(): EmailDeliveryEventUseCases {
+  return new EmailDeliveryEventUseCases(
+    new SupabaseEmailDeliveryEventRepository(),
+    new SupabaseNotificationRepository(),
+    new SupabaseEmailSuppressionRepository(),
+    new WebhookSignatureVerifier()
+  );
+}
+
+/**
+ * Cria os casos de uso de administração da lista de supressão
+ */
+export function createEmailSuppressionUseCases(): EmailSuppressionUseCases {
+  return new EmailSuppressionUseCases(new SupabaseEmailSuppressionRepository());
+}
+
+/**
+ * Cria os casos de uso de consulta ao histórico de emails
+ */
+export function createEmailMessageUseCases(): EmailMessageUseCases {
+  return new EmailMessageUseCases(new SupabaseEmailMessageRepository());
+}
@@ -0,0 +1,77 @@
+import type { IEmailService, SendEmailRequest, EmailResponse } from '../../../shared/types/email.js';
+import { TokenBucket } from '../../../shared/utils/token-bucket.js';
+import { appConfig } from '../../../shared/config/app-config.js';
+import { logger } from '../../../shared/utils/logger.js';
+
+type RateLimitConfig = typeof appConfig.email.rateLimit;
+
+/**
+ * Decorator de IEmailService com limite de taxa (token bucket)
+ * Responsabilidade: respeitar o rate limit do provedor e reagir a respostas 429
+ */
+export class RateLimitedEmailService implements IEmailService {
+  private bucket: TokenBucket;
+
+  constructor(
+    private inner: IEmailService,
+    private config: RateLimitConfig = appConfig.email.rateLimit
+  ) {
+    this.bucket = new TokenBucket(config.ratePerSecond, config.burst);
+  }
+
+  async sendEmail(data: SendEmailRequest): Promise<EmailResponse> {
+    const [result] = await this.withRateLimit([data], async ([item]) => [await this.inner.sendEmail(item!)]);
+    return result!;
+  }
+
+  /**
+   * Um batch é uma única chamada ao provedor e consome um único token
+   */
+  async sendBatch(data: SendEmailRequest[]): Promise<EmailResponse[]> {
+    if (data.length === 0) {
+      return [];
+    }
+    return this.withRateLimit(data, (items) => this.inner.sendBatch(items));
+  }
+
+  /**
+   * Executa a chamada respeitando o bucket e, após 429, repete só os emails limitados
+   * (os já enviados não são reenviados) até o limite configurado
+   * A pausa segue o Retry-After do provedor ou, sem ele, a pausa configurada
+   */
+  private async withRateLimit(
+    data: SendEmailRequest[],
+    call: (items: SendEmailRequest[]) => Promise<EmailResponse[]>
+  ): Promise<EmailResponse[]> {
+    const results: EmailResponse[] = [];
+    let pending = data.map((_, index) => index);
+    let attempt = 0;
+
+    while (true) {
+      await this.bucket.acquire();
+      const responses = await call(pending.map((index) => data[index]!));
+      pending.forEach((index, position) => {
+        results[index] = responses[position] ?? { success: false, error: 'Resposta ausente no batch' };
+      });
+
+      const rateLimited = pending.filter((index) => this.isRateLimited(results[index]!));
+      if (rateLimited.length === 0 || attempt >= this.config.maxRateLimitRetries) {
+        return results;
+      }
+
+      const pauseMs = Math.max(...rateLimited.map((index) => results[index]!.retryAfterMs ?? this.config.rateLimitPauseMs));
+      logger.warn('⏸️ Rate limit do provedor atingido, pausando envios', {
+        pauseMs,
+        rateLimited: rateLimited.length,
+        attempt: attempt + 1,
+      });
+      this.bucket.pause(pauseMs);
+      pending = rateLimited;
+      attempt++;
+    }
+  }
+
+  private isRateLimited(result: EmailResponse): boolean {
+    return !result.success && result.errorCode === 'rate_limit_exceeded';
+  }
+}
@@ -6,6 +6,30 @@ import { nowUTC } from '../../../shared/utils/date-utils.js';
 import type { IEmailService, SendEmailRequest, EmailResponse } from '../../../shared/types/email.js';
 import { EmailEntity } from '../domain/entities/email-entity.js';
 
+/**
+ * Códigos de erro do Resend que indicam falha transitória
+ */
+const TRANSIENT_ERROR_CODES = new Set([
+  'rate_limit_exceeded',
+  'concurrent_idempotent_requests',
+  'application_error',
+  'internal_server_error',
+]);
+
+/**
+ * Espera pedida no header Retry-After (segundos ou data HTTP), em milissegundos
+ */
+function retryAfter(headers: Record<string, string> | null): { retryAfterMs?: number } {
+  const value = headers?.['retry-after']?.trim();
+
+  if (!value) {
+    return {};
+  }
+
+  const ms = /^\d+$/.test(value) ? Number(value) * 1000 : Date.parse(value) - Date.now();
+  return Number.isNaN(ms) ? {} : { retryAfterMs: Math.max(0, ms) };
+}
+
 /**
  * Serviço de email usando Resend
  * Responsabilidade: Integração com API externa do Resend
@@ -34,21 +58,7 @@ export class ResendEmailService implements IEmailService {
         apiKeyPrefix: env.RESEND_API_KEY ? env.RESEND_API_KEY.substring(0, 8) + '...' : 'N/A',
       });
 
-      // Prepara dados para envio
-      const emailData: any = {
-        from: data.from || env.RESEND_FROM_EMAIL,
-        to: data.to,
-        subject: data.subject,
-        html: data.html,
-      };
-
-      // Adiciona campos opcionais apenas se existirem
-      if (data.text) {
-        emailData.text = data.text;
-      }
-      if (data.replyTo) {
-        emailData.replyTo = data.replyTo;
-      }
+      const emailData = this.toResendPayload(data);
 
       logger.debug('Dados preparados para envio via Resend', {
         emailData: {
@@ -78,6 +88,9 @@ export class ResendEmailService implements IEmailService {
         return {
           success: false,
           error: `Falha ao enviar email: ${errorMessage}`,
+          errorCode: result.error.name,
+          retryable: TRANSIENT_ERROR_CODES.has(result.error.name),
+          ...retryAfter(result.headers),
         };
       }
 
@@ -106,13 +119,94 @@ export class ResendEmailService implements IEmailService {
         fromEmail: env.RESEND_FROM_EMAIL,
       });
 
+      // Exceções aqui são de rede/SDK, não de validação do provedor
       return {
         success: false,
         error: 'Erro interno do servidor ao enviar email',
+        retryable: true,
       };
     }
   }
 
+  /**
+   * Envia vários emails em uma única chamada à API de batch do Resend
+   * O Resend aceita até 100 emails por chamada
+   */
+  async sendBatch(data: SendEmailRequest[]): Promise<EmailResponse[]> {
+    if (data.length === 0) {
+      return [];
+    }
+
+    try {
+      logger.info('Enviando batch de emails via Resend', { count: data.length });
+
+      const result = await this.resend.batch.send(data.map((item) => this.toResendPayload(item)));
+
+      if (result.error) {
+        logger.error('Erro ao enviar batch via Resend', { error: result.error, count: data.length });
+
+        return data.map(() => ({
+          success: false,
+          error: `Falha ao enviar email: ${result.error.message}`,
+          errorCode: result.error.name,
+          retryable: TRANSIENT_ERROR_CODES.has(result.error.name),
+          ...retryAfter(result.headers),
+        }));
+      }
+
+      const ids = result.data?.data ?? [];
+      logger.info('Batch enviado com sucesso via Resend', { count: ids.length });
+
+      return data.map((item, index) => ({
+        success: true,
+        data: {
+          id: ids[index]?.id || randomUUID(),
+          from: item.from || env.RESEND_FROM_EMAIL,
+          to: item.to,
+          subject: item.subject,
+          createdAt: nowUTC().toISOString(),
+        },
+      }));
+
+    } catch (error) {
+      logger.error('Erro inesperado ao enviar batch de emails', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        count: data.length,
+      });
+
+      return data.map(() => ({
+        success: false,
+        error: 'Erro interno do servidor ao enviar email',
+        retryable: true,
+      }));
+    }
+  }
+
+  /**
+   * Converte a requisição interna para o payload do Resend
+   */
+  private toResendPayload(data: SendEmailRequest): any {
+    const emailData: any = {
+      from: data.from || env.RESEND_FROM_EMAIL,
+      to: data.to,
+      subject: data.subject,
+      html: data.html,
+    };
+
+    // Adiciona campos opcionais apenas se existirem
+    if (data.text) {
+      emailData.text = data.text;
+    }
+    if (data.replyTo) {
+      emailData.replyTo = data.replyTo;
+    }
+    if (data.headers) {
+      emailData.headers = data.headers;
+    }
+
+    return emailData;
+  }
+
   /**
    * Verifica se o serviço está funcionando
    */
@@ -0,0 +1,107 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+import type Mail from 'nodemailer/lib/mailer/index.js';
+import { appConfig } from '../../../shared/config/app-config.js';
+import { logger } from '../../../shared/utils/logger.js';
+import { nowUTC } from '../../../shared/utils/date-utils.js';
+import type { IEmailService, SendEmailRequest, EmailResponse } from '../../../shared/types/email.js';
+
+type SmtpConfig = typeof appConfig.email.smtp;
+
+/**
+ * Erros de conexão com o servidor SMTP (transitórios)
+ */
+const TRANSIENT_ERROR_CODES = new Set(['ECONNECTION', 'ETIMEDOUT', 'ESOCKET', 'ECONNREFUSED', 'EDNS']);
+
+/**
+ * Converte o pedido de envio para as opções do nodemailer
+ */
+export function toMailOptions(data: SendEmailRequest): Mail.Options {
+  return {
+    from: data.from || appConfig.email.from,
+    to: data.to,
+    subject: data.subject,
+    html: data.html,
+    text: data.text,
+    replyTo: data.replyTo,
+    headers: data.headers,
+  };
+}
+
+/**
+ * Serviço de email via SMTP
+ * Responsabilidade: enviar por qualquer servidor SMTP (ex.: MailHog local para testes)
+ */
+export class SmtpEmailService implements IEmailService {
+  private transporter: Transporter;
+
+  constructor(config: SmtpConfig = appConfig.email.smtp) {
+    if (!config.host) {
+      throw new Error('SMTP_HOST não configurado. Defina SMTP_HOST (e SMTP_PORT) para usar EMAIL_PROVIDER=smtp');
+    }
+
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      ...(config.user ? { auth: { user: config.user, pass: config.password } } : {}),
+    });
+  }
+
+  async sendEmail(data: SendEmailRequest): Promise<EmailResponse> {
+    try {
+      logger.info('Enviando email via SMTP', {
+        to: data.to,
+        subject: data.subject,
+      });
+
+      const info = await this.transporter.sendMail(toMailOptions(data));
+
+      logger.info('Email enviado com sucesso via SMTP', {
+        messageId: info.messageId,
+      });
+
+      return {
+        success: true,
+        data: {
+          id: info.messageId,
+          from: data.from || appConfig.email.from,
+          to: data.to,
+          subject: data.subject,
+          createdAt: nowUTC().toISOString(),
+        },
+      };
+
+    } catch (error) {
+      const smtpError = error as { code?: string; responseCode?: number; message?: string };
+
+      logger.error('Erro ao enviar email via SMTP', {
+        error: smtpError.message,
+        code: smtpError.code,
+        responseCode: smtpError.responseCode,
+      });
+
+      // 4xx do servidor e falhas de conexão são transitórios; 5xx são permanentes
+      const retryable = smtpError.responseCode !== undefined
+        ? smtpError.responseCode < 500
+        : TRANSIENT_ERROR_CODES.has(smtpError.code ?? '');
+
+      return {
+        success: false,
+        error: `Falha ao enviar email: ${smtpError.message ?? 'Erro desconhecido'}`,
+        ...(smtpError.code ? { errorCode: smtpError.code } : {}),
+        retryable,
+      };
+    }
+  }
+
+  /**
+   * Fallback sequencial: SMTP não tem API de batch
+   */
+  async sendBatch(data: SendEmailRequest[]): Promise<EmailResponse[]> {
+    const results: EmailResponse[] = [];
+    for (const item of data) {
+      results.push(await this.sendEmail(item));
+    }
+    return results;
+  }
+}
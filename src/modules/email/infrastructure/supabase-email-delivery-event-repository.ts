@@ -0,0 +1,45 @@
+import { createClient } from '@supabase/supabase-js';
+import { env } from '../../../shared/config/environment.js';
+import { logger } from '../../../shared/utils/logger.js';
+import type { EmailDeliveryEvent } from '../../../shared/types/email.js';
+import type { IEmailDeliveryEventRepository } from '../domain/repositories/email-delivery-event-repository.js';
+
+/**
+ * Repositório de eventos de entrega no Supabase (tabela `email_delivery_events`)
+ */
+export class SupabaseEmailDeliveryEventRepository implements IEmailDeliveryEventRepository {
+  private supabase;
+
+  constructor() {
+    this.supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+  }
+
+  /**
+   * Registra o evento; o id único do webhook descarta reentregas
+   */
+  async record(event: EmailDeliveryEvent): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('email_delivery_events')
+      .upsert(
+        {
+          event_id: event.eventId,
+          provider: event.provider,
+          provider_message_id: event.providerMessageId,
+          event_type: event.type,
+          delivery_status: event.status,
+          recipients: event.recipients,
+          occurred_at: event.occurredAt.toISOString(),
+          payload: event.payload,
+        },
+        { onConflict: 'event_id', ignoreDuplicates: true }
+      )
+      .select('event_id');
+
+    if (error) {
+      logger.error(`Erro ao registrar evento de entrega ${event.eventId}`, { error });
+      throw new Error(`Erro ao registrar evento de entrega: ${error.message}`);
+    }
+
+    return (data?.length ?? 0) > 0;
+  }
+}
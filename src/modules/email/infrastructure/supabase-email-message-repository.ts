@@ -0,0 +1,90 @@
+import { createClient } from '@supabase/supabase-js';
+import { env } from '../../../shared/config/environment.js';
+import { logger } from '../../../shared/utils/logger.js';
+import type { EmailEntity } from '../domain/entities/email-entity.js';
+import type { EmailMessageFilters, EmailMessageRecord } from '../../../shared/types/email.js';
+import type { EmailMessagePage, IEmailMessageRepository } from '../domain/repositories/email-message-repository.js';
+
+/**
+ * Repositório do histórico de emails no Supabase (tabela `email_messages`)
+ * O corpo do email não é guardado, apenas os metadados da tentativa
+ */
+export class SupabaseEmailMessageRepository implements IEmailMessageRepository {
+  private supabase;
+
+  constructor() {
+    this.supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+  }
+
+  async save(messages: EmailEntity[]): Promise<void> {
+    if (messages.length === 0) return;
+
+    const { error } = await this.supabase.from('email_messages').insert(messages.map((message) => ({
+      id: message.id,
+      user_id: message.metadata.userId ?? null,
+      recipients: message.to.map((recipient) => recipient.trim().toLowerCase()),
+      from_email: message.from,
+      subject: message.subject,
+      template_key: message.metadata.templateKey ?? null,
+      notification_ids: message.metadata.notificationIds ?? [],
+      provider: message.delivery.provider ?? null,
+      provider_message_id: message.delivery.providerMessageId ?? null,
+      status: message.status,
+      error: message.delivery.error ?? null,
+      created_at: message.createdAt.toISOString(),
+      sent_at: message.delivery.sentAt?.toISOString() ?? null,
+    })));
+
+    if (error) {
+      logger.error(`Erro ao registrar ${messages.length} emails no histórico`, { error });
+      throw new Error(`Erro ao registrar email: ${error.message}`);
+    }
+  }
+
+  /**
+   * Busca no histórico (mais recentes primeiro)
+   */
+  async search(filters: EmailMessageFilters, limit: number, offset: number): Promise<EmailMessagePage> {
+    let query = this.supabase
+      .from('email_messages')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (filters.userId) {
+      query = query.eq('user_id', filters.userId);
+    }
+
+    if (filters.recipient) {
+      query = query.contains('recipients', [filters.recipient.trim().toLowerCase()]);
+    }
+
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+
+    if (filters.templateKey) {
+      query = query.eq('template_key', filters.templateKey);
+    }
+
+    if (filters.from) {
+      query = query.gte('created_at', filters.from.toISOString());
+    }
+
+    if (filters.to) {
+      query = query.lte('created_at', filters.to.toISOString());
+    }
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      logger.error('Erro ao buscar histórico de emails', { error, filters });
+      throw new Error(`Erro ao buscar histórico de emails: ${error.message}`);
+    }
+
+    return {
+      messages: (data || []) as EmailMessageRecord[],
+      total: count ?? 0,
+    };
+  }
+}
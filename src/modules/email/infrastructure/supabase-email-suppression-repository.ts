@@ -0,0 +1,98 @@
+import { createClient } from '@supabase/supabase-js';
+import { env } from '../../../shared/config/environment.js';
+import { logger } from '../../../shared/utils/logger.js';
+import type { EmailSuppression, EmailSuppressionReason, EmailSuppressionRecord } from '../../../shared/types/email.js';
+import type { EmailSuppressionPage, IEmailSuppressionRepository } from '../domain/repositories/email-suppression-repository.js';
+
+/**
+ * Repositório da lista de supressão no Supabase (tabela `email_suppressions`)
+ * Endereços são guardados em minúsculas
+ */
+export class SupabaseEmailSuppressionRepository implements IEmailSuppressionRepository {
+  private supabase;
+
+  constructor() {
+    this.supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+  }
+
+  async findByEmails(emails: string[]): Promise<EmailSuppressionRecord[]> {
+    if (emails.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from('email_suppressions')
+      .select('*')
+      .in('email', emails.map(normalizeEmail));
+
+    if (error) {
+      logger.error('Erro ao consultar lista de supressão', { error });
+      throw new Error(`Erro ao consultar lista de supressão: ${error.message}`);
+    }
+
+    return (data || []) as EmailSuppressionRecord[];
+  }
+
+  async list(limit: number, offset: number, reason?: EmailSuppressionReason): Promise<EmailSuppressionPage> {
+    let query = this.supabase
+      .from('email_suppressions')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (reason) {
+      query = query.eq('reason', reason);
+    }
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      logger.error('Erro ao listar lista de supressão', { error });
+      throw new Error(`Erro ao listar lista de supressão: ${error.message}`);
+    }
+
+    return {
+      suppressions: (data || []) as EmailSuppressionRecord[],
+      total: count ?? 0,
+    };
+  }
+
+  async add(suppression: EmailSuppression): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('email_suppressions')
+      .upsert(
+        {
+          email: normalizeEmail(suppression.email),
+          reason: suppression.reason,
+          source: suppression.source,
+          provider_message_id: suppression.providerMessageId ?? null,
+        },
+        { onConflict: 'email', ignoreDuplicates: true }
+      )
+      .select('email');
+
+    if (error) {
+      logger.error(`Erro ao suprimir ${suppression.email}`, { error });
+      throw new Error(`Erro ao suprimir endereço: ${error.message}`);
+    }
+
+    return (data?.length ?? 0) > 0;
+  }
+
+  async remove(email: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('email_suppressions')
+      .delete()
+      .eq('email', normalizeEmail(email))
+      .select('email');
+
+    if (error) {
+      logger.error(`Erro ao remover ${email} da lista de supressão`, { error });
+      throw new Error(`Erro ao remover da lista de supressão: ${error.message}`);
+    }
+
+    return (data?.length ?? 0) > 0;
+  }
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
@@ -0,0 +1,96 @@
+import { createClient } from '@supabase/supabase-js';
+import { env } from '../../../shared/config/environment.js';
+import { logger } from '../../../shared/utils/logger.js';
+import { getLocaleFallbackChain } from '../../../shared/i18n/locale.js';
+import type { EmailTemplateRecord } from '../../../shared/types/notification.js';
+import type { IEmailTemplateRepository } from '../domain/repositories/email-template-repository.js';
+
+/**
+ * Escolhe o template do primeiro locale da cadeia que tiver candidato
+ * (a ordem dos candidatos é preservada, então o ativo vem antes quando ordenado)
+ */
+function pickByLocale(candidates: EmailTemplateRecord[], chain: string[]): EmailTemplateRecord | null {
+  for (const locale of chain) {
+    const match = candidates.find((candidate) => candidate.locale === locale);
+    if (match) return match;
+  }
+  return null;
+}
+
+/**
+ * Repositório de templates de email no Supabase
+ */
+export class SupabaseEmailTemplateRepository implements IEmailTemplateRepository {
+  private supabase;
+
+  constructor() {
+    this.supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+  }
+
+  /**
+   * Busca template ativo por chave no idioma mais próximo do locale
+   * null apenas quando o template não existe; erros de consulta são lançados
+   */
+  async findActiveByKey(templateKey: string, locale?: string): Promise<EmailTemplateRecord | null> {
+    const chain = getLocaleFallbackChain(locale);
+    logger.info(`🔍 Buscando template para key: "${templateKey}"`, { locales: chain });
+
+    const { data: candidates, error } = await this.supabase
+      .from('email_templates')
+      .select('*')
+      .eq('template_key', templateKey)
+      .eq('active', true)
+      .in('locale', chain);
+
+    if (error) {
+      logger.error(`❌ Erro ao buscar template "${templateKey}":`, {
+        error: error.message,
+        code: error.code,
+        details: error.details,
+        hint: error.hint
+      });
+      throw new Error(`Erro ao buscar template: ${error.message}`);
+    }
+
+    const template = pickByLocale((candidates || []) as EmailTemplateRecord[], chain);
+
+    if (!template) {
+      logger.warn(`❌ Template não encontrado para key: "${templateKey}"`);
+      return null;
+    }
+
+    logger.info(`✅ Template encontrado para "${templateKey}":`, {
+      id: template.id,
+      name: template.name,
+      template_key: template.template_key,
+      locale: template.locale,
+      active: template.active,
+      hasSubject: !!template.subject_template,
+      hasHtml: !!template.html_template,
+      subjectPreview: template.subject_template?.substring(0, 50) + '...'
+    });
+
+    return template;
+  }
+
+  /**
+   * Busca template por chave, ativo ou não (prioriza o ativo no idioma mais próximo)
+   */
+  async findByKey(templateKey: string, locale?: string): Promise<EmailTemplateRecord | null> {
+    const chain = getLocaleFallbackChain(locale);
+
+    const { data, error } = await this.supabase
+      .from('email_templates')
+      .select('*')
+      .eq('template_key', templateKey)
+      .in('locale', chain)
+      .order('active', { ascending: false });
+
+    if (error) {
+      logger.error(`Erro ao buscar template "${templateKey}"`, { error });
+      throw new Error(`Erro ao buscar template: ${error.message}`);
+    }
+
+    return pickByLocale((data || []) as EmailTemplateRecord[], chain);
+  }
+}
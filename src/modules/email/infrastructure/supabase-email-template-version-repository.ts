@@ -0,0 +1,199 @@
+import { createClient } from '@supabase/supabase-js';
+import { env } from '../../../shared/config/environment.js';
+import { logger } from '../../../shared/utils/logger.js';
+import { nowUTC } from '../../../shared/utils/date-utils.js';
+import { ConflictError } from '../../../shared/errors/base-error.js';
+import { DEFAULT_LOCALE, normalizeLocale } from '../../../shared/i18n/locale.js';
+import type {
+  EmailTemplateEventAction,
+  EmailTemplateEventRecord,
+  EmailTemplateVersionRecord,
+} from '../../../shared/types/notification.js';
+import type {
+  EmailTemplateVersionContent,
+  IEmailTemplateVersionRepository,
+} from '../domain/repositories/email-template-version-repository.js';
+
+/**
+ * Repositório de versões de templates no Supabase
+ * A publicação usa a função `publish_email_template_version` (transação única)
+ */
+export class SupabaseEmailTemplateVersionRepository implements IEmailTemplateVersionRepository {
+  private supabase;
+
+  constructor() {
+    this.supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+  }
+
+  /**
+   * Lista as versões de um template (mais recentes primeiro)
+   */
+  async listByKey(templateKey: string): Promise<EmailTemplateVersionRecord[]> {
+    const { data, error } = await this.supabase
+      .from('email_template_versions')
+      .select('*')
+      .eq('template_key', templateKey)
+      .order('version', { ascending: false });
+
+    if (error) {
+      logger.error(`Erro ao listar versões do template "${templateKey}"`, { error });
+      throw new Error(`Erro ao listar versões do template: ${error.message}`);
+    }
+
+    return (data || []) as EmailTemplateVersionRecord[];
+  }
+
+  /**
+   * Busca uma versão específica de um template
+   */
+  async findByVersion(templateKey: string, version: number): Promise<EmailTemplateVersionRecord | null> {
+    const { data, error } = await this.supabase
+      .from('email_template_versions')
+      .select('*')
+      .eq('template_key', templateKey)
+      .eq('version', version)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Erro ao buscar versão ${version} do template "${templateKey}"`, { error });
+      throw new Error(`Erro ao buscar versão do template: ${error.message}`);
+    }
+
+    return (data as EmailTemplateVersionRecord | null) ?? null;
+  }
+
+  /**
+   * Cria um rascunho com o próximo número de versão
+   */
+  async createDraft(templateKey: string, content: EmailTemplateVersionContent, actor: string): Promise<EmailTemplateVersionRecord> {
+    const { data: latest, error: latestError } = await this.supabase
+      .from('email_template_versions')
+      .select('version')
+      .eq('template_key', templateKey)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) {
+      logger.error(`Erro ao buscar última versão do template "${templateKey}"`, { error: latestError });
+      throw new Error(`Erro ao criar rascunho: ${latestError.message}`);
+    }
+
+    const { data, error } = await this.supabase
+      .from('email_template_versions')
+      .insert({
+        template_key: templateKey,
+        locale: normalizeLocale(content.locale) ?? DEFAULT_LOCALE,
+        version: (latest?.version ?? 0) + 1,
+        subject_template: content.subject_template,
+        html_template: content.html_template,
+        available_variables: content.available_variables ?? null,
+        change_note: content.change_note ?? null,
+        status: 'draft',
+        created_by: actor,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      // Violação de unique (template_key, version): outro rascunho foi criado ao mesmo tempo
+      if (error.code === '23505') {
+        throw new ConflictError(`Outra versão do template "${templateKey}" foi criada ao mesmo tempo, tente novamente`);
+      }
+      logger.error(`Erro ao criar rascunho do template "${templateKey}"`, { error });
+      throw new Error(`Erro ao criar rascunho: ${error.message}`);
+    }
+
+    const draft = data as EmailTemplateVersionRecord;
+    await this.recordEvent(draft, 'draft_created', actor);
+    return draft;
+  }
+
+  /**
+   * Atualiza o conteúdo de um rascunho
+   */
+  async updateDraft(versionId: string, content: EmailTemplateVersionContent, actor: string): Promise<EmailTemplateVersionRecord | null> {
+    const { data, error } = await this.supabase
+      .from('email_template_versions')
+      .update({
+        subject_template: content.subject_template,
+        html_template: content.html_template,
+        available_variables: content.available_variables ?? null,
+        change_note: content.change_note ?? null,
+        updated_at: nowUTC().toISOString(),
+      })
+      .eq('id', versionId)
+      .eq('status', 'draft')
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Erro ao atualizar rascunho ${versionId}`, { error });
+      throw new Error(`Erro ao atualizar rascunho: ${error.message}`);
+    }
+
+    if (!data) return null;
+
+    const draft = data as EmailTemplateVersionRecord;
+    await this.recordEvent(draft, 'draft_updated', actor);
+    return draft;
+  }
+
+  /**
+   * Publica uma versão (arquiva a publicada anterior e atualiza email_templates)
+   */
+  async publish(
+    versionId: string,
+    actor: string,
+    action: Extract<EmailTemplateEventAction, 'published' | 'rolled_back'>
+  ): Promise<EmailTemplateVersionRecord> {
+    const { data, error } = await this.supabase
+      .rpc('publish_email_template_version', {
+        p_version_id: versionId,
+        p_actor: actor,
+        p_action: action,
+      })
+      .single();
+
+    if (error) {
+      logger.error(`Erro ao publicar versão ${versionId}`, { error });
+      throw new Error(`Erro ao publicar versão do template: ${error.message}`);
+    }
+
+    return data as EmailTemplateVersionRecord;
+  }
+
+  /**
+   * Lista o histórico de alterações de um template (mais recentes primeiro)
+   */
+  async listEvents(templateKey: string, limit: number): Promise<EmailTemplateEventRecord[]> {
+    const { data, error } = await this.supabase
+      .from('email_template_events')
+      .select('*')
+      .eq('template_key', templateKey)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      logger.error(`Erro ao listar histórico do template "${templateKey}"`, { error });
+      throw new Error(`Erro ao listar histórico do template: ${error.message}`);
+    }
+
+    return (data || []) as EmailTemplateEventRecord[];
+  }
+
+  private async recordEvent(version: EmailTemplateVersionRecord, action: EmailTemplateEventAction, actor: string): Promise<void> {
+    const { error } = await this.supabase.from('email_template_events').insert({
+      template_key: version.template_key,
+      version_id: version.id,
+      version: version.version,
+      action,
+      actor,
+    });
+
+    // O histórico não deve impedir a edição do template
+    if (error) {
+      logger.warn(`Falha ao registrar evento ${action} do template "${version.template_key}"`, { error });
+    }
+  }
+}
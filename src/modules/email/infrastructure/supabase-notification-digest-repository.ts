@@ -0,0 +1,37 @@
+import { createClient } from '@supabase/supabase-js';
+import { env } from '../../../shared/config/environment.js';
+import { logger } from '../../../shared/utils/logger.js';
+import type { NotificationDigestRecord } from '../../../shared/types/notification.js';
+import type {
+  INotificationDigestRepository,
+  NewNotificationDigest,
+} from '../domain/repositories/notification-digest-repository.js';
+
+/**
+ * Repositório de resumos de notificações no Supabase
+ */
+export class SupabaseNotificationDigestRepository implements INotificationDigestRepository {
+  private supabase;
+
+  constructor() {
+    this.supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+  }
+
+  /**
+   * Registra um resumo enviado
+   */
+  async create(digest: NewNotificationDigest): Promise<NotificationDigestRecord> {
+    const { data, error } = await this.supabase
+      .from('notification_digests')
+      .insert(digest)
+      .select('*')
+      .single();
+
+    if (error) {
+      logger.error(`Erro ao registrar resumo do usuário ${digest.user_id}`, { error });
+      throw new Error(`Erro ao registrar resumo: ${error.message}`);
+    }
+
+    return data as NotificationDigestRecord;
+  }
+}
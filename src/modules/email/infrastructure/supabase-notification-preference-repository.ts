@@ -0,0 +1,95 @@
+import { createClient } from '@supabase/supabase-js';
+import { env } from '../../../shared/config/environment.js';
+import { logger } from '../../../shared/utils/logger.js';
+import { nowUTC } from '../../../shared/utils/date-utils.js';
+import { NotFoundError } from '../../../shared/errors/base-error.js';
+import type {
+  NotificationChannel,
+  NotificationDeliveryMode,
+  NotificationPreference,
+  NotificationPreferenceRecord,
+} from '../../../shared/types/notification.js';
+import type { INotificationPreferenceRepository } from '../domain/repositories/notification-preference-repository.js';
+
+/**
+ * Repositório de preferências de notificação no Supabase
+ * Opt-in/opt-out em `notification_preferences`; modo de entrega em `user_profiles`
+ */
+export class SupabaseNotificationPreferenceRepository implements INotificationPreferenceRepository {
+  private supabase;
+
+  constructor() {
+    this.supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+  }
+
+  async findByUserId(userId: string): Promise<NotificationPreferenceRecord[]> {
+    const { data, error } = await this.supabase
+      .from('notification_preferences')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (error) {
+      logger.error(`Erro ao buscar preferências do usuário ${userId}`, { error });
+      throw new Error(`Erro ao buscar preferências: ${error.message}`);
+    }
+
+    return (data || []) as NotificationPreferenceRecord[];
+  }
+
+  async upsert(userId: string, preferences: NotificationPreference[]): Promise<void> {
+    if (preferences.length === 0) return;
+
+    const updatedAt = nowUTC().toISOString();
+    const { error } = await this.supabase.from('notification_preferences').upsert(
+      preferences.map((preference) => ({
+        user_id: userId,
+        notification_type: preference.type,
+        channel: preference.channel,
+        enabled: preference.enabled,
+        updated_at: updatedAt,
+      })),
+      { onConflict: 'user_id,notification_type,channel' }
+    );
+
+    if (error) {
+      logger.error(`Erro ao salvar preferências do usuário ${userId}`, { error });
+      throw new Error(`Erro ao salvar preferências: ${error.message}`);
+    }
+  }
+
+  async disable(userId: string, types: string[], channel: NotificationChannel): Promise<void> {
+    await this.upsert(userId, types.map((type) => ({ type, channel, enabled: false })));
+  }
+
+  async getDeliveryMode(userId: string): Promise<NotificationDeliveryMode> {
+    const { data, error } = await this.supabase
+      .from('user_profiles')
+      .select('notification_delivery')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Erro ao buscar modo de entrega do usuário ${userId}`, { error });
+      throw new Error(`Erro ao buscar modo de entrega: ${error.message}`);
+    }
+
+    return data?.notification_delivery === 'digest' ? 'digest' : 'immediate';
+  }
+
+  async setDeliveryMode(userId: string, deliveryMode: NotificationDeliveryMode): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('user_profiles')
+      .update({ notification_delivery: deliveryMode })
+      .eq('user_id', userId)
+      .select('user_id');
+
+    if (error) {
+      logger.error(`Erro ao salvar modo de entrega do usuário ${userId}`, { error });
+      throw new Error(`Erro ao salvar modo de entrega: ${error.message}`);
+    }
+
+    if (!data || data.length === 0) {
+      throw new NotFoundError(`Perfil do usuário ${userId} não encontrado`);
+    }
+  }
+}
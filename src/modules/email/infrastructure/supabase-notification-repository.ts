@@ -0,0 +1,383 @@
+import { createClient } from '@supabase/supabase-js';
+import { env } from '../../../shared/config/environment.js';
+import { logger } from '../../../shared/utils/logger.js';
+import { nowUTC } from '../../../shared/utils/date-utils.js';
+import type { NotificationRecord } from '../../../shared/types/notification.js';
+import type {
+  DeliveryStatusUpdate,
+  INotificationRepository,
+  NotificationPage,
+  NotificationStatusUpdate,
+} from '../domain/repositories/notification-repository.js';
+
+const NOTIFICATION_COLUMNS = `
+  id,
+  user_id,
+  type,
+  title,
+  message,
+  status,
+  created_at,
+  scheduled_at,
+  template_key,
+  template_variables,
+  payload,
+  linked_task_id,
+  linked_task_table,
+  attempt_count,
+  next_attempt_at,
+  error_message,
+  provider_message_id,
+  template_version_id,
+  template_version,
+  digest_id,
+  delivery_status,
+  delivery_updated_at,
+  updated_at
+`;
+
+/**
+ * Filtro PostgREST: notificações sem retentativa agendada ou cuja retentativa já venceu
+ */
+function attemptDueFilter(nowIso: string): string {
+  return `next_attempt_at.is.null,next_attempt_at.lte.${nowIso}`;
+}
+
+/**
+ * Repositório de notificações no Supabase
+ */
+export class SupabaseNotificationRepository implements INotificationRepository {
+  private supabase;
+
+  constructor() {
+    this.supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+  }
+
+  /**
+   * Busca uma notificação por ID
+   */
+  async findById(notificationId: string): Promise<NotificationRecord | null> {
+    const { data, error } = await this.supabase
+      .from('notifications')
+      .select(NOTIFICATION_COLUMNS)
+      .eq('id', notificationId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Erro ao buscar notificação ${notificationId}`, { error });
+      throw new Error(`Erro ao buscar notificação: ${error.message}`);
+    }
+
+    return (data as NotificationRecord | null) ?? null;
+  }
+
+  /**
+   * Busca notificações pendentes cujo horário já passou
+   */
+  async findDue(limit: number): Promise<NotificationRecord[]> {
+    const { data, error } = await this.supabase
+      .from('notifications')
+      .select(NOTIFICATION_COLUMNS)
+      .eq('status', 'pending')
+      .lte('scheduled_at', nowUTC().toISOString())
+      .or(attemptDueFilter(nowUTC().toISOString()))
+      .order('scheduled_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      logger.error('Erro ao buscar notificações pendentes', { error });
+      throw new Error(`Erro ao buscar notificações: ${error.message}`);
+    }
+
+    return (data || []) as NotificationRecord[];
+  }
+
+  /**
+   * Reserva atomicamente um lote de notificações pendentes para esta execução
+   */
+  async claimDue(leaseOwner: string, limit: number, leaseSeconds: number): Promise<NotificationRecord[]> {
+    const now = nowUTC();
+
+    const { data: candidates, error: selectError } = await this.supabase
+      .from('notifications')
+      .select('id')
+      .eq('status', 'pending')
+      .lte('scheduled_at', now.toISOString())
+      .or(attemptDueFilter(now.toISOString()))
+      .order('scheduled_at', { ascending: true })
+      .limit(limit);
+
+    if (selectError) {
+      logger.error('Erro ao buscar notificações pendentes', { error: selectError });
+      throw new Error(`Erro ao buscar notificações: ${selectError.message}`);
+    }
+
+    return this.claimCandidates((candidates || []).map((candidate) => candidate.id), leaseOwner, leaseSeconds, now);
+  }
+
+  /**
+   * Reserva as notificações pendentes e vencidas de um usuário (apenas os tipos informados)
+   * Usado para completar o resumo do usuário além do lote de claimDue
+   */
+  async claimDueForUser(
+    userId: string,
+    templateKeys: string[],
+    leaseOwner: string,
+    limit: number,
+    leaseSeconds: number
+  ): Promise<NotificationRecord[]> {
+    const now = nowUTC();
+
+    const { data: candidates, error: selectError } = await this.supabase
+      .from('notifications')
+      .select('id')
+      .eq('user_id', userId)
+      .in('template_key', templateKeys)
+      .eq('status', 'pending')
+      .lte('scheduled_at', now.toISOString())
+      .or(attemptDueFilter(now.toISOString()))
+      .order('scheduled_at', { ascending: true })
+      .limit(limit);
+
+    if (selectError) {
+      logger.error('Erro ao buscar notificações pendentes do usuário', { userId, error: selectError });
+      throw new Error(`Erro ao buscar notificações: ${selectError.message}`);
+    }
+
+    return this.claimCandidates((candidates || []).map((candidate) => candidate.id), leaseOwner, leaseSeconds, now);
+  }
+
+  /**
+   * O UPDATE condicionado a status = 'pending' garante que cada linha
+   * seja reservada por apenas um dono, mesmo com execuções concorrentes
+   */
+  private async claimCandidates(
+    ids: string[],
+    leaseOwner: string,
+    leaseSeconds: number,
+    now: Date
+  ): Promise<NotificationRecord[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const { data: claimed, error: claimError } = await this.supabase
+      .from('notifications')
+      .update({
+        status: 'processing',
+        lease_owner: leaseOwner,
+        lease_expires_at: new Date(now.getTime() + leaseSeconds * 1000).toISOString(),
+        claimed_at: now.toISOString(),
+        updated_at: now.toISOString(),
+      })
+      .in('id', ids)
+      .eq('status', 'pending')
+      .select(NOTIFICATION_COLUMNS);
+
+    if (claimError) {
+      logger.error('Erro ao reservar notificações pendentes', { error: claimError });
+      throw new Error(`Erro ao reservar notificações: ${claimError.message}`);
+    }
+
+    const notifications = (claimed || []) as NotificationRecord[];
+
+    if (notifications.length < ids.length) {
+      logger.info('🔒 Parte do lote já reservada por outra execução', {
+        candidates: ids.length,
+        claimed: notifications.length,
+      });
+    }
+
+    return notifications.sort((a, b) => (a.scheduled_at || '').localeCompare(b.scheduled_at || ''));
+  }
+
+  /**
+   * Devolve para a fila notificações cujo lease expirou (execução interrompida)
+   */
+  async reclaimExpiredLeases(): Promise<number> {
+    const now = nowUTC().toISOString();
+
+    const { data, error } = await this.supabase
+      .from('notifications')
+      .update({
+        status: 'pending',
+        lease_owner: null,
+        lease_expires_at: null,
+        updated_at: now,
+      })
+      .eq('status', 'processing')
+      .lt('lease_expires_at', now)
+      .select('id');
+
+    if (error) {
+      logger.error('Erro ao recuperar leases expirados', { error });
+      return 0;
+    }
+
+    if (data && data.length > 0) {
+      logger.warn(`♻️ ${data.length} notificações com lease expirado devolvidas à fila`, {
+        ids: data.map((row) => row.id),
+      });
+    }
+
+    return data?.length ?? 0;
+  }
+
+  /**
+   * Atualiza o status de uma notificação
+   */
+  async updateStatus(notificationId: string, status: string, update: NotificationStatusUpdate = {}): Promise<boolean> {
+    try {
+      const updateData: any = {
+        status: status,
+        updated_at: nowUTC().toISOString()
+      };
+
+      if (status === 'sent' && update.sentAt) {
+        updateData.sent_at = update.sentAt.toISOString();
+      }
+
+      if (update.errorMessage && (['failed', 'dead_letter', 'pending'].includes(status) || status.startsWith('skipped_'))) {
+        updateData.error_message = update.errorMessage;
+      }
+
+      if (update.providerMessageId) {
+        updateData.provider_message_id = update.providerMessageId;
+      }
+
+      if (update.templateVersionId) {
+        updateData.template_version_id = update.templateVersionId;
+        updateData.template_version = update.templateVersion ?? null;
+      }
+
+      if (update.digestId) {
+        updateData.digest_id = update.digestId;
+      }
+
+      if (update.attemptCount !== undefined) {
+        updateData.attempt_count = update.attemptCount;
+      }
+
+      if (status === 'pending') {
+        updateData.next_attempt_at = update.nextAttemptAt ? update.nextAttemptAt.toISOString() : null;
+      }
+
+      if (update.scheduledAt) {
+        updateData.scheduled_at = update.scheduledAt.toISOString();
+      }
+
+      if (status !== 'processing') {
+        updateData.lease_owner = null;
+        updateData.lease_expires_at = null;
+      }
+
+      let query = this.supabase
+        .from('notifications')
+        .update(updateData)
+        .eq('id', notificationId);
+
+      if (update.leaseOwner) {
+        query = query.eq('lease_owner', update.leaseOwner);
+      }
+
+      const { data, error } = await query.select('id');
+
+      if (error) {
+        logger.error(`Erro ao atualizar status da notificação ${notificationId}:`, { error });
+        return false;
+      }
+
+      if (!data || data.length === 0) {
+        logger.warn(`⚠️ Notificação ${notificationId} não atualizada: lease perdido ou registro inexistente`, {
+          leaseOwner: update.leaseOwner,
+        });
+        return false;
+      }
+
+      logger.info(`✅ Status atualizado para notificação ${notificationId}: ${status}`);
+      return true;
+    } catch (error) {
+      logger.error(`Exceção ao atualizar status da notificação ${notificationId}:`, { error });
+      return false;
+    }
+  }
+
+  /**
+   * Lista notificações por status (mais recentes primeiro)
+   */
+  async listByStatus(status: string, limit: number, offset: number): Promise<NotificationPage> {
+    const { data, error, count } = await this.supabase
+      .from('notifications')
+      .select(NOTIFICATION_COLUMNS, { count: 'exact' })
+      .eq('status', status)
+      .order('updated_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      logger.error(`Erro ao listar notificações com status ${status}`, { error });
+      throw new Error(`Erro ao listar notificações: ${error.message}`);
+    }
+
+    return {
+      notifications: (data || []) as NotificationRecord[],
+      total: count ?? 0,
+    };
+  }
+
+  /**
+   * Devolve uma notificação para a fila, zerando as tentativas
+   * Só se aplica se a notificação ainda estiver em `fromStatus`
+   */
+  async requeue(notificationId: string, fromStatus: string): Promise<NotificationRecord | null> {
+    const now = nowUTC().toISOString();
+
+    const { data, error } = await this.supabase
+      .from('notifications')
+      .update({
+        status: 'pending',
+        attempt_count: 0,
+        next_attempt_at: null,
+        error_message: null,
+        lease_owner: null,
+        lease_expires_at: null,
+        updated_at: now,
+      })
+      .eq('id', notificationId)
+      .eq('status', fromStatus)
+      .select(NOTIFICATION_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Erro ao reenfileirar notificação ${notificationId}`, { error });
+      throw new Error(`Erro ao reenfileirar notificação: ${error.message}`);
+    }
+
+    return (data as NotificationRecord | null) ?? null;
+  }
+
+  /**
+   * Atualiza o estado de entrega das notificações enviadas com a mensagem do provedor
+   * Só substitui estados em `replaceable` (ou vazio), para eventos fora de ordem não regredirem
+   */
+  async updateDeliveryStatus(providerMessageId: string, deliveryStatus: string, update: DeliveryStatusUpdate): Promise<number> {
+    const replaceable = update.replaceable.length > 0 ? `,delivery_status.in.(${update.replaceable.join(',')})` : '';
+
+    const { data, error } = await this.supabase
+      .from('notifications')
+      .update({
+        delivery_status: deliveryStatus,
+        delivery_updated_at: update.occurredAt.toISOString(),
+        updated_at: nowUTC().toISOString(),
+      })
+      .eq('provider_message_id', providerMessageId)
+      .or(`delivery_status.is.null${replaceable}`)
+      .select('id');
+
+    if (error) {
+      logger.error(`Erro ao atualizar entrega da mensagem ${providerMessageId}`, { error });
+      throw new Error(`Erro ao atualizar estado de entrega: ${error.message}`);
+    }
+
+    return data?.length ?? 0;
+  }
+}
@@ -0,0 +1,92 @@
+import { createClient } from '@supabase/supabase-js';
+import { env } from '../../../shared/config/environment.js';
+import { logger } from '../../../shared/utils/logger.js';
+import { normalizeLocale } from '../../../shared/i18n/locale.js';
+import { isValidTimezone } from '../../../shared/utils/date-utils.js';
+import type { NotificationDeliveryMode, NotificationRecipient } from '../../../shared/types/notification.js';
+import type { IRecipientRepository } from '../domain/repositories/recipient-repository.js';
+
+/**
+ * Repositório de destinatários no Supabase
+ * Combina auth.users (email) com user_profiles (nome, idioma, fuso e preferência de entrega)
+ */
+export class SupabaseRecipientRepository implements IRecipientRepository {
+  private supabase;
+
+  constructor() {
+    this.supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+  }
+
+  /**
+   * Busca email, nome, idioma e preferências do usuário
+   * Retorna null quando nenhum endereço é encontrado
+   */
+  async findByUserId(userId: string): Promise<NotificationRecipient | null> {
+    const { data: profile, error: profileError } = await this.supabase
+      .from('user_profiles')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    // Falhas de consulta são lançadas: null significa apenas que o usuário não tem endereço
+    if (profileError) {
+      logger.error('Erro ao buscar user_profiles do destinatário', { userId, error: profileError.message });
+      throw new Error(`Erro ao buscar perfil do destinatário: ${profileError.message}`);
+    }
+
+    const name: string | undefined = profile?.nome_preferido || profile?.nome || undefined;
+
+    const { data, error } = await this.supabase.auth.admin.getUserById(userId);
+
+    // 404: usuário removido de auth.users (segue para o email do perfil, se houver)
+    if (error && error.status !== 404) {
+      logger.error('Erro ao buscar auth.users do destinatário', { userId, error: error.message });
+      throw new Error(`Erro ao buscar usuário do destinatário: ${error.message}`);
+    }
+
+    let email: string | undefined = data?.user?.email || undefined;
+
+    // Fallback: perfis que armazenam o email diretamente
+    if (!email && profile?.email) {
+      email = String(profile.email);
+    }
+
+    if (!email) {
+      return null;
+    }
+
+    const timezone: string | undefined = isValidTimezone(profile?.timezone) ? profile.timezone : undefined;
+
+    const deliveryMode: NotificationDeliveryMode = profile?.notification_delivery === 'digest' ? 'digest' : 'immediate';
+
+    return {
+      userId,
+      email,
+      name,
+      locale: normalizeLocale(profile?.locale) ?? undefined,
+      timezone,
+      deliveryMode,
+      emailOptOuts: await this.findEmailOptOuts(userId),
+    };
+  }
+
+  /**
+   * Tipos de notificação desativados pelo usuário no canal email
+   */
+  private async findEmailOptOuts(userId: string): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from('notification_preferences')
+      .select('notification_type')
+      .eq('user_id', userId)
+      .eq('channel', 'email')
+      .eq('enabled', false);
+
+    // Sem as preferências não há como respeitar um opt-out: a falha interrompe o envio
+    if (error) {
+      logger.error('Erro ao buscar preferências do destinatário', { userId, error: error.message });
+      throw new Error(`Erro ao buscar preferências do destinatário: ${error.message}`);
+    }
+
+    return (data || []).map((row) => String(row.notification_type));
+  }
+}
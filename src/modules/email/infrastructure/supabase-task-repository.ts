@@ -0,0 +1,191 @@
+import { createClient } from '@supabase/supabase-js';
+import { env } from '../../../shared/config/environment.js';
+import { logger } from '../../../shared/utils/logger.js';
+import type { NotificationRecord, TaskContext } from '../../../shared/types/notification.js';
+import type { ITaskRepository } from '../domain/repositories/task-repository.js';
+
+/**
+ * Tabelas candidatas para resolver o nome da planta, em ordem de preferência
+ * `plantas` é a tabela alternativa em PT-BR (usa 'strain' como nome)
+ */
+const PLANT_SOURCES: { table: string; nameColumn: string }[] = [
+  { table: 'user_plants', nameColumn: 'name' },
+  { table: 'plants', nameColumn: 'name' },
+  { table: 'plantas', nameColumn: 'strain' },
+];
+
+/**
+ * Repositório de tarefas no Supabase
+ * Resolve o contexto de `todos` e `user_tasks` vinculados às notificações
+ */
+export class SupabaseTaskRepository implements ITaskRepository {
+  private supabase;
+
+  constructor() {
+    this.supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+  }
+
+  /**
+   * Resolve contexto da tarefa vinculada à notificação
+   * - Verifica se já foi concluída
+   * - Obtém informações complementares (ex.: nome da planta)
+   */
+  async getTaskContext(notification: NotificationRecord): Promise<TaskContext> {
+    const taskTable: string | undefined = notification.linked_task_table || notification.payload?.task_table;
+    const taskId: string | undefined = notification.linked_task_id || notification.payload?.task_id;
+
+    if (!taskTable || !taskId) {
+      return { isCompleted: false };
+    }
+
+    try {
+      // Todos
+      if (taskTable === 'todos') {
+        const { data, error } = await this.supabase
+          .from('todos')
+          .select('*, completed_at')
+          .eq('id', taskId)
+          .single();
+
+        if (error) return { isCompleted: false };
+
+        const isCompleted = !!(data && (data.completed === true || data.status === 'completed'));
+        return {
+          isCompleted,
+          taskTitle: data?.title,
+          taskDueDate: data?.due_date,
+          taskPriority: data?.priority,
+          completedAt: (data as any)?.completed_at || undefined,
+        };
+      }
+
+      // User tasks (tarefas de cultivo)
+      if (taskTable === 'user_tasks') {
+        const { data: task, error } = await this.supabase
+          .from('user_tasks')
+          .select('*')
+          .eq('id', taskId)
+          .single();
+
+        if (error) return { isCompleted: false };
+
+        let isCompleted = !!(task && (task.status === 'completed' || task.completed === true));
+
+        // Como fallback, verifica se existe registro de conclusão
+        let completedAt: string | undefined = undefined;
+        if (!isCompleted) {
+          const { data: completion } = await this.supabase
+            .from('task_completions')
+            .select('completed_at')
+            .eq('task_id', taskId)
+            .order('completed_at', { ascending: true })
+            .limit(1)
+            .maybeSingle();
+          if (completion?.completed_at) {
+            completedAt = completion.completed_at as string;
+            isCompleted = true;
+          }
+        } else {
+          // Caso a task possua completed_at próprio no registro
+          completedAt = (task as any)?.completed_at || undefined;
+        }
+
+        // Enriquecimento: planta e jardim (tenda)
+        let plantName: string | undefined = task?.plant_name;
+        let gardenName: string | undefined;
+        const rawPlantId = task?.plant_id ?? notification.payload?.plant_id;
+        const plantId = (typeof rawPlantId === 'string' && /^\d+$/.test(rawPlantId))
+          ? Number(rawPlantId)
+          : rawPlantId;
+
+        if (!plantName && plantId !== undefined && plantId !== null) {
+          const plant = await this.resolvePlant(taskId, plantId);
+          plantName = plant.plantName;
+          gardenName = plant.gardenName;
+        }
+
+        return {
+          isCompleted,
+          plantName,
+          taskTitle: task?.name,
+          taskDueDate: task?.due_date,
+          taskPriority: task?.priority,
+          taskCategory: task?.category,
+          gardenName,
+          completedAt,
+        };
+      }
+
+      // Demais tabelas não tratadas
+      return { isCompleted: false };
+    } catch {
+      return { isCompleted: false };
+    }
+  }
+
+  /**
+   * Resolve nome da planta e do jardim (tenda) nas tabelas candidatas
+   */
+  private async resolvePlant(taskId: string, plantId: unknown): Promise<{ plantName?: string | undefined; gardenName?: string | undefined }> {
+    for (const { table, nameColumn } of PLANT_SOURCES) {
+      try {
+        const { data: plant, error } = await this.supabase
+          .from(table)
+          .select(`${nameColumn}, tenda_id`)
+          .eq('id', plantId as any)
+          .maybeSingle();
+
+        const plantName = (plant as any)?.[nameColumn] as string | undefined;
+        if (error || !plantName) continue;
+
+        logger.info(`🌿 plant_name resolvido via ${table}`, {
+          taskId,
+          plantId,
+          source: table,
+          plantName
+        });
+
+        const tendaId = (plant as any)?.tenda_id;
+        if (tendaId === undefined || tendaId === null) {
+          logger.info(`🏡 ${table} sem tenda_id`, { taskId, plantId });
+          return { plantName };
+        }
+
+        const gardenName = await this.resolveTendaName(taskId, plantId, tendaId, table);
+        return { plantName, gardenName };
+      } catch {
+        // ignore
+      }
+    }
+
+    logger.info('🌿 plant_name não encontrado', {
+      taskId,
+      plantId,
+      tried: PLANT_SOURCES.map((source) => source.table)
+    });
+    return {};
+  }
+
+  /**
+   * Busca o nome da tenda (jardim) associada à planta
+   */
+  private async resolveTendaName(taskId: string, plantId: unknown, tendaId: unknown, source: string): Promise<string | undefined> {
+    try {
+      const { data: tenda } = await this.supabase
+        .from('tendas')
+        .select('*')
+        .eq('id', String(tendaId))
+        .maybeSingle();
+      const gardenName = ((tenda as any)?.nome || (tenda as any)?.name || (tenda as any)?.title || (tenda as any)?.label) as string | undefined;
+      if (gardenName) {
+        logger.info(`🏡 garden_name resolvido via tendas (${source})`, { taskId, plantId, tendaId, gardenName });
+      } else {
+        logger.info(`🏡 tenda sem nome (${source})`, { taskId, plantId, tendaId, tenda });
+      }
+      return gardenName;
+    } catch (e) {
+      logger.info(`🏡 erro ao buscar tendas (${source})`, { taskId, plantId, error: (e as Error).message });
+      return undefined;
+    }
+  }
+}
@@ -1,12 +1,34 @@
 import type { FastifyRequest, FastifyReply } from 'fastify';
 import { EmailUseCases } from '../application/email-use-cases.js';
-import { ResendEmailService } from '../infrastructure/resend-email-service.js';
-import { MockEmailService } from '../infrastructure/mock-email-service.js';
-import { sendEmailSchema } from '../../../shared/types/email.js';
+import { NotificationDispatcher } from '../application/notification-dispatcher.js';
+import { createEmailService } from '../infrastructure/email-service-factory.js';
+import { NotificationQueueUseCases } from '../application/notification-queue-use-cases.js';
+import { EmailTemplateUseCases, type EmailTemplatePreviewInput, type EmailTemplateValidationInput } from '../application/email-template-use-cases.js';
+import type { EmailTemplateVersionContent } from '../domain/repositories/email-template-version-repository.js';
+import {
+  createNotificationDispatcher,
+  createNotificationQueueUseCases,
+  createEmailTemplateUseCases,
+  createEmailUseCases,
+  createEmailSuppressionUseCases,
+  createEmailMessageUseCases,
+} from '../infrastructure/notification-factory.js';
+import type { EmailMessageUseCases } from '../application/email-message-use-cases.js';
+import type { EmailSuppressionUseCases } from '../application/email-suppression-use-cases.js';
+import { principalLabel } from '../../auth/presentation/auth-guard.js';
+import {
+  sendEmailSchema,
+  SUPPRESSED_ERROR_CODE,
+  type EmailResponse,
+  type EmailSuppressionReason,
+  type EmailMessageRecord,
+} from '../../../shared/types/email.js';
+import type { NotificationDispatchSummary } from '../../../shared/types/notification.js';
+import type { JobScheduler } from '../../../shared/services/job-scheduler.js';
+import { BaseError } from '../../../shared/errors/base-error.js';
 import { logger } from '../../../shared/utils/logger.js';
 import { env } from '../../../shared/config/environment.js';
-import { createClient } from '@supabase/supabase-js';
-import { nowUTC, formatBrazilianDate } from '../../../shared/utils/date-utils.js';
+import { nowUTC } from '../../../shared/utils/date-utils.js';
 
 /**
  * Controller para endpoints de email
@@ -15,31 +37,24 @@ import { nowUTC, formatBrazilianDate } from '../../../shared/utils/date-utils.js
 export class EmailController {
   private emailUseCases: EmailUseCases;
   private emailServiceType: string;
-  private supabase;
-
-  constructor() {
-    let emailService;
-    
-    if (env.RESEND_API_KEY) {
-      logger.info('📧 Usando ResendEmailService (produção)', {
-        hasApiKey: !!env.RESEND_API_KEY,
-        apiKeyLength: env.RESEND_API_KEY.length,
-        fromEmail: env.RESEND_FROM_EMAIL,
-      });
-      emailService = new ResendEmailService();
-      this.emailServiceType = 'ResendEmailService';
-    } else {
-      logger.warn('📧 RESEND_API_KEY não configurada, usando MockEmailService (desenvolvimento)', {
-        hasApiKey: false,
-        nodeEnv: env.NODE_ENV,
-        fromEmail: env.RESEND_FROM_EMAIL,
-      });
-      emailService = new MockEmailService();
-      this.emailServiceType = 'MockEmailService';
-    }
-    
-    this.emailUseCases = new EmailUseCases(emailService);
-    this.supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+  private emailProvider: string;
+  private notificationDispatcher: NotificationDispatcher;
+  private notificationQueueUseCases: NotificationQueueUseCases;
+  private emailTemplateUseCases: EmailTemplateUseCases;
+  private emailSuppressionUseCases: EmailSuppressionUseCases;
+  private emailMessageUseCases: EmailMessageUseCases;
+
+  constructor(private notificationScheduler: JobScheduler<NotificationDispatchSummary> | null = null) {
+    const emailService = createEmailService();
+
+    this.emailServiceType = emailService.type;
+    this.emailProvider = emailService.provider;
+    this.emailUseCases = createEmailUseCases(emailService);
+    this.notificationDispatcher = createNotificationDispatcher(this.emailUseCases);
+    this.notificationQueueUseCases = createNotificationQueueUseCases();
+    this.emailTemplateUseCases = createEmailTemplateUseCases(this.notificationDispatcher);
+    this.emailSuppressionUseCases = createEmailSuppressionUseCases();
+    this.emailMessageUseCases = createEmailMessageUseCases();
   }
 
   /**
@@ -56,6 +71,7 @@ export class EmailController {
           fromEmail: env.RESEND_FROM_EMAIL,
         },
         service: {
+          provider: this.emailProvider,
           type: this.emailServiceType,
           isMock: this.emailServiceType === 'MockEmailService',
         },
@@ -63,7 +79,7 @@ export class EmailController {
       };
 
       // Adiciona recomendações baseadas na configuração
-      if (!env.RESEND_API_KEY) {
+      if (this.emailProvider === 'mock' && !env.RESEND_API_KEY) {
         diagnostics.recommendations.push(
           'Configure RESEND_API_KEY no Railway para usar o serviço real de email'
         );
@@ -75,6 +91,12 @@ export class EmailController {
         );
       }
 
+      if (env.NODE_ENV === 'production' && ['mock', 'file'].includes(this.emailProvider)) {
+        diagnostics.recommendations.push(
+          `⚠️ ATENÇÃO: Produção com EMAIL_PROVIDER=${this.emailProvider} - emails não chegam aos destinatários!`
+        );
+      }
+
       logger.info('Diagnóstico de email solicitado', diagnostics);
 
       return reply.status(200).send({
@@ -114,15 +136,12 @@ export class EmailController {
         return reply.status(200).send({
           success: true,
           message: 'Email enviado com sucesso',
-          data: result.data
+          data: result.data,
+          ...(result.suppressedRecipients ? { suppressedRecipients: result.suppressedRecipients } : {})
         });
       } else {
         logger.error('Falha ao enviar email', { error: result.error });
-        return reply.status(500).send({
-          success: false,
-          message: 'Falha ao enviar email',
-          error: result.error
-        });
+        return this.sendEmailFailure(reply, result, 'Falha ao enviar email');
       }
 
     } catch (error) {
@@ -143,7 +162,7 @@ export class EmailController {
    */
   async sendWelcomeEmail(request: FastifyRequest, reply: FastifyReply) {
     try {
-      const { name, email } = request.body as { name: string; email: string };
+      const { name, email, locale } = request.body as { name: string; email: string; locale?: string };
 
       if (!name || !email) {
         return reply.status(400).send({
@@ -152,29 +171,7 @@ export class EmailController {
         });
       }
 
-      const emailData = {
-        to: [email],
-        subject: `Bem-vindo ao GrowSpace, ${name}! 🌱`,
-        html: `
-          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-            <h1 style="color: #22c55e;">🌱 Bem-vindo ao GrowSpace!</h1>
-            <p>Olá, <strong>${name}</strong>!</p>
-            <p>Estamos muito felizes em tê-lo conosco no GrowSpace, sua plataforma completa para gestão de cultivo.</p>
-            <p>Com o GrowSpace, você pode:</p>
-            <ul>
-              <li>📋 Gerenciar tarefas de cultivo</li>
-              <li>🌿 Acompanhar o crescimento das plantas</li>
-              <li>📊 Visualizar métricas de produção</li>
-              <li>🔔 Receber lembretes automáticos</li>
-            </ul>
-            <p>Se você tiver alguma dúvida, não hesite em entrar em contato conosco.</p>
-            <p>Atenciosamente,<br>Equipe GrowSpace</p>
-          </div>
-        `,
-        text: `Bem-vindo ao GrowSpace, ${name}! Estamos muito felizes em tê-lo conosco.`
-      };
-
-      const result = await this.emailUseCases.sendEmail(emailData);
+      const result = await this.emailUseCases.sendWelcomeEmail(email, name, locale);
 
       if (result.success) {
         logger.info('Email de boas-vindas enviado', { email, emailId: result.data?.id });
@@ -185,11 +182,7 @@ export class EmailController {
         });
       } else {
         logger.error('Falha ao enviar email de boas-vindas', { email, error: result.error });
-        return reply.status(500).send({
-          success: false,
-          message: 'Falha ao enviar email de boas-vindas',
-          error: result.error
-        });
+        return this.sendEmailFailure(reply, result, 'Falha ao enviar email de boas-vindas');
       }
 
     } catch (error) {
@@ -209,7 +202,7 @@ export class EmailController {
    */
   async sendPasswordResetEmail(request: FastifyRequest, reply: FastifyReply) {
     try {
-      const { email, resetToken } = request.body as { email: string; resetToken: string };
+      const { email, resetToken, locale } = request.body as { email: string; resetToken: string; locale?: string };
 
       if (!email || !resetToken) {
         return reply.status(400).send({
@@ -218,26 +211,7 @@ export class EmailController {
         });
       }
 
-      const resetUrl = `https://growspace.app/reset-password?token=${resetToken}`;
-
-      const emailData = {
-        to: [email],
-        subject: '🔐 Reset de Senha - GrowSpace',
-        html: `
-          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-            <h1 style="color: #22c55e;">🔐 Reset de Senha</h1>
-            <p>Você solicitou um reset de senha para sua conta no GrowSpace.</p>
-            <p>Clique no botão abaixo para criar uma nova senha:</p>
-            <a href="${resetUrl}" style="display: inline-block; background: #22c55e; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; margin: 20px 0;">Resetar Senha</a>
-            <p>Se você não solicitou este reset, ignore este email.</p>
-            <p>Este link expira em 1 hora.</p>
-            <p>Atenciosamente,<br>Equipe GrowSpace</p>
-          </div>
-        `,
-        text: `Reset de senha solicitado. Acesse: ${resetUrl}`
-      };
-
-      const result = await this.emailUseCases.sendEmail(emailData);
+      const result = await this.emailUseCases.sendPasswordResetEmail(email, resetToken, locale);
 
       if (result.success) {
         logger.info('Email de reset de senha enviado', { email, emailId: result.data?.id });
@@ -248,11 +222,7 @@ export class EmailController {
         });
       } else {
         logger.error('Falha ao enviar email de reset de senha', { email, error: result.error });
-        return reply.status(500).send({
-          success: false,
-          message: 'Falha ao enviar email de reset de senha',
-          error: result.error
-        });
+        return this.sendEmailFailure(reply, result, 'Falha ao enviar email de reset de senha');
       }
 
     } catch (error) {
@@ -268,887 +238,530 @@ export class EmailController {
   }
 
   /**
-   * Busca template de email por chave
+   * Processa notificações pendentes (sem enviar)
    */
-  private async getEmailTemplate(templateKey: string) {
+  async processPendingNotifications(request: FastifyRequest, reply: FastifyReply) {
     try {
-      logger.info(`🔍 Buscando template para key: "${templateKey}"`);
-      
-      const { data: template, error } = await this.supabase
-        .from('email_templates')
-        .select('*')
-        .eq('template_key', templateKey)
-        .eq('active', true)
-        .single();
-  
-      if (error) {
-        logger.warn(`❌ Erro ao buscar template "${templateKey}":`, { 
-          error: error.message,
-          code: error.code,
-          details: error.details,
-          hint: error.hint
-        });
-        return null;
-      }
-  
-      if (!template) {
-        logger.warn(`❌ Template não encontrado para key: "${templateKey}"`);
-        return null;
-      }
-  
-      logger.info(`✅ Template encontrado para "${templateKey}":`, {
-        id: template.id,
-        name: template.name,
-        template_key: template.template_key,
-        active: template.active,
-        hasSubject: !!template.subject_template,
-        hasHtml: !!template.html_template,
-        subjectPreview: template.subject_template?.substring(0, 50) + '...'
+      logger.info('🔍 Buscando notificações pendentes para processamento');
+
+      const summary = await this.notificationDispatcher.preview();
+
+      return reply.status(200).send({
+        success: true,
+        message: summary.processed === 0 ? 'Nenhuma notificação pendente' : 'Notificações processadas com sucesso',
+        data: summary
       });
-  
-      return template;
+
     } catch (error) {
-      logger.error(`💥 Exceção ao buscar template "${templateKey}":`, { 
+      logger.error('Erro ao processar notificações pendentes', {
         error: error instanceof Error ? error.message : 'Unknown error',
         stack: error instanceof Error ? error.stack : undefined
       });
-      return null;
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Erro interno do servidor'
+      });
     }
   }
 
   /**
-   * Resolve contexto da tarefa vinculada à notificação
-   * - Verifica se já foi concluída
-   * - Obtém informações complementares (ex.: nome da planta)
+   * Processa e envia notificações pendentes automaticamente
    */
-  private async getTaskContext(notification: any): Promise<{
-    isCompleted: boolean;
-    plantName?: string | undefined;
-    taskTitle?: string | undefined;
-    taskDueDate?: string | undefined;
-    taskPriority?: string | undefined;
-    taskCategory?: string | undefined;
-    gardenName?: string | undefined;
-    completedAt?: string | undefined;
-  }> {
-    const taskTable: string | undefined = notification.linked_task_table || notification.payload?.task_table;
-    const taskId: string | undefined = notification.linked_task_id || notification.payload?.task_id;
-
-    if (!taskTable || !taskId) {
-      return { isCompleted: false };
-    }
+  async processAndSendNotifications(request: FastifyRequest, reply: FastifyReply) {
+    const startTime = Date.now();
 
     try {
-      // Todos
-      if (taskTable === 'todos') {
-        const { data, error } = await this.supabase
-          .from('todos')
-          .select('*, completed_at')
-          .eq('id', taskId)
-          .single();
-
-        if (error) return { isCompleted: false };
-
-        const isCompleted = !!(data && (data.completed === true || data.status === 'completed'));
-        return {
-          isCompleted,
-          taskTitle: data?.title,
-          taskDueDate: data?.due_date,
-          taskPriority: data?.priority,
-          completedAt: (data as any)?.completed_at || undefined,
-        };
-      }
+      const summary = await this.notificationDispatcher.dispatch();
 
-      // User tasks (tarefas de cultivo)
-      if (taskTable === 'user_tasks') {
-        const { data: task, error } = await this.supabase
-          .from('user_tasks')
-          .select('*')
-          .eq('id', taskId)
-          .single();
-
-        if (error) return { isCompleted: false };
-
-        let isCompleted = !!(task && (task.status === 'completed' || task.completed === true));
-
-        // Como fallback, verifica se existe registro de conclusão
-        let completedAt: string | undefined = undefined;
-        if (!isCompleted) {
-          const { data: completion } = await this.supabase
-            .from('task_completions')
-            .select('completed_at')
-            .eq('task_id', taskId)
-            .order('completed_at', { ascending: true })
-            .limit(1)
-            .maybeSingle();
-          if (completion?.completed_at) {
-            completedAt = completion.completed_at as string;
-            isCompleted = true;
-          }
-        } else {
-          // Caso a task possua completed_at próprio no registro
-          completedAt = (task as any)?.completed_at || undefined;
-        }
+      return reply.status(200).send({
+        success: true,
+        message: summary.processed === 0 ? 'Nenhuma notificação pendente' : 'Processamento e envio concluído',
+        data: summary
+      });
 
-        // Enriquecimento: planta e jardim (tenda)
-        let plantName: string | undefined = task?.plant_name;
-        let gardenName: string | undefined;
-        const rawPlantId = task?.plant_id ?? notification.payload?.plant_id;
-        const plantId = (typeof rawPlantId === 'string' && /^\d+$/.test(rawPlantId))
-          ? Number(rawPlantId)
-          : rawPlantId;
-
-        if (!plantName && plantId !== undefined && plantId !== null) {
-          // Preferir user_plants; se não existir, tentar plants
-          try {
-            const { data: userPlant, error: upErr } = await this.supabase
-              .from('user_plants')
-              .select('name, tenda_id')
-              .eq('id', plantId as any)
-              .maybeSingle();
-            if (!upErr && userPlant?.name) {
-              plantName = userPlant.name;
-              logger.info('🌿 plant_name resolvido via user_plants', {
-                taskId,
-                plantId,
-                source: 'user_plants',
-                plantName
-              });
-              const tendaId = (userPlant as any)?.tenda_id;
-              if (tendaId !== undefined && tendaId !== null) {
-                try {
-                  const { data: tenda } = await this.supabase
-                    .from('tendas')
-                    .select('*')
-                    .eq('id', String(tendaId))
-                    .maybeSingle();
-                  gardenName = ((tenda as any)?.nome || (tenda as any)?.name || (tenda as any)?.title || (tenda as any)?.label) as string | undefined;
-                  if (gardenName) {
-                    logger.info('🏡 garden_name resolvido via tendas (user_plants)', { taskId, plantId, tendaId, gardenName });
-                  } else {
-                    logger.info('🏡 tenda sem nome (user_plants)', { taskId, plantId, tendaId, tenda });
-                  }
-                } catch (e) {
-                  logger.info('🏡 erro ao buscar tendas (user_plants)', { taskId, plantId, error: (e as Error).message });
-                }
-              } else {
-                logger.info('🏡 user_plants sem tenda_id', { taskId, plantId });
-              }
-            }
-          } catch {
-            // ignore
-          }
-          if (!plantName) {
-            try {
-              const { data: plant, error: pErr } = await this.supabase
-                .from('plants')
-                .select('name, tenda_id')
-                .eq('id', plantId as any)
-                .maybeSingle();
-              if (!pErr && plant?.name) {
-                plantName = plant.name;
-                logger.info('🌿 plant_name resolvido via plants', {
-                  taskId,
-                  plantId,
-                  source: 'plants',
-                  plantName
-                });
-                const tendaId = (plant as any)?.tenda_id;
-                if (tendaId !== undefined && tendaId !== null) {
-                  try {
-                    const { data: tenda } = await this.supabase
-                      .from('tendas')
-                      .select('*')
-                      .eq('id', String(tendaId))
-                      .maybeSingle();
-                    gardenName = ((tenda as any)?.nome || (tenda as any)?.name || (tenda as any)?.title || (tenda as any)?.label) as string | undefined;
-                    if (gardenName) {
-                      logger.info('🏡 garden_name resolvido via tendas (plants)', { taskId, plantId, tendaId, gardenName });
-                    } else {
-                      logger.info('🏡 tenda sem nome (plants)', { taskId, plantId, tendaId, tenda });
-                    }
-                  } catch (e) {
-                    logger.info('🏡 erro ao buscar tendas (plants)', { taskId, plantId, error: (e as Error).message });
-                  }
-                } else {
-                  logger.info('🏡 plants sem tenda_id', { taskId, plantId });
-                }
-              }
-            } catch {
-              // ignore
-            }
-          }
-          // Tabela alternativa em PT-BR: plantas (usa 'strain' como nome)
-          if (!plantName) {
-            try {
-              const { data: planta, error: plErr } = await this.supabase
-                .from('plantas')
-                .select('strain, tenda_id')
-                .eq('id', plantId as any)
-                .maybeSingle();
-              if (!plErr && planta?.strain) {
-                plantName = planta.strain as string;
-                logger.info('🌿 plant_name resolvido via plantas', {
-                  taskId,
-                  plantId,
-                  source: 'plantas',
-                  plantName
-                });
-                const tendaId = (planta as any)?.tenda_id;
-                if (tendaId !== undefined && tendaId !== null) {
-                  try {
-                    const { data: tenda } = await this.supabase
-                      .from('tendas')
-                      .select('*')
-                      .eq('id', String(tendaId))
-                      .maybeSingle();
-                    gardenName = ((tenda as any)?.nome || (tenda as any)?.name || (tenda as any)?.title || (tenda as any)?.label) as string | undefined;
-                    if (gardenName) {
-                      logger.info('🏡 garden_name resolvido via tendas (plantas)', { taskId, plantId, tendaId, gardenName });
-                    } else {
-                      logger.info('🏡 tenda sem nome (plantas)', { taskId, plantId, tendaId, tenda });
-                    }
-                  } catch (e) {
-                    logger.info('🏡 erro ao buscar tendas (plantas)', { taskId, plantId, error: (e as Error).message });
-                  }
-                } else {
-                  logger.info('🏡 plantas sem tenda_id', { taskId, plantId });
-                }
-              }
-            } catch {
-              // ignore
-            }
-          }
-          if (!plantName) {
-            logger.info('🌿 plant_name não encontrado', {
-              taskId,
-              plantId,
-              tried: ['user_plants', 'plants', 'plantas']
-            });
-          }
-        }
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
 
-        return {
-          isCompleted,
-          plantName,
-          taskTitle: task?.name,
-          taskDueDate: task?.due_date,
-          taskPriority: task?.priority,
-          taskCategory: task?.category,
-          gardenName,
-          completedAt,
-        };
-      }
+      logger.error('Erro inesperado ao processar e enviar notificações', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined,
+        processingTime: processingTime
+      });
 
-      // Demais tabelas não tratadas
-      return { isCompleted: false };
-    } catch {
-      return { isCompleted: false };
+      return reply.status(500).send({
+        success: false,
+        message: 'Erro interno do servidor',
+        data: {
+          processed: 0,
+          sent: 0,
+          failed: 0,
+          deferred: 0,
+          successRate: 0,
+          processingTime: processingTime,
+          details: []
+        }
+      });
     }
   }
 
   /**
-   * Tenta resolver o nome do jardim (ambiente) em diferentes tabelas/colunas
+   * Lista notificações em dead-letter
    */
-  private async resolveGardenName(envId: string | number): Promise<string | undefined> {
-    const candidates: { table: string; cols: string[] }[] = [
-      { table: 'ambientes', cols: ['name', 'nome', 'title', 'titulo', 'label', 'descricao', 'description', 'apelido', 'nome_ambiente', 'display_name', 'nome_display'] },
-      { table: 'ambiente', cols: ['name', 'nome', 'titulo', 'label', 'descricao', 'apelido', 'display_name'] },
-      { table: 'environments', cols: ['name', 'title', 'label', 'description', 'display_name'] },
-      { table: 'gardens', cols: ['name', 'title', 'label', 'description', 'display_name'] },
-      { table: 'tendas', cols: ['name', 'nome', 'title', 'apelido', 'display_name'] },
-    ];
-
-    for (const { table, cols } of candidates) {
-      try {
-        const { data } = await this.supabase
-          .from(table)
-          .select(cols.join(', '))
-          .eq('id', envId as any)
-          .maybeSingle();
-
-        if (data) {
-          for (const col of cols) {
-            const value = (data as any)[col];
-            if (value) {
-              logger.info('🏡 garden_name resolvido (fallback)', { table, col, envId, gardenName: value });
-              return String(value);
-            }
-          }
-          logger.info('🏡 registro de ambiente sem campos de nome (fallback)', { table, envId, data });
+  async listDeadLetterNotifications(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { limit = 50, offset = 0 } = request.query as { limit?: number; offset?: number };
+
+      const page = await this.notificationQueueUseCases.listDeadLetters(limit, offset);
+
+      return reply.status(200).send({
+        success: true,
+        message: 'Notificações em dead-letter',
+        data: {
+          total: page.total,
+          limit,
+          offset,
+          notifications: page.notifications
         }
-      } catch (e) {
-        logger.info('🏡 erro ao consultar tabela candidata de ambiente', { table, envId, error: (e as Error).message });
-      }
-    }
+      });
 
-    return undefined;
+    } catch (error) {
+      logger.error('Erro ao listar notificações em dead-letter', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Erro interno do servidor'
+      });
+    }
   }
 
   /**
-   * Renderiza template substituindo variáveis e processando condicionais simples {{#if var}}...{{/if}}
+   * Reenfileira uma notificação em dead-letter
    */
-  private renderTemplate(templateString: string, variables: Record<string, string | undefined>): string {
-    if (!templateString) return '';
+  async requeueNotification(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
 
-    let output = templateString;
+      const notification = await this.notificationQueueUseCases.requeueDeadLetter(id);
 
-    // Processa condicionais: suporta aninhamento simples via substituições iterativas
-    const singleIfRegex = /\{\{#if\s+([\w\.]+)\}\}([\s\S]*?)\{\{\/if\}\}/;
-    while (singleIfRegex.test(output)) {
-      output = output.replace(singleIfRegex, (_match, varName: string, inner: string) => {
-        const value = variables[varName];
-        return value ? inner : '';
+      if (!notification) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Notificação não encontrada em dead-letter'
+        });
+      }
+
+      return reply.status(200).send({
+        success: true,
+        message: 'Notificação reenfileirada com sucesso',
+        data: {
+          id: notification.id,
+          status: notification.status
+        }
       });
-    }
 
-    // Substitui variáveis simples
-    Object.entries(variables).forEach(([key, value]) => {
-      if (value === undefined || value === null) return;
-      const regex = new RegExp(`\\{\\{${key}\\}\}`, 'g');
-      output = output.replace(regex, String(value));
-    });
+    } catch (error) {
+      logger.error('Erro ao reenfileirar notificação', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
 
-    return output;
+      return reply.status(500).send({
+        success: false,
+        message: 'Erro interno do servidor'
+      });
+    }
   }
 
   /**
-   * Processa notificações pendentes (sem enviar)
+   * Busca no histórico de emails enviados
    */
-  async processPendingNotifications(request: FastifyRequest, reply: FastifyReply) {
+  async listMessages(request: FastifyRequest, reply: FastifyReply) {
     try {
-      logger.info('🔍 Buscando notificações pendentes para processamento');
+      const { limit = 50, offset = 0, userId, recipient, status, templateKey, from, to } = request.query as {
+        limit?: number;
+        offset?: number;
+        userId?: string;
+        recipient?: string;
+        status?: EmailMessageRecord['status'];
+        templateKey?: string;
+        from?: string;
+        to?: string;
+      };
 
-      // Buscar notificações pendentes
-      const { data: pendingNotifications, error: fetchError } = await this.supabase
-        .from('notifications')
-        .select(`
-          id,
-          user_id,
-          type,
-          title,
-          message,
+      const page = await this.emailMessageUseCases.search(
+        {
+          userId,
+          recipient,
           status,
-          created_at,
-          scheduled_at,
-          template_key,
-          template_variables,
-          payload,
-          linked_task_id,
-          linked_task_table
-        `)
-        .eq('status', 'pending')
-        .lte('scheduled_at', nowUTC().toISOString())
-        .order('scheduled_at', { ascending: true })
-        .limit(50);
-
-      if (fetchError) {
-        logger.error('Erro ao buscar notificações pendentes', { error: fetchError });
-        return reply.status(500).send({
-          success: false,
-          message: 'Erro ao buscar notificações',
-          error: fetchError.message
-        });
-      }
+          templateKey,
+          from: from ? new Date(from) : undefined,
+          to: to ? new Date(to) : undefined,
+        },
+        limit,
+        offset
+      );
 
-      if (!pendingNotifications || pendingNotifications.length === 0) {
-        logger.info('Nenhuma notificação pendente encontrada');
-        return reply.status(200).send({
-          success: true,
-          message: 'Nenhuma notificação pendente',
-          data: {
-            processed: 0,
-            emailData: [],
-            notifications: []
-          }
-        });
-      }
+      return reply.status(200).send({
+        success: true,
+        message: 'Histórico de emails',
+        data: {
+          total: page.total,
+          limit,
+          offset,
+          messages: page.messages
+        }
+      });
 
-      logger.info(`Encontradas ${pendingNotifications.length} notificações pendentes`);
+    } catch (error) {
+      return this.sendTemplateError(reply, error, 'Erro ao buscar histórico de emails');
+    }
+  }
+
+  /**
+   * Lista a lista de supressão
+   */
+  async listSuppressions(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { limit = 50, offset = 0, reason } = request.query as {
+        limit?: number;
+        offset?: number;
+        reason?: EmailSuppressionReason;
+      };
 
-      // Processar cada notificação aplicando regras de conclusão antes do horário
-      const emailData = [];
+      const page = await this.emailSuppressionUseCases.list(limit, offset, reason);
 
-      for (const notification of pendingNotifications) {
-        if (!notification) {
-          logger.warn('⚠️ Notificação undefined, pulando...');
-          continue;
+      return reply.status(200).send({
+        success: true,
+        message: 'Lista de supressão',
+        data: {
+          total: page.total,
+          limit,
+          offset,
+          suppressions: page.suppressions
         }
+      });
 
-        logger.info(`📝 Processando notificação:`, {
-          id: notification.id,
-          template_key: notification.template_key,
-          title: notification.title
-        });
+    } catch (error) {
+      return this.sendTemplateError(reply, error, 'Erro ao listar lista de supressão');
+    }
+  }
 
-        // Email fixo para desenvolvimento
-        const userEmail = env.NODE_ENV === 'development' 
-          ? 'pauloericrn@gmail.com' 
-          : 'pauloericrn@gmail.com';
-
-        // Regra: se a task foi concluída antes do schedule, ignorar envio
-        try {
-          const taskCtx = await this.getTaskContext(notification);
-          const completedAt = taskCtx.completedAt ? new Date(taskCtx.completedAt).getTime() : undefined;
-          const scheduledAt = notification.scheduled_at ? new Date(notification.scheduled_at).getTime() : undefined;
-          if (completedAt && scheduledAt && completedAt <= scheduledAt) {
-            await this.updateNotificationStatus(notification.id, 'failed', undefined, 'completed_before_schedule');
-            logger.info('⏭️  Notificação ignorada: completed_before_schedule', { id: notification.id, completedAt: taskCtx.completedAt, scheduled_at: notification.scheduled_at });
-            continue;
-          }
-        } catch (e) {
-          logger.warn('Falha ao aplicar regra completed_before_schedule (prosseguindo)', { id: notification?.id, error: (e as Error).message });
-        }
+  /**
+   * Adiciona um endereço à lista de supressão
+   */
+  async addSuppression(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { email, reason } = request.body as { email: string; reason?: EmailSuppressionReason };
 
-        // Buscar template correspondente
-        const template = await this.getEmailTemplate(notification.template_key);
-        
-        if (!template) {
-          logger.warn(`Template não encontrado para key: ${notification.template_key}`, {
-            notificationId: notification.id,
-            templateKey: notification.template_key
-          });
-          continue;
-        }
+      const suppression = await this.emailSuppressionUseCases.add(email, reason);
 
-        // Contexto de tarefa
-        const taskCtx = await this.getTaskContext(notification);
-
-        // Preparar variáveis para substituição
-        const variables: Record<string, string | undefined> = {
-          user_name: notification.template_variables?.user_name || 'Usuário',
-          task_title: taskCtx.taskTitle || notification.template_variables?.task_title || notification.title,
-          task_description: notification.message || undefined,
-          task_priority: (taskCtx.taskPriority || notification.payload?.priority || 'médio') as string,
-          due_date: taskCtx.taskDueDate ? formatBrazilianDate(taskCtx.taskDueDate) : (notification.scheduled_at ? formatBrazilianDate(notification.scheduled_at) : 'Hoje'),
-          plant_name: taskCtx.plantName || notification.template_variables?.plant_name,
-          task_category: taskCtx.taskCategory || notification.template_variables?.task_category,
-          garden_name: taskCtx.gardenName,
-          days_overdue: undefined,
-          app_url: 'https://growspace.app'
-        };
-
-        // Renderizar templates (subject e html)
-        let htmlContent = this.renderTemplate(template.html_template, variables);
-        let subjectContent = this.renderTemplate(template.subject_template, variables);
-
-        emailData.push({
-          notificationId: notification.id,
-          to: [userEmail],
-          subject: subjectContent,
-          html: htmlContent,
-          text: `${notification.title}\n${notification.message}`,
-          type: notification.type,
-          templateKey: notification.template_key
-        });
-        
-        if (env.NODE_ENV === 'development') {
-          logger.info(`✅ Email preparado para notificação ${notification.id}:`, {
-            templateKey: notification.template_key,
-            subject: subjectContent.substring(0, 50) + '...',
-            hasTemplate: true
-          });
-        }
-      }
+      return reply.status(201).send({
+        success: true,
+        message: 'Endereço adicionado à lista de supressão',
+        data: suppression
+      });
 
-      // Log dos dados processados em desenvolvimento
-      if (env.NODE_ENV === 'development') {
-        logger.info('📧 Dados processados para envio (desenvolvimento):', {
-          totalEmails: emailData.length,
-          templatesFound: emailData.filter(e => e.templateKey).length,
-          sampleEmail: emailData[0], // Mostra o primeiro email como exemplo
-          sampleEmailKeys: emailData[0] ? Object.keys(emailData[0]) : [],
-          allEmailKeys: emailData.map(e => Object.keys(e)),
-          templateKeysInData: emailData.map(e => e.templateKey)
-        });
-      }
+    } catch (error) {
+      return this.sendTemplateError(reply, error, 'Erro ao adicionar endereço à lista de supressão');
+    }
+  }
 
-      // Log do retorno final
-      if (env.NODE_ENV === 'development') {
-        const finalResponse = {
-          success: true,
-          message: 'Notificações processadas com sucesso',
-          data: {
-            processed: pendingNotifications.length,
-            emailData: emailData,
-            notifications: pendingNotifications.map(notification => {
-              const userEmail = env.NODE_ENV === 'development' 
-                ? 'pauloericrn@gmail.com' 
-                : 'pauloericrn@gmail.com';
-
-              return {
-                id: notification.id,
-                type: notification.type,
-                userEmail: userEmail,
-                status: 'ready_for_send',
-                templateKey: notification.template_key
-              };
-            })
-          }
-        };
-        
-        logger.info('📤 Retorno final da API:', {
-          emailDataLength: finalResponse.data.emailData.length,
-          emailDataKeys: finalResponse.data.emailData[0] ? Object.keys(finalResponse.data.emailData[0]) : [],
-          hasTemplateKey: finalResponse.data.emailData[0] ? 'templateKey' in finalResponse.data.emailData[0] : false,
-          templateKeyValue: finalResponse.data.emailData[0]?.templateKey
-        });
-      }
+  /**
+   * Remove um endereço da lista de supressão
+   */
+  async removeSuppression(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { email } = request.params as { email: string };
+
+      await this.emailSuppressionUseCases.remove(email);
+
+      return reply.status(200).send({
+        success: true,
+        message: 'Endereço removido da lista de supressão',
+        data: { email }
+      });
 
+    } catch (error) {
+      return this.sendTemplateError(reply, error, 'Erro ao remover endereço da lista de supressão');
+    }
+  }
+
+  /**
+   * Estado do scheduler de notificações em processo
+   */
+  async getSchedulerStatus(request: FastifyRequest, reply: FastifyReply) {
+    if (!this.notificationScheduler) {
       return reply.status(200).send({
         success: true,
-        message: 'Notificações processadas com sucesso',
+        message: 'Scheduler de notificações desabilitado',
         data: {
-          processed: pendingNotifications.length,
-          emailData: emailData,
-          notifications: pendingNotifications.map(notification => {
-            const userEmail = env.NODE_ENV === 'development' 
-              ? 'pauloericrn@gmail.com' 
-              : 'pauloericrn@gmail.com';
-
-            return {
-              id: notification.id,
-              type: notification.type,
-              userEmail: userEmail,
-              status: 'ready_for_send',
-              templateKey: notification.template_key
-            };
-          })
+          enabled: false
         }
       });
+    }
 
-    } catch (error) {
-      logger.error('Erro ao processar notificações pendentes', {
-        error: error instanceof Error ? error.message : 'Unknown error',
-        stack: error instanceof Error ? error.stack : undefined
+    return reply.status(200).send({
+      success: true,
+      message: 'Estado do scheduler de notificações',
+      data: this.notificationScheduler.getStatus()
+    });
+  }
+
+  /**
+   * Valida um template enviado no corpo da requisição
+   */
+  async validateTemplate(request: FastifyRequest, reply: FastifyReply) {
+    const result = this.emailTemplateUseCases.validate(request.body as EmailTemplateValidationInput);
+
+    return reply.status(200).send({
+      success: true,
+      message: result.valid ? 'Template válido' : 'Template inválido',
+      data: result
+    });
+  }
+
+  /**
+   * Valida um template salvo
+   */
+  async validateStoredTemplate(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { key } = request.params as { key: string };
+      const { locale } = request.query as { locale?: string };
+
+      const result = await this.emailTemplateUseCases.validateByKey(key, locale);
+
+      return reply.status(200).send({
+        success: true,
+        message: result.valid ? 'Template válido' : 'Template inválido',
+        data: result
       });
 
-      return reply.status(500).send({
-        success: false,
-        message: 'Erro interno do servidor'
+    } catch (error) {
+      return this.sendTemplateError(reply, error, 'Erro ao validar template');
+    }
+  }
+
+  /**
+   * Renderiza o preview de um template com dados de exemplo ou de uma notificação real
+   */
+  async previewTemplate(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { key } = request.params as { key: string };
+
+      const preview = await this.emailTemplateUseCases.preview(key, (request.body ?? {}) as EmailTemplatePreviewInput);
+
+      return reply.status(200).send({
+        success: true,
+        message: 'Preview do template',
+        data: preview
       });
+
+    } catch (error) {
+      return this.sendTemplateError(reply, error, 'Erro ao gerar preview do template');
     }
   }
 
   /**
-   * Atualiza o status de uma notificação
+   * Lista as versões de um template
    */
-  private async updateNotificationStatus(notificationId: string, status: string, sentAt?: Date, errorMessage?: string) {
+  async listTemplateVersions(request: FastifyRequest, reply: FastifyReply) {
     try {
-      const updateData: any = {
-        status: status,
-        updated_at: nowUTC().toISOString()
-      };
+      const { key } = request.params as { key: string };
 
-      if (status === 'sent' && sentAt) {
-        updateData.sent_at = sentAt.toISOString();
-      }
+      const versions = await this.emailTemplateUseCases.listVersions(key);
 
-      if (status === 'failed' && errorMessage) {
-        updateData.error_message = errorMessage;
-      }
+      return reply.status(200).send({
+        success: true,
+        message: 'Versões do template',
+        data: { templateKey: key, versions }
+      });
 
-      const { error } = await this.supabase
-        .from('notifications')
-        .update(updateData)
-        .eq('id', notificationId);
+    } catch (error) {
+      return this.sendTemplateError(reply, error, 'Erro ao listar versões do template');
+    }
+  }
 
-      if (error) {
-        logger.error(`Erro ao atualizar status da notificação ${notificationId}:`, { error });
-        return false;
-      }
+  /**
+   * Histórico de alterações de um template
+   */
+  async getTemplateHistory(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { key } = request.params as { key: string };
+      const { limit = 50 } = request.query as { limit?: number };
+
+      const events = await this.emailTemplateUseCases.getHistory(key, limit);
+
+      return reply.status(200).send({
+        success: true,
+        message: 'Histórico do template',
+        data: { templateKey: key, events }
+      });
 
-      logger.info(`✅ Status atualizado para notificação ${notificationId}: ${status}`);
-      return true;
     } catch (error) {
-      logger.error(`Exceção ao atualizar status da notificação ${notificationId}:`, { error });
-      return false;
+      return this.sendTemplateError(reply, error, 'Erro ao listar histórico do template');
     }
   }
 
   /**
-   * Processa e envia notificações pendentes automaticamente
+   * Cria um rascunho de template
    */
-  async processAndSendNotifications(request: FastifyRequest, reply: FastifyReply) {
-    const startTime = Date.now();
-    
+  async createTemplateDraft(request: FastifyRequest, reply: FastifyReply) {
     try {
-      logger.info('🚀 Iniciando processamento e envio automático de notificações');
-
-      // Buscar notificações pendentes
-      const { data: pendingNotifications, error: fetchError } = await this.supabase
-        .from('notifications')
-        .select(`
-          id,
-          user_id,
-          type,
-          title,
-          message,
-          status,
-          created_at,
-          scheduled_at,
-          template_key,
-          template_variables,
-          payload,
-          linked_task_id,
-          linked_task_table
-        `)
-        .eq('status', 'pending')
-        .lte('scheduled_at', nowUTC().toISOString())
-        .order('scheduled_at', { ascending: true })
-        .limit(50);
-
-      if (fetchError) {
-        logger.error('Erro ao buscar notificações pendentes', { error: fetchError });
-        return reply.status(500).send({
-          success: false,
-          message: 'Erro ao buscar notificações',
-          error: fetchError.message
-        });
-      }
+      const { key } = request.params as { key: string };
 
-      if (!pendingNotifications || pendingNotifications.length === 0) {
-        logger.info('Nenhuma notificação pendente encontrada');
-        return reply.status(200).send({
-          success: true,
-          message: 'Nenhuma notificação pendente',
-          data: {
-            processed: 0,
-            sent: 0,
-            failed: 0,
-            successRate: 100,
-            processingTime: Date.now() - startTime,
-            details: []
-          }
-        });
-      }
+      const result = await this.emailTemplateUseCases.createDraft(
+        key,
+        request.body as EmailTemplateVersionContent,
+        this.getActor(request)
+      );
 
-      logger.info(`Encontradas ${pendingNotifications.length} notificações pendentes`);
+      return reply.status(201).send({
+        success: true,
+        message: `Rascunho v${result.version.version} criado`,
+        data: result
+      });
 
-      // Processar e enviar cada notificação
-      const results = [];
-      let sentCount = 0;
-      let failedCount = 0;
+    } catch (error) {
+      return this.sendTemplateError(reply, error, 'Erro ao criar rascunho do template');
+    }
+  }
 
-      for (let i = 0; i < pendingNotifications.length; i++) {
-        const notification = pendingNotifications[i];
-        
-        if (!notification) {
-          logger.warn(`⚠️ Notificação ${i + 1} é undefined, pulando...`);
-          continue;
-        }
+  /**
+   * Atualiza um rascunho de template
+   */
+  async updateTemplateDraft(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { key, version } = request.params as { key: string; version: number };
 
-        logger.info(`📝 Processando notificação ${i + 1}/${pendingNotifications.length}:`, {
-          id: notification.id,
-          template_key: notification.template_key,
-          title: notification.title
-        });
+      const result = await this.emailTemplateUseCases.updateDraft(
+        key,
+        version,
+        request.body as EmailTemplateVersionContent,
+        this.getActor(request)
+      );
 
-        // Email fixo para desenvolvimento
-        const userEmail = env.NODE_ENV === 'development' 
-          ? 'pauloericrn@gmail.com' 
-          : 'pauloericrn@gmail.com';
-
-        // Buscar template correspondente
-        const template = await this.getEmailTemplate(notification.template_key);
-        
-        if (!template) {
-          logger.warn(`Template não encontrado para key: ${notification.template_key}`, {
-            notificationId: notification.id,
-            templateKey: notification.template_key
-          });
-          
-          // Atualizar status para failed
-          await this.updateNotificationStatus(notification.id, 'failed', undefined, 'Template não encontrado');
-          
-          results.push({
-            notificationId: notification.id,
-            status: 'failed',
-            emailId: null,
-            error: 'Template não encontrado'
-          });
-          failedCount++;
-          continue;
-        }
+      return reply.status(200).send({
+        success: true,
+        message: `Rascunho v${result.version.version} atualizado`,
+        data: result
+      });
 
-        // Contexto da tarefa (antes de enviar)
-        const taskCtx = await this.getTaskContext(notification);
-
-        // Regra: se reminder está 5+ dias atrasado e tarefa ainda aberta, usar template overdue
-        const isReminder = notification.template_key === 'task_reminder';
-        const scheduledAtMs = notification.scheduled_at ? new Date(notification.scheduled_at).getTime() : undefined;
-        const fiveDaysMs = 5 * 24 * 60 * 60 * 1000;
-        const isOld = scheduledAtMs ? (Date.now() - scheduledAtMs) >= fiveDaysMs : false;
-        let effectiveTemplate = notification.template_key as string;
-        if (isReminder && isOld && !taskCtx.isCompleted) {
-          effectiveTemplate = 'task_overdue';
-        }
+    } catch (error) {
+      return this.sendTemplateError(reply, error, 'Erro ao atualizar rascunho do template');
+    }
+  }
 
-        // Se a tarefa já foi concluída, não enviar
-        if (taskCtx.isCompleted) {
-          await this.updateNotificationStatus(notification.id, 'failed', undefined, 'Task already completed');
-          logger.info(`⏭️  Notificação ${notification.id} ignorada: tarefa já concluída`);
-          results.push({
-            notificationId: notification.id,
-            status: 'skipped_completed',
-            emailId: null,
-            error: 'Task already completed'
-          });
-          failedCount++;
-          continue;
-        }
+  /**
+   * Preview de uma versão de template
+   */
+  async previewTemplateVersion(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { key, version } = request.params as { key: string; version: number };
 
-        // Preparar variáveis para substituição
-        let daysOverdueStr: string | undefined = undefined;
-        if (effectiveTemplate === 'task_overdue') {
-          if (scheduledAtMs) {
-            const diffDays = Math.max(1, Math.floor((Date.now() - scheduledAtMs) / (1000 * 60 * 60 * 24)));
-            daysOverdueStr = String(diffDays);
-          } else if (taskCtx.taskDueDate) {
-            const dueMs = new Date(taskCtx.taskDueDate).getTime();
-            const diffDays = Math.max(1, Math.floor((Date.now() - dueMs) / (1000 * 60 * 60 * 24)));
-            daysOverdueStr = String(diffDays);
-          }
-        }
+      const preview = await this.emailTemplateUseCases.previewVersion(
+        key,
+        version,
+        (request.body ?? {}) as Pick<EmailTemplatePreviewInput, 'notificationId' | 'variables'>
+      );
 
-        const variables: Record<string, string | undefined> = {
-          user_name: notification.template_variables?.user_name || 'Usuário',
-          task_title: taskCtx.taskTitle || notification.template_variables?.task_title || notification.title,
-          task_description: notification.message || undefined,
-          task_priority: (taskCtx.taskPriority || notification.payload?.priority || 'médio') as string,
-          due_date: taskCtx.taskDueDate ? formatBrazilianDate(taskCtx.taskDueDate) : (notification.scheduled_at ? formatBrazilianDate(notification.scheduled_at) : 'Hoje'),
-          plant_name: taskCtx.plantName || notification.template_variables?.plant_name,
-          task_category: taskCtx.taskCategory || notification.template_variables?.task_category,
-          garden_name: taskCtx.gardenName,
-          days_overdue: daysOverdueStr,
-          app_url: 'https://growspace.app'
-        };
-
-        // Carregar template efetivo (pode ser overdue)
-        const tpl = effectiveTemplate === notification.template_key
-          ? template
-          : await this.getEmailTemplate(effectiveTemplate);
-
-        // Renderizar templates (subject e html)
-        let htmlContent = this.renderTemplate(tpl!.html_template, variables);
-        let subjectContent = this.renderTemplate(tpl!.subject_template, variables);
-
-        // Preparar dados do email (sem CTA de completar tarefa por enquanto)
-        const emailData = {
-          to: [userEmail],
-          subject: subjectContent,
-          html: htmlContent,
-          text: `${notification.title}\n${notification.message}`
-        };
-
-        // Enviar email
-        try {
-          logger.info(`📧 Enviando email para notificação ${notification.id}`);
-          
-          const emailResult = await this.emailUseCases.sendEmail(emailData);
-          
-          if (emailResult.success) {
-            // Atualizar status para sent
-            await this.updateNotificationStatus(notification.id, 'sent', nowUTC());
-            
-            logger.info(`✅ Email enviado com sucesso para notificação ${notification.id}`, {
-              emailId: emailResult.data?.id
-            });
-            
-            results.push({
-              notificationId: notification.id,
-              status: 'sent',
-              emailId: emailResult.data?.id || 'N/A',
-              error: null
-            });
-            sentCount++;
-          } else {
-            // Atualizar status para failed
-            await this.updateNotificationStatus(notification.id, 'failed', undefined, emailResult.error);
-            
-            logger.error(`❌ Falha ao enviar email para notificação ${notification.id}`, {
-              error: emailResult.error
-            });
-            
-            results.push({
-              notificationId: notification.id,
-              status: 'failed',
-              emailId: null,
-              error: emailResult.error
-            });
-            failedCount++;
-          }
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
-          
-          // Atualizar status para failed
-          await this.updateNotificationStatus(notification.id, 'failed', undefined, errorMessage);
-          
-          logger.error(`💥 Exceção ao enviar email para notificação ${notification.id}`, {
-            error: errorMessage
-          });
-          
-          results.push({
-            notificationId: notification.id,
-            status: 'failed',
-            emailId: null,
-            error: errorMessage
-          });
-          failedCount++;
-        }
+      return reply.status(200).send({
+        success: true,
+        message: `Preview da versão v${version}`,
+        data: preview
+      });
 
-        // Delay para respeitar rate limit do Resend (2 requests/segundo)
-        if (i < pendingNotifications.length - 1) {
-          logger.info(`⏳ Aguardando 600ms para respeitar rate limit...`);
-          await new Promise(resolve => setTimeout(resolve, 600));
-        }
-      }
+    } catch (error) {
+      return this.sendTemplateError(reply, error, 'Erro ao gerar preview da versão do template');
+    }
+  }
 
-      const processingTime = Date.now() - startTime;
-      const successRate = pendingNotifications.length > 0 ? (sentCount / pendingNotifications.length) * 100 : 100;
-
-      logger.info(`🎉 Processamento concluído:`, {
-        total: pendingNotifications.length,
-        sent: sentCount,
-        failed: failedCount,
-        successRate: `${successRate.toFixed(1)}%`,
-        processingTime: `${processingTime}ms`
+  /**
+   * Publica uma versão de template
+   */
+  async publishTemplateVersion(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { key, version } = request.params as { key: string; version: number };
+
+      const published = await this.emailTemplateUseCases.publish(key, version, this.getActor(request));
+
+      return reply.status(200).send({
+        success: true,
+        message: `Versão v${published.version} publicada`,
+        data: published
       });
 
+    } catch (error) {
+      return this.sendTemplateError(reply, error, 'Erro ao publicar versão do template');
+    }
+  }
+
+  /**
+   * Reverte um template para uma versão publicada anteriormente
+   */
+  async rollbackTemplate(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { key } = request.params as { key: string };
+      const { version, locale } = (request.body ?? {}) as { version?: number; locale?: string };
+
+      const published = await this.emailTemplateUseCases.rollback(key, this.getActor(request), version, locale);
+
       return reply.status(200).send({
         success: true,
-        message: 'Processamento e envio concluído',
-        data: {
-          processed: pendingNotifications.length,
-          sent: sentCount,
-          failed: failedCount,
-          successRate: successRate,
-          processingTime: processingTime,
-          details: results
-        }
+        message: `Template revertido para a versão v${published.version}`,
+        data: published
       });
 
     } catch (error) {
-      const processingTime = Date.now() - startTime;
-      
-      logger.error('Erro inesperado ao processar e enviar notificações', {
-        error: error instanceof Error ? error.message : 'Unknown error',
-        stack: error instanceof Error ? error.stack : undefined,
-        processingTime: processingTime
+      return this.sendTemplateError(reply, error, 'Erro ao reverter template');
+    }
+  }
+
+  /**
+   * Identifica o autor de uma alteração de template (principal autenticado)
+   */
+  private getActor(request: FastifyRequest): string {
+    return principalLabel(request.principal);
+  }
+
+  /**
+   * Falha de envio: destinatário suprimido é 422 (não adianta repetir); o resto, 500
+   */
+  private sendEmailFailure(reply: FastifyReply, result: EmailResponse, message: string) {
+    if (result.errorCode === SUPPRESSED_ERROR_CODE) {
+      return reply.status(422).send({
+        success: false,
+        message,
+        error: result.error,
+        suppressed: true,
+        suppressedRecipients: result.suppressedRecipients ?? []
       });
-      
-      return reply.status(500).send({
+    }
+
+    return reply.status(500).send({
+      success: false,
+      message,
+      error: result.error
+    });
+  }
+
+  private sendTemplateError(reply: FastifyReply, error: unknown, logMessage: string) {
+    if (error instanceof BaseError && error.isOperational) {
+      return reply.status(error.statusCode).send({
         success: false,
-        message: 'Erro interno do servidor',
-        data: {
-          processed: 0,
-          sent: 0,
-          failed: 0,
-          successRate: 0,
-          processingTime: processingTime,
-          details: []
-        }
+        message: error.message,
+        ...(error.context ? { details: error.context } : {})
       });
     }
+
+    logger.error(logMessage, {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return reply.status(500).send({
+      success: false,
+      message: 'Erro interno do servidor'
+    });
   }
-} 
\ No newline at end of file
+}
@@ -1,15 +1,37 @@
 import type { FastifyInstance } from 'fastify';
 import { EmailController } from './email-controller.js';
+import { AuthGuard } from '../../auth/presentation/auth-guard.js';
+import { createRequestAuthenticator } from '../../auth/infrastructure/auth-factory.js';
+import type { JobScheduler } from '../../../shared/services/job-scheduler.js';
+import type { NotificationDispatchSummary } from '../../../shared/types/notification.js';
+
+export interface EmailRoutesOptions {
+  notificationScheduler?: JobScheduler<NotificationDispatchSummary> | null;
+}
 
 /**
  * Registra as rotas de email
  * Responsabilidade única: definir endpoints para envio de emails
  */
-export async function emailRoutes(fastify: FastifyInstance) {
-  const emailController = new EmailController();
+export async function emailRoutes(fastify: FastifyInstance, options: EmailRoutesOptions) {
+  const emailController = new EmailController(options.notificationScheduler ?? null);
+  const authGuard = new AuthGuard(createRequestAuthenticator());
+
+  // Envio bloqueado pela lista de supressão
+  const suppressedResponse = {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      message: { type: 'string' },
+      error: { type: 'string' },
+      suppressed: { type: 'boolean' },
+      suppressedRecipients: { type: 'array', items: { type: 'string' } }
+    }
+  };
 
   // Diagnóstico de configuração de email
   fastify.get('/diagnostics', {
+    preHandler: authGuard.requireScopes('admin:diagnostics'),
     schema: {
       description: 'Verifica a configuração do serviço de email',
       tags: ['Email'],
@@ -35,6 +57,7 @@ export async function emailRoutes(fastify: FastifyInstance) {
                 service: {
                   type: 'object',
                   properties: {
+                    provider: { type: 'string' },
                     type: { type: 'string' },
                     isMock: { type: 'boolean' }
                   }
@@ -53,6 +76,7 @@ export async function emailRoutes(fastify: FastifyInstance) {
 
   // Processar notificações pendentes
   fastify.get('/process-notifications', {
+    preHandler: authGuard.requireScopes('notifications:run'),
     schema: {
       description: 'Processa notificações pendentes do banco de dados',
       tags: ['Email'],
@@ -87,7 +111,7 @@ export async function emailRoutes(fastify: FastifyInstance) {
                     properties: {
                       id: { type: 'string' },
                       type: { type: 'string' },
-                      userEmail: { type: 'string' },
+                      userEmail: { type: ['string', 'null'] },
                       status: { type: 'string' }
                     }
                   }
@@ -102,6 +126,7 @@ export async function emailRoutes(fastify: FastifyInstance) {
 
   // Enviar email genérico
   fastify.post('/send', {
+    preHandler: authGuard.requireScopes('email:send'),
     schema: {
       description: 'Envia um email através do Resend',
       tags: ['Email'],
@@ -157,7 +182,8 @@ export async function emailRoutes(fastify: FastifyInstance) {
                 subject: { type: 'string' },
                 createdAt: { type: 'string' }
               }
-            }
+            },
+            suppressedRecipients: { type: 'array', items: { type: 'string' } }
           }
         },
         400: {
@@ -168,6 +194,7 @@ export async function emailRoutes(fastify: FastifyInstance) {
             error: { type: 'string' }
           }
         },
+        422: suppressedResponse,
         500: {
           type: 'object',
           properties: {
@@ -181,6 +208,7 @@ export async function emailRoutes(fastify: FastifyInstance) {
 
   // Enviar email de boas-vindas
   fastify.post('/welcome', {
+    preHandler: authGuard.requireScopes('email:send'),
     schema: {
       description: 'Envia email de boas-vindas para novos usuários',
       tags: ['Email'],
@@ -197,6 +225,10 @@ export async function emailRoutes(fastify: FastifyInstance) {
             type: 'string',
             minLength: 1,
             description: 'Nome do usuário'
+          },
+          locale: {
+            type: 'string',
+            description: 'Idioma do email (ex.: pt-BR, es, en); padrão pt-BR'
           }
         }
       },
@@ -226,6 +258,7 @@ export async function emailRoutes(fastify: FastifyInstance) {
             error: { type: 'string' }
           }
         },
+        422: suppressedResponse,
         500: {
           type: 'object',
           properties: {
@@ -239,6 +272,7 @@ export async function emailRoutes(fastify: FastifyInstance) {
 
   // Enviar email de recuperação de senha
   fastify.post('/password-reset', {
+    preHandler: authGuard.requireScopes('email:send'),
     schema: {
       description: 'Envia email de recuperação de senha',
       tags: ['Email'],
@@ -255,6 +289,10 @@ export async function emailRoutes(fastify: FastifyInstance) {
             type: 'string',
             minLength: 1,
             description: 'Token de reset de senha'
+          },
+          locale: {
+            type: 'string',
+            description: 'Idioma do email (ex.: pt-BR, es, en); padrão pt-BR'
           }
         }
       },
@@ -284,6 +322,7 @@ export async function emailRoutes(fastify: FastifyInstance) {
             error: { type: 'string' }
           }
         },
+        422: suppressedResponse,
         500: {
           type: 'object',
           properties: {
@@ -297,6 +336,7 @@ export async function emailRoutes(fastify: FastifyInstance) {
 
   // Rota para processar e enviar notificações automaticamente
   fastify.get('/process-and-send', {
+    preHandler: authGuard.requireScopes('notifications:run'),
     schema: {
       description: 'Processa e envia notificações pendentes automaticamente',
       tags: ['Email'],
@@ -312,6 +352,7 @@ export async function emailRoutes(fastify: FastifyInstance) {
                 processed: { type: 'number' },
                 sent: { type: 'number' },
                 failed: { type: 'number' },
+                deferred: { type: 'number' },
                 successRate: { type: 'number' },
                 processingTime: { type: 'number' },
                 details: {
@@ -333,4 +374,695 @@ export async function emailRoutes(fastify: FastifyInstance) {
       }
     }
   }, (request, reply) => emailController.processAndSendNotifications(request, reply));
-} 
\ No newline at end of file
+
+  // Listar notificações em dead-letter
+  fastify.get('/notifications/dead-letter', {
+    preHandler: authGuard.requireScopes('notifications:run'),
+    schema: {
+      description: 'Lista notificações que falharam permanentemente',
+      tags: ['Email'],
+      querystring: {
+        type: 'object',
+        properties: {
+          limit: { type: 'integer', minimum: 1, maximum: 200, default: 50 },
+          offset: { type: 'integer', minimum: 0, default: 0 }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                total: { type: 'number' },
+                limit: { type: 'number' },
+                offset: { type: 'number' },
+                notifications: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'string' },
+                      user_id: { type: ['string', 'null'] },
+                      type: { type: 'string' },
+                      title: { type: 'string' },
+                      template_key: { type: 'string' },
+                      scheduled_at: { type: ['string', 'null'] },
+                      attempt_count: { type: ['number', 'null'] },
+                      error_message: { type: ['string', 'null'] },
+                      updated_at: { type: ['string', 'null'] }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }, (request, reply) => emailController.listDeadLetterNotifications(request, reply));
+
+  // Reenfileirar notificação em dead-letter
+  fastify.post('/notifications/:id/requeue', {
+    preHandler: authGuard.requireScopes('notifications:run'),
+    schema: {
+      description: 'Devolve uma notificação em dead-letter para a fila',
+      tags: ['Email'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                status: { type: 'string' }
+              }
+            }
+          }
+        },
+        404: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, (request, reply) => emailController.requeueNotification(request, reply));
+
+  // Histórico de emails enviados
+  fastify.get('/messages', {
+    preHandler: authGuard.requireScopes('admin:email'),
+    schema: {
+      description: 'Histórico paginado de tentativas de envio, filtrável por usuário, destinatário, status, template e período',
+      tags: ['Email'],
+      querystring: {
+        type: 'object',
+        properties: {
+          limit: { type: 'integer', minimum: 1, maximum: 200, default: 50 },
+          offset: { type: 'integer', minimum: 0, default: 0 },
+          userId: { type: 'string', format: 'uuid' },
+          recipient: { type: 'string', format: 'email' },
+          status: { type: 'string', enum: ['sent', 'failed', 'suppressed'] },
+          templateKey: { type: 'string' },
+          from: { type: 'string', format: 'date-time', description: 'Início do período (created_at)' },
+          to: { type: 'string', format: 'date-time', description: 'Fim do período (created_at)' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                total: { type: 'number' },
+                limit: { type: 'number' },
+                offset: { type: 'number' },
+                messages: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'string' },
+                      user_id: { type: ['string', 'null'] },
+                      recipients: { type: 'array', items: { type: 'string' } },
+                      from_email: { type: 'string' },
+                      subject: { type: 'string' },
+                      template_key: { type: ['string', 'null'] },
+                      notification_ids: { type: 'array', items: { type: 'string' } },
+                      provider: { type: ['string', 'null'] },
+                      provider_message_id: { type: ['string', 'null'] },
+                      status: { type: 'string' },
+                      error: { type: ['string', 'null'] },
+                      created_at: { type: 'string' },
+                      sent_at: { type: ['string', 'null'] }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        },
+        400: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            details: { type: 'object', additionalProperties: true }
+          }
+        }
+      }
+    }
+  }, (request, reply) => emailController.listMessages(request, reply));
+
+  const suppressionErrorResponse = {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      message: { type: 'string' },
+      details: { type: 'object', additionalProperties: true }
+    }
+  };
+
+  const suppressionProperties = {
+    email: { type: 'string' },
+    reason: { type: 'string' },
+    source: { type: 'string' }
+  };
+
+  // Listar lista de supressão
+  fastify.get('/suppressions', {
+    preHandler: authGuard.requireScopes('admin:email'),
+    schema: {
+      description: 'Lista endereços bloqueados para envio (hard bounce, reclamação ou manual)',
+      tags: ['Email Suppressions'],
+      querystring: {
+        type: 'object',
+        properties: {
+          limit: { type: 'integer', minimum: 1, maximum: 200, default: 50 },
+          offset: { type: 'integer', minimum: 0, default: 0 },
+          reason: { type: 'string', enum: ['hard_bounce', 'complaint', 'manual'] }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                total: { type: 'number' },
+                limit: { type: 'number' },
+                offset: { type: 'number' },
+                suppressions: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      ...suppressionProperties,
+                      provider_message_id: { type: ['string', 'null'] },
+                      created_at: { type: 'string' }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        },
+        400: suppressionErrorResponse
+      }
+    }
+  }, (request, reply) => emailController.listSuppressions(request, reply));
+
+  // Adicionar endereço à lista de supressão
+  fastify.post('/suppressions', {
+    preHandler: authGuard.requireScopes('admin:email'),
+    schema: {
+      description: 'Bloqueia o envio de emails para um endereço',
+      tags: ['Email Suppressions'],
+      body: {
+        type: 'object',
+        required: ['email'],
+        properties: {
+          email: { type: 'string', format: 'email' },
+          reason: { type: 'string', enum: ['hard_bounce', 'complaint', 'manual'], default: 'manual' }
+        }
+      },
+      response: {
+        201: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: suppressionProperties
+            }
+          }
+        },
+        409: suppressionErrorResponse
+      }
+    }
+  }, (request, reply) => emailController.addSuppression(request, reply));
+
+  // Remover endereço da lista de supressão
+  fastify.delete('/suppressions/:email', {
+    preHandler: authGuard.requireScopes('admin:email'),
+    schema: {
+      description: 'Libera novamente o envio para um endereço suprimido',
+      tags: ['Email Suppressions'],
+      params: {
+        type: 'object',
+        required: ['email'],
+        properties: {
+          email: { type: 'string' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                email: { type: 'string' }
+              }
+            }
+          }
+        },
+        404: suppressionErrorResponse
+      }
+    }
+  }, (request, reply) => emailController.removeSuppression(request, reply));
+
+  // Estado do scheduler de notificações
+  fastify.get('/scheduler/status', {
+    preHandler: authGuard.requireScopes('notifications:run'),
+    schema: {
+      description: 'Mostra última execução, próxima execução e últimos resultados do scheduler',
+      tags: ['Email'],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                enabled: { type: 'boolean' },
+                running: { type: 'boolean' },
+                isLeader: { type: 'boolean' },
+                intervalSeconds: { type: 'number' },
+                lastRunStartedAt: { type: ['string', 'null'] },
+                lastRunFinishedAt: { type: ['string', 'null'] },
+                nextRunAt: { type: ['string', 'null'] },
+                lastResult: {
+                  type: ['object', 'null'],
+                  properties: {
+                    processed: { type: 'number' },
+                    sent: { type: 'number' },
+                    failed: { type: 'number' },
+                    deferred: { type: 'number' },
+                    successRate: { type: 'number' },
+                    processingTime: { type: 'number' }
+                  }
+                },
+                lastError: { type: ['string', 'null'] }
+              }
+            }
+          }
+        }
+      }
+    }
+  }, (request, reply) => emailController.getSchedulerStatus(request, reply));
+
+  const templateContentProperties = {
+    subject_template: { type: 'string', description: 'Template do assunto (texto puro)' },
+    html_template: { type: 'string', description: 'Template HTML' }
+  };
+
+  const templatePreviewResponse = {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      message: { type: 'string' },
+      data: {
+        type: 'object',
+        properties: {
+          subject: { type: 'string' },
+          html: { type: 'string' },
+          text: { type: 'string' },
+          variables: { type: 'object', additionalProperties: true },
+          missingVariables: { type: 'array', items: { type: 'string' } }
+        }
+      }
+    }
+  };
+
+  const templateValidationResponse = {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      message: { type: 'string' },
+      data: {
+        type: 'object',
+        properties: {
+          valid: { type: 'boolean' },
+          errors: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                field: { type: 'string' },
+                message: { type: 'string' },
+                line: { type: ['number', 'null'] }
+              }
+            }
+          },
+          usedVariables: { type: 'array', items: { type: 'string' } },
+          availableVariables: { type: 'array', items: { type: 'string' } },
+          undeclaredVariables: { type: 'array', items: { type: 'string' } },
+          unusedVariables: { type: 'array', items: { type: 'string' } }
+        }
+      }
+    }
+  };
+
+  const errorResponse = {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      message: { type: 'string' },
+      details: { type: 'object', additionalProperties: true }
+    }
+  };
+
+  const templateKeyParams = {
+    type: 'object',
+    required: ['key'],
+    properties: {
+      key: { type: 'string' }
+    }
+  };
+
+  const templateVersionParams = {
+    type: 'object',
+    required: ['key', 'version'],
+    properties: {
+      key: { type: 'string' },
+      version: { type: 'integer', minimum: 1 }
+    }
+  };
+
+  const templateVersionProperties = {
+    id: { type: 'string' },
+    template_key: { type: 'string' },
+    locale: { type: 'string' },
+    version: { type: 'number' },
+    subject_template: { type: 'string' },
+    html_template: { type: 'string' },
+    available_variables: {},
+    status: { type: 'string' },
+    change_note: { type: ['string', 'null'] },
+    created_by: { type: 'string' },
+    created_at: { type: 'string' },
+    updated_at: { type: 'string' },
+    published_by: { type: ['string', 'null'] },
+    published_at: { type: ['string', 'null'] }
+  };
+
+  const templateVersionResponse = {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      message: { type: 'string' },
+      data: { type: 'object', properties: templateVersionProperties }
+    }
+  };
+
+  const validatedTemplateVersionResponse = {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      message: { type: 'string' },
+      data: {
+        type: 'object',
+        properties: {
+          version: { type: 'object', properties: templateVersionProperties },
+          validation: templateValidationResponse.properties.data
+        }
+      }
+    }
+  };
+
+  const templateDraftBody = {
+    type: 'object',
+    required: ['subject_template', 'html_template'],
+    properties: {
+      ...templateContentProperties,
+      locale: { type: 'string', description: 'Locale da versão (apenas na criação; padrão pt-BR)' },
+      available_variables: { type: 'array', items: { type: 'string' } },
+      change_note: { type: 'string', maxLength: 500 }
+    }
+  };
+
+  const templatePreviewDataBody = {
+    notificationId: { type: 'string', description: 'Usa os dados reais desta notificação' },
+    variables: {
+      type: 'object',
+      additionalProperties: true,
+      description: 'Sobrescreve variáveis do preview'
+    }
+  };
+
+  // Validar template (sintaxe e variáveis) antes de salvar
+  fastify.post('/templates/validate', {
+    preHandler: authGuard.requireScopes('admin:email'),
+    schema: {
+      description: 'Valida sintaxe e variáveis de um template de email',
+      tags: ['Email Templates'],
+      body: {
+        type: 'object',
+        required: ['subject_template', 'html_template'],
+        properties: {
+          ...templateContentProperties,
+          available_variables: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Variáveis permitidas (padrão: variáveis fornecidas pelo dispatcher)'
+          }
+        }
+      },
+      response: {
+        200: templateValidationResponse
+      }
+    }
+  }, (request, reply) => emailController.validateTemplate(request, reply));
+
+  // Validar template salvo
+  fastify.get('/templates/:key/validate', {
+    preHandler: authGuard.requireScopes('admin:email'),
+    schema: {
+      description: 'Valida sintaxe e variáveis de um template salvo em email_templates',
+      tags: ['Email Templates'],
+      params: templateKeyParams,
+      querystring: {
+        type: 'object',
+        properties: {
+          locale: { type: 'string', description: 'Locale do template (com fallback até pt-BR)' }
+        }
+      },
+      response: {
+        200: templateValidationResponse,
+        404: errorResponse
+      }
+    }
+  }, (request, reply) => emailController.validateStoredTemplate(request, reply));
+
+  // Preview de template com dados de exemplo ou de uma notificação real
+  fastify.post('/templates/:key/preview', {
+    preHandler: authGuard.requireScopes('admin:email'),
+    schema: {
+      description: 'Renderiza assunto, HTML e texto de um template (rascunho opcional no corpo)',
+      tags: ['Email Templates'],
+      params: templateKeyParams,
+      body: {
+        type: 'object',
+        properties: {
+          ...templateContentProperties,
+          ...templatePreviewDataBody,
+          locale: { type: 'string', description: 'Locale do template salvo e da formatação de datas' }
+        }
+      },
+      response: {
+        200: templatePreviewResponse,
+        400: errorResponse,
+        404: errorResponse
+      }
+    }
+  }, (request, reply) => emailController.previewTemplate(request, reply));
+
+  // Listar versões de um template
+  fastify.get('/templates/:key/versions', {
+    preHandler: authGuard.requireScopes('admin:email'),
+    schema: {
+      description: 'Lista as versões (rascunhos, publicada e arquivadas) de um template',
+      tags: ['Email Templates'],
+      params: templateKeyParams,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                templateKey: { type: 'string' },
+                versions: { type: 'array', items: { type: 'object', properties: templateVersionProperties } }
+              }
+            }
+          }
+        }
+      }
+    }
+  }, (request, reply) => emailController.listTemplateVersions(request, reply));
+
+  // Histórico de alterações de um template
+  fastify.get('/templates/:key/history', {
+    preHandler: authGuard.requireScopes('admin:email'),
+    schema: {
+      description: 'Histórico de quem criou, editou, publicou ou reverteu versões do template',
+      tags: ['Email Templates'],
+      params: templateKeyParams,
+      querystring: {
+        type: 'object',
+        properties: {
+          limit: { type: 'integer', minimum: 1, maximum: 200, default: 50 }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                templateKey: { type: 'string' },
+                events: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'string' },
+                      version_id: { type: ['string', 'null'] },
+                      version: { type: ['number', 'null'] },
+                      action: { type: 'string' },
+                      actor: { type: 'string' },
+                      created_at: { type: 'string' }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }, (request, reply) => emailController.getTemplateHistory(request, reply));
+
+  // Criar rascunho
+  fastify.post('/templates/:key/versions', {
+    preHandler: authGuard.requireScopes('admin:email'),
+    schema: {
+      description: 'Cria um rascunho de template (autor: principal autenticado)',
+      tags: ['Email Templates'],
+      params: templateKeyParams,
+      body: templateDraftBody,
+      response: {
+        201: validatedTemplateVersionResponse,
+        400: errorResponse,
+        409: errorResponse
+      }
+    }
+  }, (request, reply) => emailController.createTemplateDraft(request, reply));
+
+  // Atualizar rascunho
+  fastify.put('/templates/:key/versions/:version', {
+    preHandler: authGuard.requireScopes('admin:email'),
+    schema: {
+      description: 'Atualiza um rascunho de template',
+      tags: ['Email Templates'],
+      params: templateVersionParams,
+      body: templateDraftBody,
+      response: {
+        200: validatedTemplateVersionResponse,
+        400: errorResponse,
+        404: errorResponse,
+        409: errorResponse
+      }
+    }
+  }, (request, reply) => emailController.updateTemplateDraft(request, reply));
+
+  // Preview de uma versão
+  fastify.post('/templates/:key/versions/:version/preview', {
+    preHandler: authGuard.requireScopes('admin:email'),
+    schema: {
+      description: 'Renderiza uma versão do template com dados de exemplo ou de uma notificação real',
+      tags: ['Email Templates'],
+      params: templateVersionParams,
+      body: {
+        type: 'object',
+        properties: templatePreviewDataBody
+      },
+      response: {
+        200: templatePreviewResponse,
+        400: errorResponse,
+        404: errorResponse
+      }
+    }
+  }, (request, reply) => emailController.previewTemplateVersion(request, reply));
+
+  // Publicar versão
+  fastify.post('/templates/:key/versions/:version/publish', {
+    preHandler: authGuard.requireScopes('admin:email'),
+    schema: {
+      description: 'Publica uma versão, trocando atomicamente a versão ativa do template',
+      tags: ['Email Templates'],
+      params: templateVersionParams,
+      response: {
+        200: templateVersionResponse,
+        400: errorResponse,
+        404: errorResponse,
+        409: errorResponse
+      }
+    }
+  }, (request, reply) => emailController.publishTemplateVersion(request, reply));
+
+  // Rollback para versão anterior
+  fastify.post('/templates/:key/rollback', {
+    preHandler: authGuard.requireScopes('admin:email'),
+    schema: {
+      description: 'Reverte o template para uma versão publicada anteriormente (padrão: a última antes da atual)',
+      tags: ['Email Templates'],
+      params: templateKeyParams,
+      body: {
+        type: 'object',
+        properties: {
+          version: { type: 'integer', minimum: 1 },
+          locale: { type: 'string', default: 'pt-BR' }
+        }
+      },
+      response: {
+        200: templateVersionResponse,
+        404: errorResponse,
+        409: errorResponse
+      }
+    }
+  }, (request, reply) => emailController.rollbackTemplate(request, reply));
+}
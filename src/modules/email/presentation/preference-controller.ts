@@ -0,0 +1,164 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import type { NotificationPreferenceUseCases, NotificationPreferencesUpdate } from '../application/notification-preference-use-cases.js';
+import { createNotificationPreferenceUseCases } from '../infrastructure/notification-factory.js';
+import { escapeHtml } from '../application/template-engine.js';
+import { BaseError } from '../../../shared/errors/base-error.js';
+import { translate } from '../../../shared/i18n/messages.js';
+import { logger } from '../../../shared/utils/logger.js';
+
+/**
+ * Controller de preferências de notificação e descadastro
+ * Responsabilidade única: lidar com requisições HTTP de opt-in/opt-out
+ */
+export class PreferenceController {
+  private preferenceUseCases: NotificationPreferenceUseCases;
+
+  constructor() {
+    this.preferenceUseCases = createNotificationPreferenceUseCases();
+  }
+
+  /**
+   * Preferências do usuário
+   */
+  async getPreferences(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { userId } = request.params as { userId: string };
+
+      const preferences = await this.preferenceUseCases.getPreferences(userId);
+
+      return reply.status(200).send({
+        success: true,
+        message: 'Preferências de notificação',
+        data: preferences
+      });
+
+    } catch (error) {
+      return this.sendError(reply, error, 'Erro ao buscar preferências de notificação');
+    }
+  }
+
+  /**
+   * Atualiza preferências e/ou modo de entrega do usuário
+   */
+  async updatePreferences(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { userId } = request.params as { userId: string };
+
+      const preferences = await this.preferenceUseCases.updatePreferences(
+        userId,
+        (request.body ?? {}) as NotificationPreferencesUpdate
+      );
+
+      return reply.status(200).send({
+        success: true,
+        message: 'Preferências de notificação atualizadas',
+        data: preferences
+      });
+
+    } catch (error) {
+      return this.sendError(reply, error, 'Erro ao atualizar preferências de notificação');
+    }
+  }
+
+  /**
+   * Página de confirmação do link de descadastro (GET não altera nada, pois
+   * scanners de email seguem links automaticamente)
+   */
+  async showUnsubscribe(request: FastifyRequest, reply: FastifyReply) {
+    const { token = '' } = request.query as { token?: string };
+    const locale = this.resolveLocale(request);
+
+    try {
+      this.preferenceUseCases.verifyUnsubscribeToken(token);
+    } catch (error) {
+      return this.sendUnsubscribeError(reply, error, locale);
+    }
+
+    return reply.status(200).type('text/html; charset=utf-8').send(
+      this.renderPage(
+        translate('unsubscribe.confirmTitle', locale),
+        translate('unsubscribe.confirmMessage', locale),
+        `<form method="post" action="?token=${encodeURIComponent(token)}">` +
+          `<button type="submit">${escapeHtml(translate('unsubscribe.confirmButton', locale))}</button>` +
+        '</form>'
+      )
+    );
+  }
+
+  /**
+   * Descadastro em um clique (RFC 8058) e envio do formulário de confirmação
+   */
+  async unsubscribe(request: FastifyRequest, reply: FastifyReply) {
+    const { token = '' } = request.query as { token?: string };
+    const locale = this.resolveLocale(request);
+
+    try {
+      await this.preferenceUseCases.unsubscribe(token);
+    } catch (error) {
+      return this.sendUnsubscribeError(reply, error, locale);
+    }
+
+    return reply.status(200).type('text/html; charset=utf-8').send(
+      this.renderPage(translate('unsubscribe.doneTitle', locale), translate('unsubscribe.doneMessage', locale))
+    );
+  }
+
+  /**
+   * Idioma da página a partir do Accept-Language (o token não carrega o locale)
+   */
+  private resolveLocale(request: FastifyRequest): string | null {
+    const header = request.headers['accept-language'];
+    return header?.split(',')[0]?.split(';')[0]?.trim() || null;
+  }
+
+  private renderPage(title: string, message: string, content = ''): string {
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)}</title>
+</head>
+<body style="font-family: Arial, sans-serif; max-width: 480px; margin: 40px auto; padding: 0 20px; color: #333;">
+  <h1 style="color: #2d5016;">${escapeHtml(title)}</h1>
+  <p>${escapeHtml(message)}</p>
+  ${content}
+</body>
+</html>`;
+  }
+
+  private sendUnsubscribeError(reply: FastifyReply, error: unknown, locale: string | null) {
+    if (error instanceof BaseError && error.isOperational) {
+      return reply.status(error.statusCode).type('text/html; charset=utf-8').send(
+        this.renderPage(translate('unsubscribe.confirmTitle', locale), translate('unsubscribe.invalid', locale))
+      );
+    }
+
+    logger.error('Erro ao processar descadastro', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return reply.status(500).type('text/html; charset=utf-8').send(
+      this.renderPage(translate('unsubscribe.confirmTitle', locale), 'Erro interno do servidor')
+    );
+  }
+
+  private sendError(reply: FastifyReply, error: unknown, logMessage: string) {
+    if (error instanceof BaseError && error.isOperational) {
+      return reply.status(error.statusCode).send({
+        success: false,
+        message: error.message,
+        ...(error.context ? { details: error.context } : {})
+      });
+    }
+
+    logger.error(logMessage, {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return reply.status(500).send({
+      success: false,
+      message: 'Erro interno do servidor'
+    });
+  }
+}
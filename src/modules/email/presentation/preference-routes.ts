@@ -0,0 +1,136 @@
+import type { FastifyInstance } from 'fastify';
+import { PreferenceController } from './preference-controller.js';
+import { AuthGuard } from '../../auth/presentation/auth-guard.js';
+import { createRequestAuthenticator } from '../../auth/infrastructure/auth-factory.js';
+import { appConfig } from '../../../shared/config/app-config.js';
+
+/**
+ * Registra as rotas de preferências de notificação e descadastro
+ * Responsabilidade única: definir endpoints de opt-in/opt-out
+ */
+export async function preferenceRoutes(fastify: FastifyInstance) {
+  const preferenceController = new PreferenceController();
+  const authGuard = new AuthGuard(createRequestAuthenticator());
+
+  // Clientes de email enviam o one-click (RFC 8058) como formulário: "List-Unsubscribe=One-Click"
+  fastify.addContentTypeParser('application/x-www-form-urlencoded', { parseAs: 'string' }, (request, body, done) => {
+    done(null, Object.fromEntries(new URLSearchParams(body as string)));
+  });
+
+  const errorResponse = {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      message: { type: 'string' },
+      details: { type: 'object', additionalProperties: true }
+    }
+  };
+
+  const userIdParams = {
+    type: 'object',
+    required: ['userId'],
+    properties: {
+      userId: { type: 'string', format: 'uuid' }
+    }
+  };
+
+  const preferencesResponse = {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      message: { type: 'string' },
+      data: {
+        type: 'object',
+        properties: {
+          userId: { type: 'string' },
+          deliveryMode: { type: 'string' },
+          preferences: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                type: { type: 'string' },
+                channel: { type: 'string' },
+                enabled: { type: 'boolean' }
+              }
+            }
+          }
+        }
+      }
+    }
+  };
+
+  const unsubscribeQuery = {
+    type: 'object',
+    required: ['token'],
+    properties: {
+      token: { type: 'string', minLength: 1 }
+    }
+  };
+
+  // Consultar preferências do usuário
+  fastify.get('/preferences/:userId', {
+    preHandler: authGuard.requireSelfOrScopes('userId', 'admin:email'),
+    schema: {
+      description: 'Preferências de notificação por tipo e canal e modo de entrega do usuário',
+      tags: ['Notification Preferences'],
+      params: userIdParams,
+      response: {
+        200: preferencesResponse,
+        500: errorResponse
+      }
+    }
+  }, (request, reply) => preferenceController.getPreferences(request, reply));
+
+  // Atualizar preferências do usuário
+  fastify.put('/preferences/:userId', {
+    preHandler: authGuard.requireSelfOrScopes('userId', 'admin:email'),
+    schema: {
+      description: 'Atualiza opt-in/opt-out por tipo e canal e o modo de entrega (imediato ou resumo diário)',
+      tags: ['Notification Preferences'],
+      params: userIdParams,
+      body: {
+        type: 'object',
+        properties: {
+          deliveryMode: { type: 'string', enum: ['immediate', 'digest'] },
+          preferences: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['type', 'channel', 'enabled'],
+              properties: {
+                type: { type: 'string', enum: [...appConfig.notifications.preferences.types] },
+                channel: { type: 'string', enum: [...appConfig.notifications.preferences.channels] },
+                enabled: { type: 'boolean' }
+              }
+            }
+          }
+        }
+      },
+      response: {
+        200: preferencesResponse,
+        400: errorResponse,
+        404: errorResponse,
+        500: errorResponse
+      }
+    }
+  }, (request, reply) => preferenceController.updatePreferences(request, reply));
+
+  // Página de confirmação do link de descadastro
+  fastify.get('/unsubscribe', {
+    schema: {
+      description: 'Página HTML de confirmação do descadastro (não altera preferências)',
+      tags: ['Notification Preferences'],
+      querystring: unsubscribeQuery
+    }
+  }, (request, reply) => preferenceController.showUnsubscribe(request, reply));
+
+  // Descadastro em um clique
+  fastify.post('/unsubscribe', {
+    schema: {
+      description: 'Descadastro em um clique (RFC 8058) a partir do link assinado',
+      tags: ['Notification Preferences'],
+      querystring: unsubscribeQuery
+    }
+  }, (request, reply) => preferenceController.unsubscribe(request, reply));
+}
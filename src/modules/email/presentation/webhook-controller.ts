@@ -0,0 +1,63 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import type { EmailDeliveryEventUseCases } from '../application/email-delivery-event-use-cases.js';
+import { createEmailDeliveryEventUseCases } from '../infrastructure/notification-factory.js';
+import { BaseError } from '../../../shared/errors/base-error.js';
+import { logger } from '../../../shared/utils/logger.js';
+
+/**
+ * Controller de webhooks do provedor de email
+ * Responsabilidade única: receber eventos de entrega e repassar o corpo bruto aos casos de uso
+ */
+export class WebhookController {
+  private deliveryEventUseCases: EmailDeliveryEventUseCases;
+
+  constructor() {
+    this.deliveryEventUseCases = createEmailDeliveryEventUseCases();
+  }
+
+  /**
+   * Eventos do Resend (delivered, bounced, complained, opened...)
+   * Respostas diferentes de 2xx fazem o Resend reenviar o evento
+   */
+  async handleResendWebhook(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const result = await this.deliveryEventUseCases.handleResendWebhook(
+        {
+          id: this.header(request, 'svix-id'),
+          timestamp: this.header(request, 'svix-timestamp'),
+          signature: this.header(request, 'svix-signature'),
+        },
+        request.body as string
+      );
+
+      return reply.status(200).send({
+        success: true,
+        message: result.duplicate ? 'Evento já processado' : 'Evento processado',
+        data: result
+      });
+
+    } catch (error) {
+      if (error instanceof BaseError && error.isOperational) {
+        logger.warn(`Webhook do Resend rejeitado: ${error.message}`);
+        return reply.status(error.statusCode).send({
+          success: false,
+          message: error.message
+        });
+      }
+
+      logger.error('Erro ao processar webhook do Resend', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Erro interno do servidor'
+      });
+    }
+  }
+
+  private header(request: FastifyRequest, name: string): string | undefined {
+    const value = request.headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  }
+}
@@ -0,0 +1,54 @@
+import type { FastifyInstance } from 'fastify';
+import { WebhookController } from './webhook-controller.js';
+
+/**
+ * Registra as rotas de webhooks do provedor de email
+ * Responsabilidade única: definir endpoints de eventos de entrega
+ */
+export async function webhookRoutes(fastify: FastifyInstance) {
+  const webhookController = new WebhookController();
+
+  // A assinatura é calculada sobre o corpo exato recebido: manter o JSON como texto
+  fastify.addContentTypeParser('application/json', { parseAs: 'string' }, (request, body, done) => {
+    done(null, body);
+  });
+
+  const errorResponse = {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      message: { type: 'string' }
+    }
+  };
+
+  // Eventos de entrega do Resend
+  fastify.post('/webhooks/resend', {
+    schema: {
+      description: 'Recebe eventos de entrega do Resend (assinatura Svix), atualiza as notificações e suprime hard bounces e reclamações',
+      tags: ['Email Webhooks'],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                eventId: { type: 'string' },
+                type: { type: 'string' },
+                providerMessageId: { type: 'string' },
+                duplicate: { type: 'boolean' },
+                notificationsUpdated: { type: 'number' },
+                suppressed: { type: 'array', items: { type: 'string' } }
+              }
+            }
+          }
+        },
+        400: errorResponse,
+        401: errorResponse,
+        500: errorResponse
+      }
+    }
+  }, (request, reply) => webhookController.handleResendWebhook(request, reply));
+}
@@ -4,10 +4,25 @@ import { env } from './shared/config/environment.js';
 import { appConfig, getCorsConfig } from './shared/config/app-config.js';
 import { healthRoutes } from './modules/health/presentation/health-routes.js';
 import { emailRoutes } from './modules/email/presentation/email-routes.js';
+import { preferenceRoutes } from './modules/email/presentation/preference-routes.js';
+import { webhookRoutes } from './modules/email/presentation/webhook-routes.js';
 import { authRoutes } from './modules/auth/presentation/auth-routes.js';
+import { calendarRoutes } from './modules/calendar/presentation/calendar-routes.js';
+import { createNotificationScheduler } from './modules/email/infrastructure/notification-factory.js';
+import { createCalendarSyncScheduler } from './modules/calendar/infrastructure/calendar-factory.js';
 import { logger } from './shared/utils/logger.js';
 import { nowUTC } from './shared/utils/date-utils.js';
 
+// Scheduler opcional do ciclo de notificações (NOTIFICATION_SCHEDULER_ENABLED)
+const notificationScheduler = appConfig.notifications.scheduler.enabled
+  ? createNotificationScheduler()
+  : null;
+
+// Scheduler opcional da reconciliação com o Google Calendar (CALENDAR_SYNC_SCHEDULER_ENABLED)
+const calendarSyncScheduler = appConfig.calendar.scheduler.enabled
+  ? createCalendarSyncScheduler()
+  : null;
+
 /**
  * Cria e configura servidor Fastify simples
  */
@@ -24,8 +39,11 @@ async function createServer() {
 
   // Registrar rotas modulares
   await fastify.register(healthRoutes, { prefix: '/health' });
-  await fastify.register(emailRoutes, { prefix: '/email' });
+  await fastify.register(emailRoutes, { prefix: '/email', notificationScheduler });
+  await fastify.register(preferenceRoutes, { prefix: '/email' });
+  await fastify.register(webhookRoutes, { prefix: '/email' });
   await fastify.register(authRoutes, { prefix: '/auth' });
+  await fastify.register(calendarRoutes, { prefix: '/calendar' });
 
   // Rota hello world
   fastify.get('/', async () => {
@@ -52,6 +70,21 @@ async function startServer() {
 
     logger.info(`🌱 GrowSpace Backend iniciado na porta ${env.PORT}!`);
 
+    notificationScheduler?.start();
+    calendarSyncScheduler?.start();
+
+    // Encerramento gracioso: termina a execução em andamento antes de sair
+    const shutdown = async (signal: string) => {
+      logger.info(`Recebido ${signal}, encerrando servidor...`);
+      await notificationScheduler?.stop();
+      await calendarSyncScheduler?.stop();
+      await server.close();
+      process.exit(0);
+    };
+
+    process.once('SIGTERM', () => void shutdown('SIGTERM'));
+    process.once('SIGINT', () => void shutdown('SIGINT'));
+
   } catch (error) {
     logger.error('Erro ao iniciar servidor:', error);
     process.exit(1);
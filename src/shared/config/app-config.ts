@@ -1,4 +1,6 @@
+import { resolve } from 'path';
 import { env } from './environment.js';
+import { AUTH_SCOPES, type AuthScope } from '../types/auth.js';
 
 /**
  * Configurações centralizadas da aplicação
@@ -24,26 +26,162 @@ export const appConfig = {
   // Configurações de email
   email: {
     from: env.RESEND_FROM_EMAIL,
+    // Provedor selecionado por EMAIL_PROVIDER (ver email-service-factory)
+    provider: env.EMAIL_PROVIDER ?? (env.RESEND_API_KEY ? 'resend' : 'mock'),
+    smtp: {
+      host: env.SMTP_HOST,
+      port: env.SMTP_PORT,
+      secure: env.SMTP_SECURE,
+      user: env.SMTP_USER,
+      password: env.SMTP_PASSWORD,
+    },
+    file: {
+      directory: resolve(process.cwd(), env.EMAIL_FILE_DIRECTORY),
+    },
     templates: {
-      welcome: {
-        subject: '🌱 Bem-vindo ao GrowSpace!',
-      },
+      // Templates transacionais empacotados (<key>.html em pt-BR, <key>.<locale>.html nos demais)
+      directory: resolve(process.cwd(), 'email_templates'),
       passwordReset: {
-        subject: '🔐 Recuperação de Senha - GrowSpace',
         expirationHours: 1,
       },
     },
+    // Máximo de emails por chamada de batch (limite do Resend: 100)
+    batchSize: 100,
+    // Limite de taxa do provedor (Resend: 2 req/s por padrão)
+    rateLimit: {
+      ratePerSecond: env.EMAIL_RATE_LIMIT_PER_SECOND,
+      burst: env.EMAIL_RATE_LIMIT_BURST,
+      // Pausa após 429 quando o provedor não informa Retry-After
+      rateLimitPauseMs: env.EMAIL_RATE_LIMIT_PAUSE_MS,
+      maxRateLimitRetries: 2,
+    },
+    // Webhooks de eventos de entrega (assinatura Svix)
+    webhooks: {
+      resendSecret: env.RESEND_WEBHOOK_SECRET,
+      // Diferença máxima aceita entre o timestamp assinado e o relógio local
+      toleranceSeconds: 300,
+    },
+    // Política de destinatários fora de produção
+    // redirectTo: envia tudo para um único endereço
+    // allowlist: apenas endereços/domínios listados (ex.: "ana@x.com,@growspace.app")
+    recipients: {
+      redirectTo: env.EMAIL_REDIRECT_TO,
+      allowlist: (env.EMAIL_RECIPIENT_ALLOWLIST || '')
+        .split(',')
+        .map((entry) => entry.trim().toLowerCase())
+        .filter(Boolean),
+    },
+  },
+
+  // Configurações da fila de notificações
+  notifications: {
+    batchSize: 50,
+    // Notificações processadas em paralelo (o envio continua limitado pelo rate limit)
+    concurrency: env.NOTIFICATION_SEND_CONCURRENCY,
+    // Tempo máximo que uma execução mantém o lote reservado antes de outra poder reassumi-lo
+    leaseSeconds: 600,
+    // Backoff exponencial: base * 2^(tentativa - 1), limitado a maxDelaySeconds
+    retry: {
+      maxAttempts: env.NOTIFICATION_MAX_ATTEMPTS,
+      baseDelaySeconds: env.NOTIFICATION_RETRY_BASE_SECONDS,
+      maxDelaySeconds: env.NOTIFICATION_RETRY_MAX_SECONDS,
+    },
+    // Scheduler em processo (liderança via tabela scheduler_locks)
+    scheduler: {
+      enabled: env.NOTIFICATION_SCHEDULER_ENABLED,
+      intervalSeconds: env.NOTIFICATION_SCHEDULER_INTERVAL_SECONDS,
+      lockName: 'notification-dispatch',
+    },
+    // Sem envios entre start e end no horário local do destinatário (ex.: 22:00 → 07:00)
+    // Notificações nesse intervalo têm o scheduled_at adiado para o fim do silêncio
+    quietHours: env.NOTIFICATION_QUIET_HOURS_START && env.NOTIFICATION_QUIET_HOURS_END
+      ? { start: env.NOTIFICATION_QUIET_HOURS_START, end: env.NOTIFICATION_QUIET_HOURS_END }
+      : null,
+    // Resumo diário: lembretes de quem escolheu digest são agrupados em um único email
+    digest: {
+      time: env.NOTIFICATION_DIGEST_TIME,
+      templateKey: 'task_digest',
+      // Apenas estes templates entram no resumo; os demais seguem o envio imediato
+      templateKeys: ['task_reminder', 'task_overdue'] as string[],
+    },
+    // Preferências por tipo de notificação e canal (sem registro = habilitado)
+    preferences: {
+      types: ['task_reminder', 'task_overdue'],
+      channels: ['email'],
+    },
+    // Links assinados de descadastro em um clique (RFC 8058)
+    unsubscribe: {
+      secret: env.UNSUBSCRIBE_SECRET,
+      path: '/email/unsubscribe',
+    },
+  },
+
+  // Sincronização de tarefas (user_tasks e todos) com um calendário dedicado no Google Calendar
+  calendar: {
+    apiUrl: env.GOOGLE_CALENDAR_API_URL ?? 'https://www.googleapis.com/calendar/v3',
+    calendarName: 'GrowSpace',
+    // Tarefas com horário viram eventos desta duração; tarefas só com data, eventos de dia inteiro
+    eventDurationMinutes: 30,
+    syncConcurrency: 4,
+    // Reconciliação periódica (liderança via tabela scheduler_locks)
+    scheduler: {
+      enabled: env.CALENDAR_SYNC_SCHEDULER_ENABLED,
+      intervalSeconds: env.CALENDAR_SYNC_INTERVAL_SECONDS,
+      lockName: 'calendar-sync',
+    },
   },
 
   // Configurações de autenticação
   auth: {
+    // Tokens de acesso de usuários (JWT HS256)
+    accessToken: {
+      secret: env.AUTH_JWT_SECRET,
+      issuer: 'growspace-backend',
+      ttlSeconds: 900,
+    },
+    // Escopos concedidos por papel do usuário (user_profiles.role)
+    // Usuários comuns só acessam os próprios recursos (ex.: preferências)
+    roles: {
+      user: [] as AuthScope[],
+      admin: [...AUTH_SCOPES] as AuthScope[],
+    } as Record<string, AuthScope[]>,
+    // Sessões após o login: código de troca de uso único e refresh tokens rotativos
+    session: {
+      exchangeCodeTtlSeconds: 60,
+      refreshTokenTtlDays: 30,
+    },
+    // State do OAuth: assinado, de uso único e com validade curta (o login deve ser concluído nesse prazo)
+    // O nonce também vai num cookie HttpOnly e precisa voltar no callback (mesmo navegador)
+    oauthState: {
+      ttlSeconds: 600,
+      cookieName: 'growspace_oauth_nonce',
+      cookiePath: '/auth/google',
+    },
+    // Origens permitidas como destino pós-login (returnTo): lista exata, separada do CORS
+    // O código de troca da sessão vai para essa origem, então nada de curingas
+    returnToOrigins: {
+      development: ['http://localhost:3000'],
+      production: ['https://growspace-swart.vercel.app'],
+    },
+    // Prefixo das chaves de API (identifica a credencial no header Authorization)
+    apiKeyPrefix: 'gsk_',
     google: {
       scopes: [
         'https://www.googleapis.com/auth/userinfo.email',
         'https://www.googleapis.com/auth/userinfo.profile',
       ],
+      // Escopos adicionais pedidos sob demanda (GET /auth/google?scopes=calendar)
+      optionalScopes: {
+        calendar: 'https://www.googleapis.com/auth/calendar.app.created',
+      } as Record<string, string>,
       accessType: 'offline',
       prompt: 'consent',
+      // Tokens do acesso offline, cifrados no banco (AES-256-GCM)
+      tokens: {
+        encryptionKey: env.GOOGLE_TOKEN_ENCRYPTION_KEY,
+        // Renova o token de acesso um pouco antes de expirar
+        refreshSkewSeconds: 60,
+      },
     },
   },
 
@@ -55,6 +193,13 @@ export const appConfig = {
   },
 } as const;
 
+/**
+ * Helper para obter a URL pública desta API
+ */
+export function getPublicApiUrl(): string {
+  return (env.PUBLIC_API_URL ?? `http://localhost:${env.PORT}`).replace(/\/$/, '');
+}
+
 /**
  * Helper para obter URL do frontend baseado no ambiente
  */
@@ -71,4 +216,25 @@ export function getCorsConfig(): boolean | (string | RegExp)[] {
   return env.NODE_ENV === 'development' 
     ? appConfig.cors.development 
     : [...appConfig.cors.production];
-} 
\ No newline at end of file
+}
+
+/**
+ * Indica se a origem é um destino permitido após o login (comparação exata)
+ */
+export function isAllowedReturnToOrigin(origin: string): boolean {
+  const origins: readonly string[] = env.NODE_ENV === 'development'
+    ? appConfig.auth.returnToOrigins.development
+    : appConfig.auth.returnToOrigins.production;
+
+  return origins.includes(origin);
+}
+
+/**
+ * Helper para obter a política de destinatários baseada no ambiente
+ * Em produção nenhum redirecionamento/allowlist é aplicado
+ */
+export function getRecipientPolicy(): { redirectTo?: string | undefined; allowlist: string[] } {
+  return env.NODE_ENV === 'production'
+    ? { allowlist: [] }
+    : { redirectTo: appConfig.email.recipients.redirectTo, allowlist: [...appConfig.email.recipients.allowlist] };
+}
@@ -18,9 +18,58 @@ const environmentSchema = z.object({
   GOOGLE_CLIENT_ID: z.string().min(1),
   GOOGLE_CLIENT_SECRET: z.string().min(1),
   GOOGLE_REDIRECT_URI: z.string().url(),
+  // Chave AES-256 (base64, 32 bytes) para cifrar os tokens do Google; sem ela o acesso offline não é guardado
+  GOOGLE_TOKEN_ENCRYPTION_KEY: z
+    .string()
+    .refine((value) => Buffer.from(value, 'base64').length === 32, 'deve ter 32 bytes em base64')
+    .optional(),
+  // Sincronização de tarefas com o Google Calendar
+  CALENDAR_SYNC_SCHEDULER_ENABLED: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
+  CALENDAR_SYNC_INTERVAL_SECONDS: z.string().default('900').transform(Number),
+  // URL base da API do Calendar (ex.: fake local em testes)
+  GOOGLE_CALENDAR_API_URL: z.string().url().optional(),
+  // Segredo HMAC dos tokens de acesso (JWT HS256); sem ele só chaves de API autenticam
+  AUTH_JWT_SECRET: z.string().min(32).optional(),
+  // Provedor de email (resend, smtp, file, mock); sem valor: resend com RESEND_API_KEY, senão mock
+  EMAIL_PROVIDER: z.enum(['resend', 'smtp', 'file', 'mock']).optional(),
+  // SMTP (ex.: MailHog local em localhost:1025)
+  SMTP_HOST: z.string().min(1).optional(),
+  SMTP_PORT: z.string().default('587').transform(Number),
+  SMTP_SECURE: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
+  SMTP_USER: z.string().min(1).optional(),
+  SMTP_PASSWORD: z.string().min(1).optional(),
+  // Diretório dos arquivos .eml do provedor file
+  EMAIL_FILE_DIRECTORY: z.string().min(1).default('tmp/emails'),
   // Resend Email
   RESEND_API_KEY: z.string().min(1).optional(),
   RESEND_FROM_EMAIL: z.string().email().default('onboarding@resend.dev'),
+  // Segredo de assinatura dos webhooks do Resend (whsec_...); sem ele os eventos são rejeitados
+  RESEND_WEBHOOK_SECRET: z.string().startsWith('whsec_').optional(),
+  // Destinatários fora de produção
+  EMAIL_REDIRECT_TO: z.string().email().optional(),
+  EMAIL_RECIPIENT_ALLOWLIST: z.string().optional(),
+  // Retentativas de notificações
+  NOTIFICATION_MAX_ATTEMPTS: z.string().default('5').transform(Number),
+  NOTIFICATION_RETRY_BASE_SECONDS: z.string().default('60').transform(Number),
+  NOTIFICATION_RETRY_MAX_SECONDS: z.string().default('21600').transform(Number),
+  // Rate limit do provedor de email
+  EMAIL_RATE_LIMIT_PER_SECOND: z.coerce.number().int().positive().default(2),
+  EMAIL_RATE_LIMIT_BURST: z.coerce.number().int().positive().default(2),
+  // Pausa após 429 quando o provedor não envia Retry-After
+  EMAIL_RATE_LIMIT_PAUSE_MS: z.coerce.number().int().positive().default(1000),
+  NOTIFICATION_SEND_CONCURRENCY: z.string().default('4').transform(Number),
+  // Scheduler em processo
+  NOTIFICATION_SCHEDULER_ENABLED: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
+  NOTIFICATION_SCHEDULER_INTERVAL_SECONDS: z.string().default('60').transform(Number),
+  // Horário de silêncio no fuso do usuário (HH:mm); sem valores, desabilitado
+  NOTIFICATION_QUIET_HOURS_START: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).optional(),
+  NOTIFICATION_QUIET_HOURS_END: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).optional(),
+  // Horário local (HH:mm) de envio do resumo diário para quem escolheu digest
+  NOTIFICATION_DIGEST_TIME: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).default('08:00'),
+  // URL pública desta API (links de descadastro nos emails)
+  PUBLIC_API_URL: z.string().url().optional(),
+  // Segredo HMAC dos links de descadastro; sem ele os emails saem sem o link
+  UNSUBSCRIBE_SECRET: z.string().min(32).optional(),
 });
 
 type Environment = z.infer<typeof environmentSchema>;
@@ -41,8 +90,37 @@ function loadEnvironment(): Environment {
       GOOGLE_CLIENT_ID: process.env.GOOGLE_CLIENT_ID,
       GOOGLE_CLIENT_SECRET: process.env.GOOGLE_CLIENT_SECRET,
       GOOGLE_REDIRECT_URI: process.env.GOOGLE_REDIRECT_URI,
+      GOOGLE_TOKEN_ENCRYPTION_KEY: process.env.GOOGLE_TOKEN_ENCRYPTION_KEY || undefined,
+      CALENDAR_SYNC_SCHEDULER_ENABLED: process.env.CALENDAR_SYNC_SCHEDULER_ENABLED,
+      CALENDAR_SYNC_INTERVAL_SECONDS: process.env.CALENDAR_SYNC_INTERVAL_SECONDS,
+      GOOGLE_CALENDAR_API_URL: process.env.GOOGLE_CALENDAR_API_URL || undefined,
+      AUTH_JWT_SECRET: process.env.AUTH_JWT_SECRET || undefined,
+      EMAIL_PROVIDER: process.env.EMAIL_PROVIDER || undefined,
+      SMTP_HOST: process.env.SMTP_HOST || undefined,
+      SMTP_PORT: process.env.SMTP_PORT || undefined,
+      SMTP_SECURE: process.env.SMTP_SECURE || undefined,
+      SMTP_USER: process.env.SMTP_USER || undefined,
+      SMTP_PASSWORD: process.env.SMTP_PASSWORD || undefined,
+      EMAIL_FILE_DIRECTORY: process.env.EMAIL_FILE_DIRECTORY || undefined,
       RESEND_API_KEY: process.env.RESEND_API_KEY,
       RESEND_FROM_EMAIL: process.env.RESEND_FROM_EMAIL,
+      RESEND_WEBHOOK_SECRET: process.env.RESEND_WEBHOOK_SECRET || undefined,
+      EMAIL_REDIRECT_TO: process.env.EMAIL_REDIRECT_TO,
+      EMAIL_RECIPIENT_ALLOWLIST: process.env.EMAIL_RECIPIENT_ALLOWLIST,
+      NOTIFICATION_MAX_ATTEMPTS: process.env.NOTIFICATION_MAX_ATTEMPTS,
+      NOTIFICATION_RETRY_BASE_SECONDS: process.env.NOTIFICATION_RETRY_BASE_SECONDS,
+      NOTIFICATION_RETRY_MAX_SECONDS: process.env.NOTIFICATION_RETRY_MAX_SECONDS,
+      EMAIL_RATE_LIMIT_PER_SECOND: process.env.EMAIL_RATE_LIMIT_PER_SECOND,
+      EMAIL_RATE_LIMIT_BURST: process.env.EMAIL_RATE_LIMIT_BURST,
+      EMAIL_RATE_LIMIT_PAUSE_MS: process.env.EMAIL_RATE_LIMIT_PAUSE_MS,
+      NOTIFICATION_SEND_CONCURRENCY: process.env.NOTIFICATION_SEND_CONCURRENCY,
+      NOTIFICATION_SCHEDULER_ENABLED: process.env.NOTIFICATION_SCHEDULER_ENABLED,
+      NOTIFICATION_SCHEDULER_INTERVAL_SECONDS: process.env.NOTIFICATION_SCHEDULER_INTERVAL_SECONDS,
+      NOTIFICATION_QUIET_HOURS_START: process.env.NOTIFICATION_QUIET_HOURS_START || undefined,
+      NOTIFICATION_QUIET_HOURS_END: process.env.NOTIFICATION_QUIET_HOURS_END || undefined,
+      NOTIFICATION_DIGEST_TIME: process.env.NOTIFICATION_DIGEST_TIME || undefined,
+      PUBLIC_API_URL: process.env.PUBLIC_API_URL || undefined,
+      UNSUBSCRIBE_SECRET: process.env.UNSUBSCRIBE_SECRET || undefined,
     });
   } catch (error) {
     console.error('❌ Erro nas variáveis de ambiente:', error);
@@ -50,6 +50,18 @@ export class UnauthorizedError extends BaseError {
   }
 }
 
+/**
+ * Erro de permissão insuficiente (403)
+ */
+export class ForbiddenError extends BaseError {
+  readonly statusCode = 403;
+  readonly isOperational = true;
+
+  constructor(message: string = 'Acesso negado', context?: Record<string, unknown>) {
+    super(message, context);
+  }
+}
+
 /**
  * Erro de recurso não encontrado (404)
  */
@@ -62,6 +74,18 @@ export class NotFoundError extends BaseError {
   }
 }
 
+/**
+ * Erro de conflito com o estado atual do recurso (409)
+ */
+export class ConflictError extends BaseError {
+  readonly statusCode = 409;
+  readonly isOperational = true;
+
+  constructor(message: string = 'Conflito com o estado atual do recurso', context?: Record<string, unknown>) {
+    super(message, context);
+  }
+}
+
 /**
  * Erro interno do servidor (500)
  */
@@ -0,0 +1,39 @@
+/**
+ * Locale padrão do GrowSpace (último elo de toda cadeia de fallback)
+ */
+export const DEFAULT_LOCALE = 'pt-BR';
+
+/**
+ * Normaliza um locale informado pelo usuário ("es_ar" → "es-AR")
+ * Retorna null para valores vazios ou inválidos
+ */
+export function normalizeLocale(value: string | null | undefined): string | null {
+  if (!value) return null;
+
+  try {
+    return Intl.getCanonicalLocales(value.trim().replace(/_/g, '-'))[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Cadeia de fallback de um locale: "es-AR" → ["es-AR", "es", "pt-BR"]
+ */
+export function getLocaleFallbackChain(value: string | null | undefined): string[] {
+  const locale = normalizeLocale(value);
+  const chain: string[] = [];
+
+  if (locale) {
+    const parts = locale.split('-');
+    for (let i = parts.length; i > 0; i--) {
+      chain.push(parts.slice(0, i).join('-'));
+    }
+  }
+
+  if (!chain.includes(DEFAULT_LOCALE)) {
+    chain.push(DEFAULT_LOCALE);
+  }
+
+  return chain;
+}
@@ -0,0 +1,58 @@
+import { getLocaleFallbackChain } from './locale.js';
+
+/**
+ * Textos traduzidos usados fora dos templates de email
+ * Cada idioma pode ser parcial: chaves ausentes seguem a cadeia de fallback até pt-BR
+ */
+const MESSAGES = {
+  'pt-BR': {
+    'notification.defaultUserName': 'Usuário',
+    'notification.today': 'Hoje',
+    'email.unsubscribe': 'Não quer mais receber estes emails?',
+    'email.unsubscribeLink': 'Cancelar inscrição',
+    'unsubscribe.confirmTitle': 'Cancelar inscrição',
+    'unsubscribe.confirmMessage': 'Você deixará de receber estes emails do GrowSpace.',
+    'unsubscribe.confirmButton': 'Confirmar cancelamento',
+    'unsubscribe.doneTitle': 'Inscrição cancelada',
+    'unsubscribe.doneMessage': 'Você não receberá mais estes emails. Para voltar a recebê-los, acesse suas configurações.',
+    'unsubscribe.invalid': 'Este link de cancelamento é inválido.',
+  },
+  es: {
+    'notification.defaultUserName': 'Usuario',
+    'notification.today': 'Hoy',
+    'email.unsubscribe': '¿No quieres recibir más estos emails?',
+    'email.unsubscribeLink': 'Cancelar suscripción',
+    'unsubscribe.confirmTitle': 'Cancelar suscripción',
+    'unsubscribe.confirmMessage': 'Dejarás de recibir estos emails de GrowSpace.',
+    'unsubscribe.confirmButton': 'Confirmar cancelación',
+    'unsubscribe.doneTitle': 'Suscripción cancelada',
+    'unsubscribe.doneMessage': 'Ya no recibirás estos emails. Para volver a recibirlos, accede a tu configuración.',
+    'unsubscribe.invalid': 'Este enlace de cancelación no es válido.',
+  },
+  en: {
+    'notification.defaultUserName': 'User',
+    'notification.today': 'Today',
+    'email.unsubscribe': "Don't want to receive these emails?",
+    'email.unsubscribeLink': 'Unsubscribe',
+    'unsubscribe.confirmTitle': 'Unsubscribe',
+    'unsubscribe.confirmMessage': 'You will stop receiving these emails from GrowSpace.',
+    'unsubscribe.confirmButton': 'Confirm unsubscribe',
+    'unsubscribe.doneTitle': 'Unsubscribed',
+    'unsubscribe.doneMessage': "You won't receive these emails anymore. To receive them again, open your settings.",
+    'unsubscribe.invalid': 'This unsubscribe link is invalid.',
+  },
+} satisfies Record<string, Record<string, string>>;
+
+export type MessageKey = keyof (typeof MESSAGES)['pt-BR'];
+
+const CATALOG: Record<string, Partial<Record<MessageKey, string>>> = MESSAGES;
+
+/**
+ * Traduz uma chave para o locale informado, substituindo parâmetros {nome}
+ */
+export function translate(key: MessageKey, locale: string | null | undefined, params: Record<string, string | number> = {}): string {
+  const chain = getLocaleFallbackChain(locale);
+  const message = chain.map((candidate) => CATALOG[candidate]?.[key]).find((value) => value !== undefined) ?? key;
+
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
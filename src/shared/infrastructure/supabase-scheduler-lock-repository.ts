@@ -0,0 +1,75 @@
+import { createClient } from '@supabase/supabase-js';
+import { env } from '../config/environment.js';
+import { logger } from '../utils/logger.js';
+import { nowUTC } from '../utils/date-utils.js';
+import type { ISchedulerLockRepository } from '../types/scheduler.js';
+
+// Código Postgres para violação de unicidade
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Locks de liderança na tabela `scheduler_locks` do Supabase
+ */
+export class SupabaseSchedulerLockRepository implements ISchedulerLockRepository {
+  private supabase;
+
+  constructor() {
+    this.supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_KEY);
+  }
+
+  /**
+   * Renova o lock se já é o dono ou se o lock expirou; senão tenta criá-lo
+   */
+  async acquire(name: string, owner: string, ttlSeconds: number): Promise<boolean> {
+    const now = nowUTC();
+    const lock = {
+      owner,
+      expires_at: new Date(now.getTime() + ttlSeconds * 1000).toISOString(),
+      updated_at: now.toISOString(),
+    };
+
+    const { data: renewed, error: updateError } = await this.supabase
+      .from('scheduler_locks')
+      .update(lock)
+      .eq('name', name)
+      .or(`owner.eq."${owner}",expires_at.lt.${now.toISOString()}`)
+      .select('name');
+
+    if (updateError) {
+      logger.error(`Erro ao renovar lock "${name}"`, { error: updateError });
+      return false;
+    }
+
+    if (renewed && renewed.length > 0) {
+      return true;
+    }
+
+    const { error: insertError } = await this.supabase
+      .from('scheduler_locks')
+      .insert({ name, ...lock });
+
+    if (insertError) {
+      if (insertError.code !== UNIQUE_VIOLATION) {
+        logger.error(`Erro ao criar lock "${name}"`, { error: insertError });
+      }
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Libera o lock (apenas se ainda pertencer ao dono)
+   */
+  async release(name: string, owner: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('scheduler_locks')
+      .update({ expires_at: nowUTC().toISOString(), updated_at: nowUTC().toISOString() })
+      .eq('name', name)
+      .eq('owner', owner);
+
+    if (error) {
+      logger.warn(`Erro ao liberar lock "${name}"`, { error });
+    }
+  }
+}
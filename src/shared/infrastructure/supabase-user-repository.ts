@@ -32,6 +32,36 @@ export class SupabaseUserRepository {
     }
   }
 
+  /**
+   * Busca usuário por ID (perfil, papel e email do auth.users)
+   */
+  async findById(id: string): Promise<User | null> {
+    const { data, error } = await this.supabase
+      .from('user_profiles')
+      .select('*')
+      .eq('user_id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Erro ao buscar usuário por ID: ${error.message}`);
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    const { data: authUser, error: authError } = await this.supabase.auth.admin.getUserById(id);
+
+    if (authError) {
+      console.warn('⚠️ [Repository] Erro ao buscar email no auth.users:', authError.message);
+    }
+
+    return {
+      ...this.mapToUser(data, authUser?.user?.email || data.email || ''),
+      role: data.role || 'user',
+    };
+  }
+
   /**
    * Busca usuário por Google ID
    */
@@ -230,6 +260,28 @@ export class SupabaseUserRepository {
     }
   }
 
+  /**
+   * Exclui perfil e usuário do auth.users (registros ligados ao usuário caem em cascata)
+   */
+  async delete(id: string): Promise<void> {
+    const { error: profileError } = await this.supabase
+      .from('user_profiles')
+      .delete()
+      .eq('user_id', id);
+
+    if (profileError) {
+      throw new Error(`Erro ao excluir perfil: ${profileError.message}`);
+    }
+
+    const { error } = await this.supabase.auth.admin.deleteUser(id);
+
+    if (error) {
+      throw new Error(`Erro ao excluir usuário: ${error.message}`);
+    }
+
+    console.log('🗑️ [Repository] Usuário excluído:', id);
+  }
+
   /**
    * Mapeia dados do Supabase para interface User
    */
@@ -0,0 +1,140 @@
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import type { ISchedulerLockRepository, SchedulerStatus } from '../types/scheduler.js';
+import { logger } from '../utils/logger.js';
+import { nowUTC } from '../utils/date-utils.js';
+
+export interface JobSchedulerOptions<TResult> {
+  name: string;
+  intervalSeconds: number;
+  run: () => Promise<TResult>;
+  lockRepository: ISchedulerLockRepository;
+  // Padrão: 3x o intervalo, para que outra instância assuma se o líder cair
+  lockTtlSeconds?: number;
+}
+
+/**
+ * Scheduler em processo com liderança via banco
+ * Responsabilidade: executar um job em intervalo fixo em apenas uma instância
+ */
+export class JobScheduler<TResult> {
+  private readonly owner = `${hostname()}:${process.pid}:${randomUUID()}`;
+  private readonly lockTtlSeconds: number;
+  private timer: NodeJS.Timeout | null = null;
+  private currentRun: Promise<void> | null = null;
+  private started = false;
+
+  private isLeader = false;
+  private running = false;
+  private lastRunStartedAt: Date | null = null;
+  private lastRunFinishedAt: Date | null = null;
+  private nextRunAt: Date | null = null;
+  private lastResult: TResult | null = null;
+  private lastError: string | null = null;
+
+  constructor(private options: JobSchedulerOptions<TResult>) {
+    this.lockTtlSeconds = options.lockTtlSeconds ?? options.intervalSeconds * 3;
+  }
+
+  /**
+   * Inicia o scheduler (primeira execução imediata)
+   */
+  start(): void {
+    if (this.started) return;
+
+    this.started = true;
+    logger.info(`⏰ Scheduler "${this.options.name}" iniciado`, {
+      intervalSeconds: this.options.intervalSeconds,
+      owner: this.owner,
+    });
+    this.scheduleNext(0);
+  }
+
+  /**
+   * Para o scheduler aguardando a execução em andamento e libera a liderança
+   */
+  async stop(): Promise<void> {
+    if (!this.started) return;
+
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.nextRunAt = null;
+
+    if (this.currentRun) {
+      logger.info(`⏳ Aguardando execução em andamento do scheduler "${this.options.name}"`);
+      await this.currentRun;
+    }
+
+    if (this.isLeader) {
+      await this.options.lockRepository.release(this.options.name, this.owner);
+      this.isLeader = false;
+    }
+
+    logger.info(`🛑 Scheduler "${this.options.name}" parado`);
+  }
+
+  /**
+   * Retorna o estado atual do scheduler
+   */
+  getStatus(): SchedulerStatus<TResult> {
+    return {
+      name: this.options.name,
+      enabled: this.started,
+      running: this.running,
+      isLeader: this.isLeader,
+      intervalSeconds: this.options.intervalSeconds,
+      lastRunStartedAt: this.lastRunStartedAt?.toISOString() ?? null,
+      lastRunFinishedAt: this.lastRunFinishedAt?.toISOString() ?? null,
+      nextRunAt: this.nextRunAt?.toISOString() ?? null,
+      lastResult: this.lastResult,
+      lastError: this.lastError,
+    };
+  }
+
+  private scheduleNext(delayMs: number): void {
+    this.nextRunAt = new Date(nowUTC().getTime() + delayMs);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.currentRun = this.tick().finally(() => {
+        this.currentRun = null;
+        if (this.started) {
+          this.scheduleNext(this.options.intervalSeconds * 1000);
+        }
+      });
+    }, delayMs);
+  }
+
+  private async tick(): Promise<void> {
+    try {
+      this.isLeader = await this.options.lockRepository.acquire(this.options.name, this.owner, this.lockTtlSeconds);
+    } catch (error) {
+      this.isLeader = false;
+      logger.error(`Erro ao adquirir liderança do scheduler "${this.options.name}"`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return;
+    }
+
+    if (!this.isLeader) {
+      logger.debug(`Scheduler "${this.options.name}": outra instância é líder, pulando execução`);
+      return;
+    }
+
+    this.running = true;
+    this.lastRunStartedAt = nowUTC();
+
+    try {
+      this.lastResult = await this.options.run();
+      this.lastError = null;
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Erro na execução do scheduler "${this.options.name}"`, { error: this.lastError });
+    } finally {
+      this.running = false;
+      this.lastRunFinishedAt = nowUTC();
+    }
+  }
+}
@@ -72,6 +72,20 @@ export class UserService {
     }
   }
 
+  /**
+   * Busca usuário por ID (null se não existir)
+   */
+  async findById(id: string): Promise<User | null> {
+    return this.userRepository.findById(id);
+  }
+
+  /**
+   * Exclui o usuário (perfil e auth.users)
+   */
+  async deleteUser(id: string): Promise<void> {
+    await this.userRepository.delete(id);
+  }
+
   /**
    * Verifica se deve atualizar dados do usuário
    * Lógica simples: atualiza se avatar ou nome mudaram
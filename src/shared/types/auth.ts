@@ -0,0 +1,97 @@
+/**
+ * Escopos de acesso à API
+ * email:send         envio de emails (send, welcome, password-reset)
+ * notifications:run  execução e administração da fila de notificações
+ * admin:diagnostics  diagnóstico de configuração
+ * admin:email        templates, lista de supressão, histórico e preferências de qualquer usuário
+ * admin:api-keys     gestão das chaves de API
+ */
+export const AUTH_SCOPES = [
+  'email:send',
+  'notifications:run',
+  'admin:diagnostics',
+  'admin:email',
+  'admin:api-keys',
+] as const;
+
+export type AuthScope = (typeof AUTH_SCOPES)[number];
+
+/**
+ * Quem fez a requisição: um usuário (token de acesso) ou um sistema (chave de API)
+ */
+export interface AuthPrincipal {
+  type: 'user' | 'api_key';
+  id: string;
+  // Nome da chave de API ou papel do usuário (auditoria)
+  name: string;
+  scopes: AuthScope[];
+}
+
+/**
+ * Conteúdo de um token de acesso
+ */
+export interface AccessTokenClaims {
+  sub: string;
+  role: string;
+  iss: string;
+  iat: number;
+  exp: number;
+}
+
+/**
+ * Registro da tabela `api_keys` (a chave em si nunca é guardada, só o hash)
+ */
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  key_prefix: string;
+  key_hash: string;
+  scopes: AuthScope[];
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+/**
+ * Registro da tabela `auth_sessions`: um refresh token por linha; tokens rotacionados
+ * a partir do mesmo login compartilham `family_id`
+ */
+export interface AuthSessionRecord {
+  id: string;
+  user_id: string;
+  family_id: string;
+  token_hash: string;
+  expires_at: string;
+  created_at: string;
+  rotated_at: string | null;
+  revoked_at: string | null;
+}
+
+/**
+ * Credenciais emitidas ao frontend (login, troca de código e refresh)
+ */
+export interface SessionTokens {
+  accessToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number;
+  refreshToken: string;
+  refreshTokenExpiresAt: string;
+}
+
+/**
+ * Registro da tabela `google_oauth_tokens` (tokens cifrados; um registro por usuário)
+ */
+export interface GoogleTokenRecord {
+  user_id: string;
+  refresh_token_encrypted: string;
+  access_token_encrypted: string | null;
+  access_token_expires_at: string | null;
+  scopes: string[];
+  updated_at: string;
+}
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    principal?: AuthPrincipal;
+  }
+}
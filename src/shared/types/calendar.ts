@@ -0,0 +1,102 @@
+/**
+ * Tipos compartilhados da sincronização com o Google Calendar
+ */
+
+export type CalendarTaskTable = 'user_tasks' | 'todos';
+
+export const CALENDAR_TASK_TABLES: CalendarTaskTable[] = ['user_tasks', 'todos'];
+
+/**
+ * Tarefa de cultivo (`user_tasks`) ou todo (`todos`) com data, pronta para virar evento
+ */
+export interface CalendarTask {
+  table: CalendarTaskTable;
+  id: string;
+  userId: string;
+  title: string;
+  description?: string | undefined;
+  // Data (YYYY-MM-DD) ou data e hora (ISO 8601)
+  dueDate: string;
+  completed: boolean;
+}
+
+export interface CalendarEventTime {
+  date?: string;
+  dateTime?: string;
+  timeZone?: string;
+}
+
+/**
+ * Evento no formato da API do Google Calendar (v3)
+ */
+export interface CalendarEventInput {
+  summary: string;
+  description: string;
+  start: CalendarEventTime;
+  end: CalendarEventTime;
+  transparency: 'opaque' | 'transparent';
+  colorId?: string;
+  extendedProperties: { private: Record<string, string> };
+}
+
+/**
+ * Cliente da API do Google Calendar (injetável para testes contra um fake local)
+ */
+export interface ICalendarClient {
+  createCalendar(accessToken: string, summary: string, timeZone: string): Promise<string>;
+
+  /**
+   * Calendário já removido não é erro
+   */
+  deleteCalendar(accessToken: string, calendarId: string): Promise<void>;
+
+  insertEvent(accessToken: string, calendarId: string, event: CalendarEventInput): Promise<string>;
+
+  /**
+   * Retorna false quando o evento não existe mais (removido pelo usuário no Google)
+   */
+  updateEvent(accessToken: string, calendarId: string, eventId: string, event: CalendarEventInput): Promise<boolean>;
+
+  /**
+   * Evento já removido não é erro
+   */
+  deleteEvent(accessToken: string, calendarId: string, eventId: string): Promise<void>;
+}
+
+/**
+ * Registro da tabela `calendar_sync_settings`
+ */
+export interface CalendarSyncSettings {
+  user_id: string;
+  enabled: boolean;
+  calendar_id: string | null;
+  time_zone: string;
+  last_synced_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Registro da tabela `calendar_task_events`: evento criado para uma tarefa e o hash
+ * do conteúdo sincronizado (sem mudança no hash, nada é enviado ao Google)
+ */
+export interface CalendarTaskEvent {
+  user_id: string;
+  task_table: CalendarTaskTable;
+  task_id: string;
+  event_id: string;
+  content_hash: string;
+  synced_at: string;
+}
+
+/**
+ * Resultado da sincronização de um ou mais usuários
+ */
+export interface CalendarSyncSummary {
+  users: number;
+  created: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+  failed: number;
+}
@@ -10,6 +10,7 @@ export const sendEmailSchema = z.object({
   text: z.string().optional(), // Versão texto plano opcional
   from: z.string().email().optional(), // Opcional, usa padrão se não fornecido
   replyTo: z.string().email().optional(),
+  headers: z.record(z.string()).optional(), // Cabeçalhos extras (ex.: List-Unsubscribe)
 });
 
 /**
@@ -25,6 +26,10 @@ export const emailResponseSchema = z.object({
     createdAt: z.string(),
   }).optional(),
   error: z.string().optional(),
+  errorCode: z.string().optional(), // Código do provedor (ex.: rate_limit_exceeded)
+  retryable: z.boolean().optional(), // Falha transitória que pode ser retentada
+  retryAfterMs: z.number().optional(), // Espera pedida pelo provedor (header Retry-After em 429)
+  suppressedRecipients: z.array(z.string()).optional(), // Destinatários removidos pela lista de supressão
 });
 
 /**
@@ -38,4 +43,97 @@ export type EmailResponse = z.infer<typeof emailResponseSchema>;
  */
 export interface IEmailService {
   sendEmail(data: SendEmailRequest): Promise<EmailResponse>;
-} 
\ No newline at end of file
+  /**
+   * Envia vários emails; retorna uma resposta por email, na mesma ordem
+   */
+  sendBatch(data: SendEmailRequest[]): Promise<EmailResponse[]>;
+} 
+/**
+ * Estado de entrega de um email informado pelo provedor (webhooks)
+ */
+export type EmailDeliveryStatus =
+  | 'sent'
+  | 'delivery_delayed'
+  | 'delivered'
+  | 'opened'
+  | 'clicked'
+  | 'bounced'
+  | 'complained'
+  | 'failed';
+
+/**
+ * Motivo de um endereço estar suprimido
+ */
+export type EmailSuppressionReason = 'hard_bounce' | 'complaint' | 'manual';
+
+/**
+ * Evento de entrega recebido do provedor
+ */
+export interface EmailDeliveryEvent {
+  // Id único da entrega do webhook (idempotência)
+  eventId: string;
+  provider: string;
+  providerMessageId: string;
+  type: string;
+  status: EmailDeliveryStatus | null;
+  recipients: string[];
+  occurredAt: Date;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Código de erro de envio bloqueado pela lista de supressão (sem chamar o provedor)
+ */
+export const SUPPRESSED_ERROR_CODE = 'suppressed';
+
+/**
+ * Endereço que não deve mais receber emails
+ */
+export interface EmailSuppression {
+  email: string;
+  reason: EmailSuppressionReason;
+  source: string;
+  providerMessageId?: string | null | undefined;
+}
+
+/**
+ * Registro da tabela `email_suppressions`
+ */
+export interface EmailSuppressionRecord {
+  email: string;
+  reason: EmailSuppressionReason;
+  source: string;
+  provider_message_id: string | null;
+  created_at: string;
+}
+
+/**
+ * Registro da tabela `email_messages` (histórico de tentativas de envio)
+ */
+export interface EmailMessageRecord {
+  id: string;
+  user_id: string | null;
+  recipients: string[];
+  from_email: string;
+  subject: string;
+  template_key: string | null;
+  notification_ids: string[];
+  provider: string | null;
+  provider_message_id: string | null;
+  status: 'sent' | 'failed' | 'suppressed';
+  error: string | null;
+  created_at: string;
+  sent_at: string | null;
+}
+
+/**
+ * Filtros de busca no histórico de emails
+ */
+export interface EmailMessageFilters {
+  userId?: string | undefined;
+  recipient?: string | undefined;
+  status?: EmailMessageRecord['status'] | undefined;
+  templateKey?: string | undefined;
+  from?: Date | undefined;
+  to?: Date | undefined;
+}
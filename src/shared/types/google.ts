@@ -0,0 +1,41 @@
+/**
+ * Tipos compartilhados da integração com o Google
+ */
+
+/**
+ * Resposta do endpoint de tokens do Google (troca de código ou refresh)
+ */
+export interface GoogleTokenResponse {
+  access_token: string;
+  expires_in: number;
+  refresh_token?: string;
+  scope?: string;
+}
+
+/**
+ * Dados do usuário em /oauth2/v2/userinfo
+ */
+export interface GoogleUserInfo {
+  id: string;
+  email: string;
+  name: string;
+  picture?: string;
+  verified_email?: boolean;
+}
+
+/**
+ * Cliente dos endpoints OAuth do Google (injetável para testes)
+ */
+export interface IGoogleOAuthClient {
+  exchangeCode(code: string, codeVerifier: string): Promise<GoogleTokenResponse>;
+
+  /**
+   * Renova o token de acesso; null quando o Google recusa o refresh token
+   * (acesso revogado pelo usuário ou expirado)
+   */
+  refreshAccessToken(refreshToken: string): Promise<GoogleTokenResponse | null>;
+
+  revokeToken(token: string): Promise<void>;
+
+  fetchUserInfo(accessToken: string): Promise<GoogleUserInfo>;
+}
@@ -0,0 +1,276 @@
+/**
+ * Tipos compartilhados para notificações
+ * Compatível com a tabela `notifications` do Supabase
+ */
+
+/**
+ * Destinatário resolvido para uma notificação
+ */
+export interface NotificationRecipient {
+  userId: string;
+  email: string;
+  name?: string | undefined;
+  locale?: string | undefined;
+  timezone?: string | undefined;
+  deliveryMode?: NotificationDeliveryMode | undefined;
+  // Tipos de notificação que o usuário desativou no canal email
+  emailOptOuts?: string[] | undefined;
+}
+
+/**
+ * Preferência de entrega: cada notificação no seu horário ou resumo diário
+ */
+export type NotificationDeliveryMode = 'immediate' | 'digest';
+
+export type NotificationChannel = 'email';
+
+/**
+ * Preferência de um usuário para um tipo de notificação em um canal
+ */
+export interface NotificationPreference {
+  type: string;
+  channel: NotificationChannel;
+  enabled: boolean;
+}
+
+/**
+ * Preferências completas de um usuário (inclui os padrões não salvos)
+ */
+export interface NotificationPreferences {
+  userId: string;
+  deliveryMode: NotificationDeliveryMode;
+  preferences: NotificationPreference[];
+}
+
+/**
+ * Registro da tabela `notification_preferences`
+ */
+export interface NotificationPreferenceRecord {
+  user_id: string;
+  notification_type: string;
+  channel: NotificationChannel;
+  enabled: boolean;
+  updated_at: string;
+}
+
+/**
+ * Motivos de falha na resolução de destinatário
+ */
+export type RecipientFailureReason = 'recipient_not_found' | 'recipient_not_allowed';
+
+/**
+ * Resultado da resolução de destinatário
+ * `to` é o endereço efetivo (pode diferir do email do usuário fora de produção)
+ */
+export type RecipientResolution =
+  | {
+      success: true;
+      recipient: NotificationRecipient;
+      to: string;
+      redirected: boolean;
+    }
+  | {
+      success: false;
+      reason: RecipientFailureReason;
+      message: string;
+    };
+
+/**
+ * Registro da tabela `notifications`
+ */
+export interface NotificationRecord {
+  id: string;
+  user_id: string | null;
+  type: string;
+  title: string;
+  message: string | null;
+  status: string;
+  created_at: string;
+  scheduled_at: string | null;
+  template_key: string;
+  template_variables: Record<string, any> | null;
+  payload: Record<string, any> | null;
+  linked_task_id: string | null;
+  linked_task_table: string | null;
+  attempt_count?: number | null;
+  next_attempt_at?: string | null;
+  error_message?: string | null;
+  provider_message_id?: string | null;
+  template_version_id?: string | null;
+  template_version?: number | null;
+  digest_id?: string | null;
+  delivery_status?: string | null;
+  delivery_updated_at?: string | null;
+  updated_at?: string | null;
+}
+
+/**
+ * Registro da tabela `email_templates`
+ */
+export interface EmailTemplateRecord {
+  id: string;
+  name: string;
+  template_key: string;
+  locale: string;
+  subject_template: string;
+  html_template: string;
+  active: boolean;
+  available_variables?: string[] | string | null;
+  active_version_id?: string | null;
+  active_version?: number | null;
+}
+
+export type EmailTemplateVersionStatus = 'draft' | 'published' | 'archived';
+
+/**
+ * Registro da tabela `email_template_versions`
+ */
+export interface EmailTemplateVersionRecord {
+  id: string;
+  template_key: string;
+  locale: string;
+  version: number;
+  subject_template: string;
+  html_template: string;
+  available_variables: string[] | string | null;
+  status: EmailTemplateVersionStatus;
+  change_note: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  published_by: string | null;
+  published_at: string | null;
+}
+
+export type EmailTemplateEventAction = 'draft_created' | 'draft_updated' | 'published' | 'rolled_back';
+
+/**
+ * Registro da tabela `email_template_events` (histórico de alterações)
+ */
+export interface EmailTemplateEventRecord {
+  id: string;
+  template_key: string;
+  version_id: string | null;
+  version: number | null;
+  action: EmailTemplateEventAction;
+  actor: string;
+  created_at: string;
+}
+
+/**
+ * Contexto da tarefa vinculada a uma notificação
+ */
+export interface TaskContext {
+  isCompleted: boolean;
+  plantName?: string | undefined;
+  taskTitle?: string | undefined;
+  taskDueDate?: string | undefined;
+  taskPriority?: string | undefined;
+  taskCategory?: string | undefined;
+  gardenName?: string | undefined;
+  completedAt?: string | undefined;
+}
+
+/**
+ * Email pronto para envio gerado a partir de uma notificação
+ */
+export interface PreparedNotificationEmail {
+  notificationId: string;
+  // Notificações incluídas no email (mais de uma quando é um resumo)
+  notificationIds: string[];
+  to: string[];
+  subject: string;
+  html: string;
+  text: string;
+  type: string;
+  templateKey: string;
+  locale: string;
+  templateVersionId: string | null;
+  templateVersion: number | null;
+  headers?: Record<string, string> | undefined;
+}
+
+/**
+ * Registro da tabela `notification_digests` (resumo enviado a um usuário)
+ */
+export interface NotificationDigestRecord {
+  id: string;
+  user_id: string;
+  recipient_email: string;
+  notification_count: number;
+  provider_message_id: string | null;
+  template_version_id: string | null;
+  template_version: number | null;
+  sent_at: string;
+  created_at: string;
+}
+
+/**
+ * Resultado do processamento de uma notificação no envio
+ */
+export interface NotificationDispatchResult {
+  notificationId: string;
+  status: string;
+  emailId: string | null;
+  error: string | null;
+}
+
+/**
+ * Resumo de uma execução de envio
+ */
+export interface NotificationDispatchSummary {
+  processed: number;
+  sent: number;
+  failed: number;
+  deferred: number;
+  successRate: number;
+  processingTime: number;
+  details: NotificationDispatchResult[];
+}
+
+/**
+ * Resumo de uma execução sem envio (dry run)
+ */
+export interface NotificationPreviewSummary {
+  processed: number;
+  emailData: PreparedNotificationEmail[];
+  notifications: {
+    id: string;
+    type: string;
+    userEmail: string | null;
+    status: string;
+    templateKey: string;
+  }[];
+}
+
+/**
+ * Preview de um template de email renderizado
+ */
+export interface EmailTemplatePreview {
+  subject: string;
+  html: string;
+  text: string;
+  variables: Record<string, unknown>;
+  missingVariables: string[];
+}
+
+/**
+ * Problema encontrado na validação de um template
+ */
+export interface EmailTemplateValidationIssue {
+  field: 'subject_template' | 'html_template';
+  message: string;
+  line: number | null;
+}
+
+/**
+ * Resultado da validação de um template de email
+ */
+export interface EmailTemplateValidationResult {
+  valid: boolean;
+  errors: EmailTemplateValidationIssue[];
+  usedVariables: string[];
+  availableVariables: string[];
+  undeclaredVariables: string[];
+  unusedVariables: string[];
+}
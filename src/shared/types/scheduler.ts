@@ -0,0 +1,31 @@
+/**
+ * Tipos compartilhados para jobs agendados em processo
+ */
+
+/**
+ * Repositório de locks de liderança
+ * Garante que apenas uma instância execute um job agendado
+ */
+export interface ISchedulerLockRepository {
+  /**
+   * Adquire ou renova o lock; retorna true se `owner` é o líder até `ttlSeconds` a partir de agora
+   */
+  acquire(name: string, owner: string, ttlSeconds: number): Promise<boolean>;
+  release(name: string, owner: string): Promise<void>;
+}
+
+/**
+ * Estado atual de um job agendado
+ */
+export interface SchedulerStatus<TResult = unknown> {
+  name: string;
+  enabled: boolean;
+  running: boolean;
+  isLeader: boolean;
+  intervalSeconds: number;
+  lastRunStartedAt: string | null;
+  lastRunFinishedAt: string | null;
+  nextRunAt: string | null;
+  lastResult: TResult | null;
+  lastError: string | null;
+}
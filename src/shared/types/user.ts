@@ -10,6 +10,8 @@ export interface User {
   avatar_url?: string | null;
   google_id?: string | null;
   email_verified?: boolean | null;
+  // Papel em user_profiles.role (define os escopos do token de acesso)
+  role?: string;
   created_at: string;
   updated_at: string;
 }
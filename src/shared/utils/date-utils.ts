@@ -1,9 +1,16 @@
 import { parseISO, addDays, isBefore, isAfter, startOfDay, endOfDay } from 'date-fns';
 import * as tz from 'date-fns-tz';
+import { DEFAULT_LOCALE } from '../i18n/locale.js';
 
 // Timezone de Brasília
 const BRAZIL_TIMEZONE = 'America/Sao_Paulo';
 
+// Fuso usado para usuários sem timezone configurado
+export const DEFAULT_TIMEZONE = BRAZIL_TIMEZONE;
+
+// Datas sem horário (ex.: due_date "2026-12-25") são datas de calendário e não mudam com o fuso
+const DATE_ONLY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
 /**
  * Utilitários para manipulação de datas com timezone de Brasília
  */
@@ -57,6 +64,129 @@ export class DateUtils {
     return this.formatBrazilian(date, 'dd/MM/yyyy HH:mm');
   }
 
+  /**
+   * Formata uma data (apenas data) no formato do locale
+   * Ex.: pt-BR → 25/12/2026, en-US → 12/25/2026, es-AR → 25/12/2026
+   * Com `timezone`, o instante é convertido para o fuso informado; sem, usa o horário de Brasília
+   */
+  static formatDateForLocale(date: Date | string, locale: string = DEFAULT_LOCALE, timezone?: string): string {
+    const [instant, timeZone] = this.resolveZonedInstant(date, timezone);
+    return new Intl.DateTimeFormat(locale, {
+      timeZone,
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+    }).format(instant);
+  }
+
+  /**
+   * Formata uma data (data e hora) no formato do locale
+   * Com `timezone`, o instante é convertido para o fuso informado; sem, usa o horário de Brasília
+   */
+  static formatDateTimeForLocale(date: Date | string, locale: string = DEFAULT_LOCALE, timezone?: string): string {
+    const [instant, timeZone] = this.resolveZonedInstant(date, timezone);
+    return new Intl.DateTimeFormat(locale, {
+      timeZone,
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    }).format(instant);
+  }
+
+  /**
+   * Verifica se o timezone é um identificador IANA válido (ex.: "America/Bogota")
+   */
+  static isValidTimezone(timezone: string | null | undefined): timezone is string {
+    if (!timezone) return false;
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Formata uma data no fuso informado (formato date-fns)
+   */
+  static formatInTimezone(date: Date | string, timezone: string, formatStr: string = 'dd/MM/yyyy HH:mm'): string {
+    const [instant, timeZone] = this.resolveZonedInstant(date, timezone);
+    return tz.formatInTimeZone(instant, timeZone, formatStr);
+  }
+
+  /**
+   * Obtém hora e minuto locais de um instante no fuso informado
+   */
+  static getLocalTime(date: Date | string, timezone: string): { hours: number; minutes: number } {
+    const zoned = tz.toZonedTime(typeof date === 'string' ? parseISO(date) : date, timezone);
+    return { hours: zoned.getHours(), minutes: zoned.getMinutes() };
+  }
+
+  /**
+   * Próximo instante (a partir de `from`) em que o relógio local do fuso marca `hours:minutes`
+   */
+  static nextLocalTime(from: Date, timezone: string, hours: number, minutes: number): Date {
+    const zoned = tz.toZonedTime(from, timezone);
+    const target = new Date(zoned);
+    target.setHours(hours, minutes, 0, 0);
+    if (target.getTime() <= zoned.getTime()) {
+      target.setDate(target.getDate() + 1);
+    }
+    return tz.fromZonedTime(target, timezone);
+  }
+
+  /**
+   * Último instante (até `from`, inclusive) em que o relógio local do fuso marcou `hours:minutes`
+   */
+  static previousLocalTime(from: Date, timezone: string, hours: number, minutes: number): Date {
+    const zoned = tz.toZonedTime(from, timezone);
+    const target = new Date(zoned);
+    target.setHours(hours, minutes, 0, 0);
+    if (target.getTime() > zoned.getTime()) {
+      target.setDate(target.getDate() - 1);
+    }
+    return tz.fromZonedTime(target, timezone);
+  }
+
+  /**
+   * Converte um horário "HH:mm" em horas e minutos
+   */
+  static parseTimeOfDay(value: string): { hours: number; minutes: number } {
+    const [hours = 0, minutes = 0] = value.split(':').map(Number);
+    return { hours, minutes };
+  }
+
+  /**
+   * Obtém o início do dia no fuso informado (como instante UTC)
+   */
+  static startOfDayInTimezone(date: Date | string, timezone: string): Date {
+    const zoned = tz.toZonedTime(typeof date === 'string' ? parseISO(date) : date, timezone);
+    return tz.fromZonedTime(startOfDay(zoned), timezone);
+  }
+
+  /**
+   * Resolve o instante e o fuso usados na formatação
+   * Datas de calendário (yyyy-MM-dd) são formatadas em UTC para não mudarem de dia
+   */
+  private static resolveZonedInstant(date: Date | string, timezone?: string): [Date, string] {
+    if (typeof date === 'string' && DATE_ONLY_REGEX.test(date)) {
+      return [new Date(`${date}T00:00:00Z`), 'UTC'];
+    }
+    if (timezone) {
+      return [typeof date === 'string' ? parseISO(date) : date, timezone];
+    }
+    return [this.toUTC(date), BRAZIL_TIMEZONE];
+  }
+
+  /**
+   * Formata um número no formato do locale (separadores de milhar e decimal)
+   */
+  static formatNumberForLocale(value: number, locale: string = DEFAULT_LOCALE, options?: Intl.NumberFormatOptions): string {
+    return new Intl.NumberFormat(locale, options).format(value);
+  }
+
   /**
    * Obtém a data atual em Brasília
    */
@@ -65,10 +195,15 @@ export class DateUtils {
   }
 
   /**
-   * Obtém a data atual em UTC
+   * Obtém a data atual em UTC (o instante real, igual a `new Date()`)
+   *
+   * Até a introdução dos fusos por usuário, retornava `fromZonedTime(new Date(), BRAZIL_TIMEZONE)`:
+   * o relógio do servidor era lido como horário de Brasília, então em servidores em UTC o valor
+   * ficava 3h à frente. Isso adiantava `claimDue`, `reclaimExpiredLeases`, os carimbos
+   * `updated_at`/`sent_at` e qualquer comparação com instantes reais (JWT, horário de silêncio).
    */
   static nowUTC(): Date {
-    return tz.fromZonedTime(new Date(), BRAZIL_TIMEZONE);
+    return new Date();
   }
 
   /**
@@ -178,6 +313,22 @@ export const formatBrazilian = (date: Date | string, formatStr: string = 'dd/MM/
 export const formatBrazilianDate = (date: Date | string) => DateUtils.formatBrazilianDate(date);
 export const formatBrazilianTime = (date: Date | string) => DateUtils.formatBrazilianTime(date);
 export const formatBrazilianDateTime = (date: Date | string) => DateUtils.formatBrazilianDateTime(date);
+export const formatDateForLocale = (date: Date | string, locale?: string, timezone?: string) =>
+  DateUtils.formatDateForLocale(date, locale, timezone);
+export const formatDateTimeForLocale = (date: Date | string, locale?: string, timezone?: string) =>
+  DateUtils.formatDateTimeForLocale(date, locale, timezone);
+export const isValidTimezone = (timezone: string | null | undefined) => DateUtils.isValidTimezone(timezone);
+export const formatInTimezone = (date: Date | string, timezone: string, formatStr?: string) =>
+  DateUtils.formatInTimezone(date, timezone, formatStr);
+export const getLocalTime = (date: Date | string, timezone: string) => DateUtils.getLocalTime(date, timezone);
+export const nextLocalTime = (from: Date, timezone: string, hours: number, minutes: number) =>
+  DateUtils.nextLocalTime(from, timezone, hours, minutes);
+export const previousLocalTime = (from: Date, timezone: string, hours: number, minutes: number) =>
+  DateUtils.previousLocalTime(from, timezone, hours, minutes);
+export const parseTimeOfDay = (value: string) => DateUtils.parseTimeOfDay(value);
+export const startOfDayInTimezone = (date: Date | string, timezone: string) => DateUtils.startOfDayInTimezone(date, timezone);
+export const formatNumberForLocale = (value: number, locale?: string, options?: Intl.NumberFormatOptions) =>
+  DateUtils.formatNumberForLocale(value, locale, options);
 export const nowBrazilian = () => DateUtils.nowBrazilian();
 export const nowUTC = () => DateUtils.nowUTC();
 export const addDaysBrazilian = (date: Date | string, days: number) => DateUtils.addDaysBrazilian(date, days);
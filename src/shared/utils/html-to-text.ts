@@ -0,0 +1,138 @@
+/**
+ * Conversão de HTML de email para texto puro
+ * Preserva títulos, parágrafos, listas e links (como "texto (url)")
+ */
+
+const BLOCK_TAGS = new Set(['p', 'div', 'section', 'article', 'header', 'footer', 'table', 'tr', 'blockquote', 'ul', 'ol']);
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+const IGNORED_CONTENT_REGEX = /<(head|style|script|title)\b[^>]*>[\s\S]*?<\/\1>|<!--[\s\S]*?-->|<![^>]*>/gi;
+const TAG_REGEX = /<(\/?)([a-z][a-z0-9]*)\b([^>]*)>/gi;
+const HREF_REGEX = /\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  copy: '©',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+};
+
+interface ListState {
+  ordered: boolean;
+  index: number;
+}
+
+interface LinkState {
+  href: string;
+  start: number;
+}
+
+/**
+ * Converte HTML em texto legível para a parte text/plain do email
+ */
+export function htmlToText(html: string): string {
+  const source = html.replace(IGNORED_CONTENT_REGEX, '');
+  const lists: ListState[] = [];
+  const links: LinkState[] = [];
+  let output = '';
+  let headingStart: number | null = null;
+  let lastIndex = 0;
+
+  const appendText = (raw: string) => {
+    const text = decodeEntities(raw.replace(/\s+/g, ' '));
+    output += /(^|\n)$/.test(output) ? text.trimStart() : text;
+  };
+  const breakLine = (blankLines = 0) => {
+    output = output.replace(/[ \t]+$/, '');
+    if (output.length === 0) return;
+    const trailing = /\n*$/.exec(output)![0].length;
+    output += '\n'.repeat(Math.max(0, blankLines + 1 - trailing));
+  };
+
+  for (const match of source.matchAll(TAG_REGEX)) {
+    appendText(source.slice(lastIndex, match.index));
+    lastIndex = match.index + match[0].length;
+
+    const isClosing = match[1] === '/';
+    const tag = match[2]!.toLowerCase();
+    const attributes = match[3] ?? '';
+
+    if (tag === 'br') {
+      breakLine();
+    } else if (HEADING_TAGS.has(tag)) {
+      if (isClosing && headingStart !== null) {
+        // Títulos principais em caixa alta para se destacarem no texto puro
+        if (tag === 'h1' || tag === 'h2') {
+          output = output.slice(0, headingStart) + output.slice(headingStart).toUpperCase();
+        }
+        headingStart = null;
+      }
+      breakLine(1);
+      if (!isClosing) headingStart = output.length;
+    } else if (tag === 'li') {
+      breakLine();
+      if (!isClosing) {
+        const list = lists[lists.length - 1];
+        const indent = '  '.repeat(Math.max(0, lists.length - 1));
+        output += list?.ordered ? `${indent}${++list.index}. ` : `${indent}- `;
+      }
+    } else if (tag === 'ul' || tag === 'ol') {
+      if (isClosing) {
+        lists.pop();
+      } else {
+        lists.push({ ordered: tag === 'ol', index: 0 });
+      }
+      breakLine(lists.length === 0 ? 1 : 0);
+    } else if (tag === 'a') {
+      if (!isClosing) {
+        const hrefMatch = HREF_REGEX.exec(attributes);
+        const href = decodeEntities(hrefMatch?.[1] ?? hrefMatch?.[2] ?? hrefMatch?.[3] ?? '').trim();
+        links.push({ href, start: output.length });
+      } else {
+        const link = links.pop();
+        const label = link ? output.slice(link.start).trim() : '';
+        if (link?.href && !link.href.startsWith('#') && !link.href.startsWith('mailto:') && label !== link.href) {
+          output += label ? ` (${link.href})` : link.href;
+        }
+      }
+    } else if (tag === 'td' || tag === 'th') {
+      if (isClosing) output += ' ';
+    } else if (BLOCK_TAGS.has(tag)) {
+      breakLine(1);
+    }
+  }
+
+  appendText(source.slice(lastIndex));
+
+  return output
+    .split('\n')
+    .map((line) => line.replace(/(\S)[ \t]+/g, '$1 ').trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Decodifica entidades HTML nomeadas comuns e numéricas
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return isValidCodePoint(value) ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Código Unicode representável (fora do intervalo ou surrogate isolado fica como entidade)
+ */
+function isValidCodePoint(value: number): boolean {
+  return Number.isInteger(value) && value > 0 && value <= 0x10ffff && !(value >= 0xd800 && value <= 0xdfff);
+}
@@ -0,0 +1,49 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const VERSION = 'v1';
+
+/**
+ * Cifra de segredos guardados no banco (AES-256-GCM)
+ * Formato: `v1.<iv>.<tag>.<conteúdo>` em base64url; o tag garante que o valor não foi alterado
+ *
+ * `context` (dados associados, AAD) identifica onde o valor é guardado (ex.: tabela, usuário e
+ * coluna): o valor só decifra com o mesmo contexto, então copiá-lo para outra linha ou coluna
+ * não funciona
+ */
+export class SecretCipher {
+  private key: Buffer;
+
+  constructor(base64Key: string) {
+    this.key = Buffer.from(base64Key, 'base64');
+
+    if (this.key.length !== 32) {
+      throw new Error('Chave de cifra deve ter 32 bytes');
+    }
+  }
+
+  encrypt(plaintext: string, context: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(ALGORITHM, this.key, iv);
+    cipher.setAAD(Buffer.from(context, 'utf8'));
+    const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    return [VERSION, iv, cipher.getAuthTag(), encrypted]
+      .map((part) => (typeof part === 'string' ? part : part.toString('base64url')))
+      .join('.');
+  }
+
+  decrypt(value: string, context: string): string {
+    const [version, iv, tag, encrypted] = value.split('.');
+
+    if (version !== VERSION || !iv || !tag || encrypted === undefined) {
+      throw new Error('Segredo cifrado em formato inválido');
+    }
+
+    const decipher = createDecipheriv(ALGORITHM, this.key, Buffer.from(iv, 'base64url'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    decipher.setAAD(Buffer.from(context, 'utf8'));
+
+    return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64url')), decipher.final()]).toString('utf8');
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Token bucket para limitar a taxa de chamadas a APIs externas
+ * Permite rajadas de até `burst` chamadas e reabastece `ratePerSecond` tokens por segundo
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private pausedUntil = 0;
+  private queue: (() => void)[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly ratePerSecond: number,
+    private readonly burst: number
+  ) {
+    if (!Number.isFinite(ratePerSecond) || !Number.isFinite(burst) || ratePerSecond <= 0 || burst < 1) {
+      throw new Error('TokenBucket requer ratePerSecond > 0 e burst >= 1');
+    }
+    this.tokens = burst;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Aguarda até haver um token disponível (ordem de chegada preservada)
+   */
+  acquire(): Promise<void> {
+    return new Promise((resolve) => {
+      this.queue.push(resolve);
+      this.drain();
+    });
+  }
+
+  /**
+   * Suspende a liberação de tokens por `ms` (ex.: resposta 429 com Retry-After)
+   * Os tokens acumulados são descartados para não gerar nova rajada ao retomar
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.tokens = 0;
+    this.lastRefill = this.pausedUntil;
+    this.reschedule(ms);
+  }
+
+  private refill(now: number): void {
+    if (now <= this.lastRefill) return;
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.burst, this.tokens + elapsedSeconds * this.ratePerSecond);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    const now = Date.now();
+
+    if (now < this.pausedUntil) {
+      this.reschedule(this.pausedUntil - now);
+      return;
+    }
+
+    this.refill(now);
+
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.queue.shift()!();
+    }
+
+    if (this.queue.length > 0) {
+      const waitMs = Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000);
+      this.reschedule(waitMs);
+    }
+  }
+
+  private reschedule(delayMs: number): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, Math.max(0, delayMs));
+  }
+}
@@ -0,0 +1,15 @@
+-- Claim/lease de notificações pendentes
+-- Permite que várias instâncias processem a fila sem enviar o mesmo lembrete duas vezes:
+-- cada execução move um lote para 'processing' com dono e expiração do lease.
+
+alter table public.notifications
+  add column if not exists lease_owner text,
+  add column if not exists lease_expires_at timestamptz,
+  add column if not exists claimed_at timestamptz;
+
+create index if not exists notifications_status_scheduled_at_idx
+  on public.notifications (status, scheduled_at);
+
+create index if not exists notifications_lease_expires_at_idx
+  on public.notifications (lease_expires_at)
+  where status = 'processing';
@@ -0,0 +1,11 @@
+-- Política de retentativas de notificações
+-- Falhas transitórias voltam para 'pending' com next_attempt_at no futuro;
+-- falhas permanentes (ou tentativas esgotadas) vão para 'dead_letter'.
+
+alter table public.notifications
+  add column if not exists attempt_count integer not null default 0,
+  add column if not exists next_attempt_at timestamptz;
+
+create index if not exists notifications_dead_letter_idx
+  on public.notifications (updated_at desc)
+  where status = 'dead_letter';
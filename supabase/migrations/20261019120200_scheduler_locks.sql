@@ -0,0 +1,9 @@
+-- Locks de liderança para jobs agendados em processo
+-- Apenas a instância dona de um lock não expirado executa o job.
+
+create table if not exists public.scheduler_locks (
+  name text primary key,
+  owner text not null,
+  expires_at timestamptz not null,
+  updated_at timestamptz not null default now()
+);
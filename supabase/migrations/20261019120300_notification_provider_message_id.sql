@@ -0,0 +1,8 @@
+-- Id da mensagem no provedor de email (ex.: id do Resend) para cada notificação enviada
+
+alter table public.notifications
+  add column if not exists provider_message_id text;
+
+create index if not exists notifications_provider_message_id_idx
+  on public.notifications (provider_message_id)
+  where provider_message_id is not null;
@@ -0,0 +1,128 @@
+-- Versionamento de templates de email
+-- Cada alteração gera uma versão (draft); a publicação troca atomicamente a versão ativa
+-- e copia o conteúdo para email_templates, que continua sendo a leitura do dispatcher.
+
+create table if not exists public.email_template_versions (
+  id uuid primary key default gen_random_uuid(),
+  template_key text not null,
+  version integer not null,
+  subject_template text not null,
+  html_template text not null,
+  available_variables jsonb,
+  status text not null default 'draft' check (status in ('draft', 'published', 'archived')),
+  change_note text,
+  created_by text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  published_by text,
+  published_at timestamptz,
+  unique (template_key, version)
+);
+
+-- No máximo uma versão publicada por template
+create unique index if not exists email_template_versions_published_idx
+  on public.email_template_versions (template_key)
+  where status = 'published';
+
+-- Histórico de quem alterou o quê
+create table if not exists public.email_template_events (
+  id uuid primary key default gen_random_uuid(),
+  template_key text not null,
+  version_id uuid references public.email_template_versions (id),
+  version integer,
+  action text not null check (action in ('draft_created', 'draft_updated', 'published', 'rolled_back')),
+  actor text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists email_template_events_key_idx
+  on public.email_template_events (template_key, created_at desc);
+
+alter table public.email_templates
+  add column if not exists active_version_id uuid references public.email_template_versions (id),
+  add column if not exists active_version integer;
+
+alter table public.notifications
+  add column if not exists template_version_id uuid references public.email_template_versions (id),
+  add column if not exists template_version integer;
+
+-- Versão 1 publicada a partir dos templates ativos existentes
+insert into public.email_template_versions (
+  template_key, version, subject_template, html_template, available_variables,
+  status, change_note, created_by, published_by, published_at
+)
+select
+  t.template_key, 1, t.subject_template, t.html_template, to_jsonb(t.available_variables),
+  'published', 'Versão inicial (migração)', 'migration', 'migration', now()
+from public.email_templates t
+where t.active = true
+on conflict (template_key, version) do nothing;
+
+update public.email_templates t
+set active_version_id = v.id,
+    active_version = v.version
+from public.email_template_versions v
+where v.template_key = t.template_key
+  and v.status = 'published'
+  and t.active = true
+  and t.active_version_id is null;
+
+-- Publica uma versão: arquiva a versão publicada anterior, ativa a nova
+-- e atualiza email_templates na mesma transação
+create or replace function public.publish_email_template_version(
+  p_version_id uuid,
+  p_actor text,
+  p_action text default 'published'
+)
+returns setof public.email_template_versions
+language plpgsql
+as $$
+declare
+  v public.email_template_versions;
+begin
+  select * into v
+  from public.email_template_versions
+  where id = p_version_id
+  for update;
+
+  if not found then
+    raise exception 'Versão de template % não encontrada', p_version_id using errcode = 'P0002';
+  end if;
+
+  -- Serializa publicações concorrentes do mesmo template
+  perform pg_advisory_xact_lock(hashtext('email_template:' || v.template_key));
+
+  update public.email_template_versions
+  set status = 'archived', updated_at = now()
+  where template_key = v.template_key
+    and status = 'published'
+    and id <> v.id;
+
+  update public.email_template_versions
+  set status = 'published', published_by = p_actor, published_at = now(), updated_at = now()
+  where id = v.id
+  returning * into v;
+
+  update public.email_templates
+  set subject_template = v.subject_template,
+      html_template = v.html_template,
+      active = true,
+      active_version_id = v.id,
+      active_version = v.version
+  where template_key = v.template_key;
+
+  if not found then
+    insert into public.email_templates (
+      name, template_key, subject_template, html_template, active, active_version_id, active_version
+    )
+    values (
+      v.template_key, v.template_key, v.subject_template, v.html_template, true, v.id, v.version
+    );
+  end if;
+
+  insert into public.email_template_events (template_key, version_id, version, action, actor)
+  values (v.template_key, v.id, v.version, p_action, p_actor);
+
+  return next v;
+end;
+$$;
@@ -0,0 +1,83 @@
+-- Templates de email por idioma
+-- Cada template_key pode ter uma variante por locale; o dispatcher escolhe pela cadeia
+-- de fallback do locale do usuário (ex.: es-AR → es → pt-BR).
+
+alter table public.user_profiles
+  add column if not exists locale text;
+
+alter table public.email_templates
+  add column if not exists locale text not null default 'pt-BR';
+
+alter table public.email_template_versions
+  add column if not exists locale text not null default 'pt-BR';
+
+create index if not exists email_templates_key_locale_idx
+  on public.email_templates (template_key, locale)
+  where active = true;
+
+-- Uma versão publicada por template e locale
+drop index if exists public.email_template_versions_published_idx;
+create unique index if not exists email_template_versions_published_idx
+  on public.email_template_versions (template_key, locale)
+  where status = 'published';
+
+-- Publicação passa a considerar o locale da versão
+create or replace function public.publish_email_template_version(
+  p_version_id uuid,
+  p_actor text,
+  p_action text default 'published'
+)
+returns setof public.email_template_versions
+language plpgsql
+as $$
+declare
+  v public.email_template_versions;
+begin
+  select * into v
+  from public.email_template_versions
+  where id = p_version_id
+  for update;
+
+  if not found then
+    raise exception 'Versão de template % não encontrada', p_version_id using errcode = 'P0002';
+  end if;
+
+  -- Serializa publicações concorrentes do mesmo template e locale
+  perform pg_advisory_xact_lock(hashtext('email_template:' || v.template_key || ':' || v.locale));
+
+  update public.email_template_versions
+  set status = 'archived', updated_at = now()
+  where template_key = v.template_key
+    and locale = v.locale
+    and status = 'published'
+    and id <> v.id;
+
+  update public.email_template_versions
+  set status = 'published', published_by = p_actor, published_at = now(), updated_at = now()
+  where id = v.id
+  returning * into v;
+
+  update public.email_templates
+  set subject_template = v.subject_template,
+      html_template = v.html_template,
+      active = true,
+      active_version_id = v.id,
+      active_version = v.version
+  where template_key = v.template_key
+    and locale = v.locale;
+
+  if not found then
+    insert into public.email_templates (
+      name, template_key, locale, subject_template, html_template, active, active_version_id, active_version
+    )
+    values (
+      v.template_key || ' (' || v.locale || ')', v.template_key, v.locale, v.subject_template, v.html_template, true, v.id, v.version
+    );
+  end if;
+
+  insert into public.email_template_events (template_key, version_id, version, action, actor)
+  values (v.template_key, v.id, v.version, p_action, p_actor);
+
+  return next v;
+end;
+$$;
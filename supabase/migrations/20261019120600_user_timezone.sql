@@ -0,0 +1,6 @@
+-- Fuso horário do usuário
+-- Usado para formatar datas nos emails e aplicar o horário de silêncio das notificações.
+-- Valores são nomes IANA (ex.: America/Sao_Paulo); nulo usa o fuso padrão da aplicação.
+
+alter table public.user_profiles
+  add column if not exists timezone text;
@@ -0,0 +1,117 @@
+-- Resumo diário de notificações
+-- Usuários com notification_delivery = 'digest' recebem os lembretes do dia agrupados
+-- em um único email (template task_digest); cada notificação incluída é marcada como
+-- enviada com referência ao resumo.
+
+alter table public.user_profiles
+  add column if not exists notification_delivery text not null default 'immediate'
+    check (notification_delivery in ('immediate', 'digest'));
+
+create table if not exists public.notification_digests (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  recipient_email text not null,
+  notification_count integer not null,
+  provider_message_id text,
+  template_version_id uuid references public.email_template_versions (id),
+  template_version integer,
+  sent_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notification_digests_user_idx
+  on public.notification_digests (user_id, sent_at desc);
+
+alter table public.notifications
+  add column if not exists digest_id uuid references public.notification_digests (id);
+
+create index if not exists notifications_digest_idx
+  on public.notifications (digest_id)
+  where digest_id is not null;
+
+-- Template do resumo (versão 1 publicada pelo fluxo de versionamento)
+do $$
+declare
+  v_id uuid;
+begin
+  if not exists (select 1 from public.email_template_versions where template_key = 'task_digest') then
+    insert into public.email_template_versions (
+      template_key, locale, version, subject_template, html_template, available_variables,
+      status, change_note, created_by
+    )
+    values (
+      'task_digest',
+      'pt-BR',
+      1,
+      '🌱 Seu resumo do dia: {{task_count | plural "tarefa" "tarefas"}}',
+      $tpl$
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Resumo de Tarefas - GrowSpace</title>
+    <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: linear-gradient(135deg, #22c55e, #16a34a); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+        .content { background: #f9fafb; padding: 30px; border-radius: 0 0 10px 10px; }
+        .garden { background: white; padding: 20px; margin: 20px 0; border-radius: 5px; box-shadow: 0 2px 4px rgba(0,0,0,0.1); }
+        .plant-info { background: #f0fdf4; border: 1px solid #bbf7d0; padding: 10px 15px; border-radius: 5px; margin: 15px 0 5px; }
+        .task { border-left: 4px solid #f59e0b; padding: 5px 15px; margin: 10px 0; }
+        .task-overdue { border-left-color: #ef4444; }
+        .priority-badge { display: inline-block; padding: 2px 10px; border-radius: 20px; font-size: 12px; font-weight: bold; text-transform: uppercase; background: #f3f4f6; }
+        .btn { display: inline-block; background: #22c55e; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; margin: 10px 0; }
+        .footer { text-align: center; margin-top: 30px; color: #6b7280; font-size: 14px; }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1>🌱 GrowSpace</h1>
+        <p>Resumo de Tarefas - {{digest_date}}</p>
+    </div>
+    
+    <div class="content">
+        <h2>Olá, {{user_name}}!</h2>
+        
+        <p>Você tem {{task_count | plural "tarefa" "tarefas"}} para acompanhar:</p>
+        
+        {{#each gardens}}
+        <div class="garden">
+            <h3>🏡 {{garden_name | default "Sem tenda"}}</h3>
+            {{#each plants}}
+            {{#if plant_name}}
+            <div class="plant-info"><strong>🌿 {{plant_name}}</strong></div>
+            {{/if}}
+            <ul>
+                {{#each tasks}}
+                <li class="task{{#if days_overdue}} task-overdue{{/if}}">
+                    <strong>{{task_title}}</strong>
+                    <span class="priority-badge">{{task_priority}}</span><br>
+                    📅 {{due_date}}{{#if days_overdue}} · ⚠️ atrasada há {{days_overdue | plural "dia" "dias"}}{{/if}}
+                </li>
+                {{/each}}
+            </ul>
+            {{/each}}
+        </div>
+        {{/each}}
+        
+        <a href="{{app_url}}" class="btn">Ver Tarefas no GrowSpace</a>
+        
+        <div class="footer">
+            <p>Você recebe este resumo porque escolheu receber os lembretes uma vez por dia.</p>
+            <p>Para receber cada lembrete no horário da tarefa, acesse suas configurações.</p>
+        </div>
+    </div>
+</body>
+</html>
+$tpl$,
+      '["user_name", "task_count", "digest_date", "gardens", "app_url"]'::jsonb,
+      'draft',
+      'Versão inicial (migração)',
+      'migration'
+    )
+    returning id into v_id;
+
+    perform public.publish_email_template_version(v_id, 'migration', 'published');
+  end if;
+end $$;
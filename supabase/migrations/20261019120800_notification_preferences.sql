@@ -0,0 +1,17 @@
+-- Preferências de notificação por tipo e canal
+-- Ausência de registro significa habilitado; o link de descadastro (RFC 8058) grava
+-- enabled = false para os tipos incluídos no token assinado.
+
+create table if not exists public.notification_preferences (
+  user_id uuid not null,
+  notification_type text not null,
+  channel text not null default 'email'
+    check (channel in ('email')),
+  enabled boolean not null default true,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, notification_type, channel)
+);
+
+create index if not exists notification_preferences_opt_out_idx
+  on public.notification_preferences (user_id, channel)
+  where enabled = false;
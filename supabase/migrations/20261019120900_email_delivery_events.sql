@@ -0,0 +1,32 @@
+-- Eventos de entrega recebidos por webhook (Resend/Svix) e lista de supressão
+-- Cada evento é guardado uma única vez pelo id da entrega do webhook; o estado de
+-- entrega mais avançado fica em notifications.delivery_status.
+
+create table if not exists public.email_delivery_events (
+  id uuid primary key default gen_random_uuid(),
+  event_id text not null unique,
+  provider text not null,
+  provider_message_id text not null,
+  event_type text not null,
+  delivery_status text,
+  recipients text[] not null default '{}',
+  occurred_at timestamptz not null,
+  payload jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists email_delivery_events_message_idx
+  on public.email_delivery_events (provider_message_id, occurred_at);
+
+alter table public.notifications
+  add column if not exists delivery_status text,
+  add column if not exists delivery_updated_at timestamptz;
+
+-- Endereços que não devem mais receber emails (hard bounce, reclamação ou manual)
+create table if not exists public.email_suppressions (
+  email text primary key check (email = lower(email)),
+  reason text not null check (reason in ('hard_bounce', 'complaint', 'manual')),
+  source text not null,
+  provider_message_id text,
+  created_at timestamptz not null default now()
+);
@@ -0,0 +1,33 @@
+-- Histórico de emails enviados
+-- Uma linha por tentativa de envio (inclusive falhas e bloqueios pela lista de supressão),
+-- com o template e as notificações de origem; o corpo do email não é guardado.
+
+create table if not exists public.email_messages (
+  id uuid primary key,
+  user_id uuid,
+  recipients text[] not null,
+  from_email text not null,
+  subject text not null,
+  template_key text,
+  notification_ids uuid[] not null default '{}',
+  provider text,
+  provider_message_id text,
+  status text not null check (status in ('sent', 'failed', 'suppressed')),
+  error text,
+  created_at timestamptz not null default now(),
+  sent_at timestamptz
+);
+
+create index if not exists email_messages_created_idx
+  on public.email_messages (created_at desc);
+
+create index if not exists email_messages_user_idx
+  on public.email_messages (user_id, created_at desc)
+  where user_id is not null;
+
+create index if not exists email_messages_recipients_idx
+  on public.email_messages using gin (recipients);
+
+create index if not exists email_messages_provider_message_id_idx
+  on public.email_messages (provider_message_id)
+  where provider_message_id is not null;
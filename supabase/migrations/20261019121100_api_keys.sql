@@ -0,0 +1,19 @@
+-- Autenticação da API
+-- Chaves de API para sistemas (ex.: cron): só o hash SHA-256 é guardado; o prefixo
+-- identifica a chave em listagens sem expor o valor.
+-- Papel do usuário (user_profiles.role) define os escopos dos tokens de acesso.
+
+create table if not exists public.api_keys (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  key_prefix text not null,
+  key_hash text not null unique,
+  scopes text[] not null,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+alter table public.user_profiles
+  add column if not exists role text not null default 'user'
+  check (role in ('user', 'admin'));
@@ -0,0 +1,30 @@
+-- Sessões de usuário
+-- Refresh tokens rotativos: cada refresh marca o token usado (rotated_at) e cria outro
+-- na mesma família; reapresentar um token rotacionado revoga a família inteira.
+-- Códigos de troca: uso único e curta duração, entregues ao frontend no callback OAuth.
+-- Em ambas as tabelas só o hash SHA-256 é guardado.
+
+create table if not exists public.auth_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  family_id uuid not null,
+  token_hash text not null unique,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  rotated_at timestamptz,
+  revoked_at timestamptz
+);
+
+create index if not exists auth_sessions_family_idx
+  on public.auth_sessions (family_id);
+
+create index if not exists auth_sessions_user_idx
+  on public.auth_sessions (user_id);
+
+create table if not exists public.auth_exchange_codes (
+  code_hash text primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  expires_at timestamptz not null,
+  used_at timestamptz,
+  created_at timestamptz not null default now()
+);
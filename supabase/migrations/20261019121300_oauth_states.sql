@@ -0,0 +1,15 @@
+-- Logins OAuth iniciados
+-- O parâmetro `state` assinado carrega o nonce; aqui ficam o verifier PKCE (nunca sai do
+-- servidor) e o destino pós-login. used_at garante que cada state seja aceito uma única vez.
+
+create table if not exists public.oauth_states (
+  nonce text primary key,
+  code_verifier text not null,
+  return_to text,
+  expires_at timestamptz not null,
+  used_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists oauth_states_expires_idx
+  on public.oauth_states (expires_at);
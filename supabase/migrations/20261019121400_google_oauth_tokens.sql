@@ -0,0 +1,13 @@
+-- Acesso offline ao Google
+-- Refresh token e token de acesso cifrados pela aplicação (AES-256-GCM, GOOGLE_TOKEN_ENCRYPTION_KEY);
+-- o banco nunca vê os valores em claro.
+
+create table if not exists public.google_oauth_tokens (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  refresh_token_encrypted text not null,
+  access_token_encrypted text,
+  access_token_expires_at timestamptz,
+  scopes text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
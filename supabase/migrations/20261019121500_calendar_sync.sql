@@ -0,0 +1,30 @@
+-- Sincronização de tarefas com o Google Calendar
+-- Opt-in por usuário com calendário dedicado; cada tarefa sincronizada guarda o evento
+-- criado e o hash do conteúdo enviado, para que a reconciliação seja idempotente.
+
+create table if not exists public.calendar_sync_settings (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  enabled boolean not null default false,
+  calendar_id text,
+  time_zone text not null,
+  last_synced_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists calendar_sync_settings_enabled_idx
+  on public.calendar_sync_settings (user_id)
+  where enabled;
+
+create table if not exists public.calendar_task_events (
+  task_table text not null check (task_table in ('user_tasks', 'todos')),
+  task_id text not null,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  event_id text not null,
+  content_hash text not null,
+  synced_at timestamptz not null default now(),
+  primary key (task_table, task_id)
+);
+
+create index if not exists calendar_task_events_user_idx
+  on public.calendar_task_events (user_id);
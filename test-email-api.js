@@ -17,6 +17,7 @@ async function makeRequest(endpoint, data = null) {
       method: data ? 'POST' : 'GET',
       headers: {
         'Content-Type': 'application/json',
+        ...(process.env.GROWSPACE_API_KEY ? { 'X-API-Key': process.env.GROWSPACE_API_KEY } : {}),
       },
     };
 
@@ -6,6 +6,7 @@ async function makeRequest(url, options = {}) {
       method: options.method || 'GET',
       headers: {
         'Content-Type': 'application/json',
+        ...(process.env.GROWSPACE_API_KEY ? { 'X-API-Key': process.env.GROWSPACE_API_KEY } : {}),
         ...options.headers,
       },
       body: options.body ? JSON.stringify(options.body) : undefined,
@@ -12,6 +12,7 @@ async function makeRequest(url, options = {}) {
     const response = await fetch(url, {
       headers: {
         'Content-Type': 'application/json',
+        ...(process.env.GROWSPACE_API_KEY ? { 'X-API-Key': process.env.GROWSPACE_API_KEY } : {}),
         ...options.headers,
       },
       ...options,
@@ -85,6 +86,7 @@ async function testEmailSendingProduction() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(process.env.GROWSPACE_API_KEY ? { 'X-API-Key': process.env.GROWSPACE_API_KEY } : {}),
         },
         body: JSON.stringify({
           to: email.to,
@@ -13,6 +13,7 @@ async function makeRequest(url, options = {}) {
       method: options.method || 'GET',
       headers: {
         'Content-Type': 'application/json',
+        ...(process.env.GROWSPACE_API_KEY ? { 'X-API-Key': process.env.GROWSPACE_API_KEY } : {}),
         ...options.headers,
       },
       body: options.body ? JSON.stringify(options.body) : undefined,
@@ -113,6 +114,7 @@ async function testEmailSending() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(process.env.GROWSPACE_API_KEY ? { 'X-API-Key': process.env.GROWSPACE_API_KEY } : {}),
         },
         body: JSON.stringify({
           to: email.to,
@@ -12,6 +12,7 @@ async function makeRequest(url, options = {}) {
     const response = await fetch(url, {
       headers: {
         'Content-Type': 'application/json',
+        ...(process.env.GROWSPACE_API_KEY ? { 'X-API-Key': process.env.GROWSPACE_API_KEY } : {}),
         ...options.headers,
       },
       ...options,
@@ -16,6 +16,7 @@ async function testEndpoint(name, endpoint, data = null) {
       method: data ? 'POST' : 'GET',
       headers: {
         'Content-Type': 'application/json',
+        ...(process.env.GROWSPACE_API_KEY ? { 'X-API-Key': process.env.GROWSPACE_API_KEY } : {}),
       },
     };
 
@@ -12,6 +12,7 @@ async function testSimple() {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...(process.env.GROWSPACE_API_KEY ? { 'X-API-Key': process.env.GROWSPACE_API_KEY } : {}),
       },
       body: JSON.stringify({
         to: ['pauloericrn@gmail.com'],